@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import { PackageInfo } from './types';
+import { ParserManager } from './parserManager';
+import { UpdateManager } from './updateManager';
+import { VersionService } from './versionService';
+import { NpmVersionService } from './npmVersionService';
+import { getDeclarationKey, getUpgradeOptions, isValidPythonPackageName } from './utils';
+
+export type BulkUpdateScope = 'file' | 'workspace';
+
+type UpdateLevel = 'patch' | 'minor' | 'major';
+
+interface UpdateCandidate {
+    packageInfo: PackageInfo;
+    level: UpdateLevel;
+    version: string;
+}
+
+interface CandidatePickItem extends vscode.QuickPickItem {
+    candidate?: UpdateCandidate;
+}
+
+const LEVELS: { level: UpdateLevel; label: string }[] = [
+    { level: 'patch', label: '🔧 Patch' },
+    { level: 'minor', label: '📈 Minor' },
+    { level: 'major', label: '🚀 Major' }
+];
+
+const LEVEL_RANK: { [level in UpdateLevel]: number } = { patch: 1, minor: 2, major: 3 };
+
+export class BulkUpdateManager {
+    private static instance: BulkUpdateManager;
+
+    static getInstance(): BulkUpdateManager {
+        if (!BulkUpdateManager.instance) {
+            BulkUpdateManager.instance = new BulkUpdateManager();
+        }
+        return BulkUpdateManager.instance;
+    }
+
+    /**
+     * 收集过期依赖，让用户按 patch/minor/major 多选后一次性更新
+     */
+    async updateAllOutdated(scope: BulkUpdateScope): Promise<boolean> {
+        const documents = await this.getDocuments(scope);
+        if (!documents.length) {
+            vscode.window.showWarningMessage('No supported dependency files found');
+            return false;
+        }
+
+        const candidates = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Collecting outdated dependencies...' },
+            async () => {
+                const result: UpdateCandidate[] = [];
+                for (const document of documents) {
+                    result.push(...await this.collectCandidates(document));
+                }
+                return result;
+            }
+        );
+
+        if (!candidates.length) {
+            vscode.window.showInformationMessage('All dependencies are up to date');
+            return false;
+        }
+
+        const picked = await vscode.window.showQuickPick(this.buildPickItems(candidates, scope), {
+            canPickMany: true,
+            placeHolder: 'Select the updates to apply (patch and minor updates are pre-selected)',
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!picked || !picked.length) return false;
+
+        const updates = this.resolveSelection(picked
+            .map(item => item.candidate)
+            .filter((c): c is UpdateCandidate => !!c));
+
+        return UpdateManager.getInstance().updatePackageVersions(
+            updates.map(c => ({ packageInfo: c.packageInfo, newVersion: c.version }))
+        );
+    }
+
+    private async getDocuments(scope: BulkUpdateScope): Promise<vscode.TextDocument[]> {
+        const parserManager = ParserManager.getInstance();
+
+        if (scope === 'file') {
+            const editor = vscode.window.activeTextEditor;
+            return editor && parserManager.parseDocument(editor.document).length > 0 ? [editor.document] : [];
+        }
+
+        const uris = await parserManager.findWorkspaceManifests();
+        const documents: vscode.TextDocument[] = [];
+        for (const uri of uris) {
+            try {
+                documents.push(await vscode.workspace.openTextDocument(uri));
+            } catch (error) {
+                console.error(`Failed to open ${uri.fsPath}:`, error);
+            }
+        }
+        return documents;
+    }
+
+    private async collectCandidates(document: vscode.TextDocument): Promise<UpdateCandidate[]> {
+        const isPackageJson = document.fileName.toLowerCase().endsWith('package.json');
+        const versionService = VersionService.getInstance();
+        const npmVersionService = NpmVersionService.getInstance();
+        const seen = new Set<string>();
+
+        // 同一文件的同一分组中同名包只处理第一个声明
+        const packages = ParserManager.getInstance().parseDocument(document).filter(pkg => {
+            if (seen.has(getDeclarationKey(pkg)) || !pkg.currentVersion) return false;
+            seen.add(getDeclarationKey(pkg));
+            return true;
+        });
+
+        // 并发获取版本，保持声明顺序
+        const results = await Promise.all(packages.map(async pkg => {
+            const candidates: UpdateCandidate[] = [];
+            const queryPackageName = pkg.basePackageName || pkg.name.split('[')[0];
+            if (!isPackageJson && !isValidPythonPackageName(queryPackageName)) return candidates;
+
+            const allVersions = isPackageJson
+                ? await npmVersionService.getStableVersions(queryPackageName, pkg.filePath)
+                : await versionService.getStableVersions(queryPackageName, pkg.indexUrls);
+            if (!allVersions.length) return candidates;
+
+            const currentVersionSpec = pkg.versionSpec || `${pkg.versionConstraint || ''}${pkg.currentVersion}`;
+            const options = getUpgradeOptions(currentVersionSpec, allVersions, isPackageJson, pkg.constraintSpec, pkg.lockedVersion);
+
+            LEVELS.forEach(({ level }) => {
+                const version = options[level];
+                if (version && version !== pkg.currentVersion) {
+                    candidates.push({ packageInfo: pkg, level, version });
+                }
+            });
+            return candidates;
+        }));
+
+        return results.reduce((all, candidates) => all.concat(candidates), [] as UpdateCandidate[]);
+    }
+
+    private buildPickItems(candidates: UpdateCandidate[], scope: BulkUpdateScope): CandidatePickItem[] {
+        const items: CandidatePickItem[] = [];
+
+        LEVELS.forEach(({ level, label }) => {
+            const group = candidates.filter(c => c.level === level);
+            if (!group.length) return;
+
+            items.push({ label, kind: vscode.QuickPickItemKind.Separator });
+            group.forEach(candidate => {
+                const { packageInfo } = candidate;
+                const declared = packageInfo.versionSpec ||
+                    `${packageInfo.versionConstraint || ''}${packageInfo.currentVersion}`;
+                items.push({
+                    label: packageInfo.name,
+                    description: `${declared} → ${candidate.version}`,
+                    detail: scope === 'workspace'
+                        ? vscode.workspace.asRelativePath(packageInfo.filePath)
+                        : undefined,
+                    picked: level !== 'major',
+                    candidate
+                });
+            });
+        });
+
+        return items;
+    }
+
+    /**
+     * 同一个依赖选中了多个级别时，只保留最高级别的更新
+     */
+    private resolveSelection(selected: UpdateCandidate[]): UpdateCandidate[] {
+        const byPackage = new Map<string, UpdateCandidate>();
+
+        selected.forEach(candidate => {
+            const { packageInfo } = candidate;
+            const key = `${packageInfo.filePath}#${packageInfo.line}#${packageInfo.name}`;
+            const existing = byPackage.get(key);
+            if (!existing || LEVEL_RANK[candidate.level] > LEVEL_RANK[existing.level]) {
+                byPackage.set(key, candidate);
+            }
+        });
+
+        return Array.from(byPackage.values());
+    }
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { PackageInfo } from './types';
+import { ConfigManager } from './config';
+import { OfflineError } from './connectivity';
+import { CancelledError } from './fetchScheduler';
+import { ParserManager } from './parserManager';
+import { VersionService } from './versionService';
+import { NpmVersionService } from './npmVersionService';
+import { DEPENDENCY_FILE_SELECTOR } from './decorationManager';
+import { DIAGNOSTIC_SOURCE } from './diagnosticsManager';
+import { parsePep440SpecifierSet } from './pep440';
+import { parseSemver } from './semver';
+import { getUpgradeOptions } from './utils';
+
+const LEVELS = [
+    { key: 'satisfies', label: 'satisfies' },
+    { key: 'patch', label: 'patch' },
+    { key: 'minor', label: 'minor' },
+    { key: 'major', label: 'major' }
+] as const;
+
+/**
+ * 光标所在依赖的快速修复：升级到 satisfies/patch/minor/major 版本、固定为最新版本、放宽为兼容范围
+ * 与 CodeLens 使用相同的升级选项和 UpdateManager，便于只用键盘操作（Ctrl+.）
+ */
+export class DependencyCodeActionProvider implements vscode.CodeActionProvider {
+    private static instance: DependencyCodeActionProvider;
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    static getInstance(): DependencyCodeActionProvider {
+        if (!DependencyCodeActionProvider.instance) {
+            DependencyCodeActionProvider.instance = new DependencyCodeActionProvider();
+        }
+        return DependencyCodeActionProvider.instance;
+    }
+
+    register(): vscode.Disposable {
+        return vscode.languages.registerCodeActionsProvider(DEPENDENCY_FILE_SELECTOR, this, {
+            providedCodeActionKinds: DependencyCodeActionProvider.providedCodeActionKinds
+        });
+    }
+
+    async provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CodeAction[]> {
+        if (!ConfigManager.getInstance().getConfig().enabled) {
+            return [];
+        }
+
+        const pkg = ParserManager.getInstance().parseDocument(document).find(p => p.line === range.start.line);
+        if (!pkg || !pkg.currentVersion) {
+            return [];
+        }
+
+        const isPackageJson = document.fileName.toLowerCase().endsWith('package.json');
+        const allVersions = await this.getStableVersions(pkg, isPackageJson);
+        if (token.isCancellationRequested || !allVersions.length) {
+            return [];
+        }
+
+        // 关联同一依赖上的过期和撤回/弃用诊断，使快速修复出现在 Problems 面板中
+        const diagnostics = context.diagnostics.filter(diagnostic =>
+            diagnostic.source === DIAGNOSTIC_SOURCE &&
+            diagnostic.range.start.line === pkg.line &&
+            /^(outdated-|yanked$|deprecated$)/.test(String(diagnostic.code))
+        );
+
+        const actions: vscode.CodeAction[] = [];
+        const currentVersionSpec = pkg.versionSpec || `${pkg.versionConstraint || ''}${pkg.currentVersion}`;
+        const options = getUpgradeOptions(currentVersionSpec, allVersions, isPackageJson, pkg.constraintSpec, pkg.lockedVersion);
+
+        // 相同版本只保留优先级最高的选项（顺序即优先级）
+        const offered = new Set<string>();
+        LEVELS.forEach(({ key, label }) => {
+            const version = options[key];
+            if (!version || version === pkg.currentVersion || offered.has(version)) {
+                return;
+            }
+            offered.add(version);
+
+            const action = this.createAction(`Update ${pkg.name} to ${version} (${label})`, diagnostics);
+            action.command = {
+                title: action.title,
+                command: 'version-lens.updateToVersion',
+                arguments: [pkg, version]
+            };
+            action.isPreferred = actions.length === 0;
+            actions.push(action);
+        });
+
+        const latestVersion = allVersions[0];
+        const pinnedSpec = isPackageJson ? latestVersion : `==${latestVersion}`;
+        if (currentVersionSpec !== pinnedSpec) {
+            actions.push(this.createSpecifierAction(`Pin ${pkg.name} to ${latestVersion}`, pkg, pinnedSpec, diagnostics));
+        }
+
+        const relaxedSpec = this.getRelaxedSpec(pkg, currentVersionSpec, isPackageJson);
+        if (relaxedSpec) {
+            actions.push(this.createSpecifierAction(`Relax ${pkg.name} to compatible range ${relaxedSpec}`, pkg, relaxedSpec, []));
+        }
+
+        return actions;
+    }
+
+    private createAction(title: string, diagnostics: vscode.Diagnostic[]): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        if (diagnostics.length) {
+            action.diagnostics = diagnostics;
+        }
+        return action;
+    }
+
+    private createSpecifierAction(title: string, pkg: PackageInfo, newSpec: string, diagnostics: vscode.Diagnostic[]): vscode.CodeAction {
+        const action = this.createAction(title, diagnostics);
+        action.command = {
+            title,
+            command: 'version-lens.replaceVersionSpecifier',
+            arguments: [pkg, newSpec]
+        };
+        return action;
+    }
+
+    /**
+     * 固定版本放宽为兼容范围：Python 使用 ~=（同一次版本内），npm 使用 ^（同一主版本内）
+     * 已经是范围的依赖不提供该选项
+     */
+    private getRelaxedSpec(pkg: PackageInfo, currentVersionSpec: string, isPackageJson: boolean): string | null {
+        const version = pkg.currentVersion!;
+
+        if (isPackageJson) {
+            return ['', '='].includes(pkg.versionConstraint || '') && parseSemver(version) ? `^${version}` : null;
+        }
+
+        const specifiers = parsePep440SpecifierSet(currentVersionSpec);
+        const pinned = specifiers?.length === 1 && specifiers[0].operator === '==' && !specifiers[0].version.includes('*');
+        // ~= 至少需要两段版本号
+        return pinned && version.includes('.') ? `~=${version}` : null;
+    }
+
+    private async getStableVersions(pkg: PackageInfo, isPackageJson: boolean): Promise<string[]> {
+        try {
+            if (isPackageJson) {
+                return await NpmVersionService.getInstance().getStableVersions(pkg.name, pkg.filePath);
+            }
+            return await VersionService.getInstance().getStableVersions(pkg.basePackageName || pkg.name.split('[')[0], pkg.indexUrls);
+        } catch (error) {
+            // 离线或请求被取消时不提供升级选项
+            if (!(error instanceof OfflineError || error instanceof CancelledError)) {
+                console.error(`Failed to get versions for ${pkg.name}:`, (error as Error).message);
+            }
+            return [];
+        }
+    }
+}
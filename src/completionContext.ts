@@ -0,0 +1,245 @@
+/**
+ * 依赖文件类型，决定光标位置的解析方式
+ */
+export type DependencyFileType = 'requirements' | 'pyproject' | 'pipfile' | 'setup' | 'packageJson';
+
+/**
+ * 光标处可以补全的内容
+ * version: 正在输入 packageName 的版本号；name: 正在输入包名
+ * prefix 为光标前已输入的部分，补全时替换
+ */
+export type DependencyCompletionContext =
+    | { kind: 'version'; packageName: string; prefix: string }
+    | { kind: 'name'; prefix: string };
+
+const PYTHON_NAME = '[A-Za-z0-9][A-Za-z0-9._-]*';
+const PYTHON_VERSION_CHARS = '[A-Za-z0-9.*+!_-]*';
+const PEP508_OPERATOR = '(?:===|==|~=|!=|>=|<=|>|<)';
+const POETRY_OPERATOR = '(?:===|==|~=|!=|>=|<=|>|<|\\^|~|=)';
+const NPM_NAME = '(?:@[A-Za-z0-9._~-]+\\/)?[A-Za-z0-9._~-]+';
+
+// requests==2. / requests[socks] >=2.0, <2. / requests (>=2.
+const PEP508_VERSION = new RegExp(`^(${PYTHON_NAME})\\s*(?:\\[[^\\]]*\\])?\\s*\\(?\\s*(?:[^;]*?,\\s*)?${PEP508_OPERATOR}\\s*(${PYTHON_VERSION_CHARS})$`);
+const PYTHON_NAME_PREFIX = new RegExp(`^(${PYTHON_NAME})?$`);
+// requests = "^2. / requests = { version = ">=2.0, <2.
+const TOML_VERSION = new RegExp(`^\\s*"?(${PYTHON_NAME})"?\\s*=\\s*(?:\\{[^}]*\\bversion\\s*=\\s*)?["'](?:[^"',]*,\\s*)?${POETRY_OPERATOR}?\\s*(${PYTHON_VERSION_CHARS})$`);
+// "react": "^18. / "react": ">=1.0.0 <2.
+const NPM_VERSION = new RegExp(`^\\s*"(${NPM_NAME})"\\s*:\\s*"(?:[^"]*[\\s|])?(?:\\^|~|>=|<=|>|<|=)?\\s*([A-Za-z0-9.+*-]*)$`);
+const NPM_NAME_PREFIX = /^\s*"([@A-Za-z0-9._~/-]*)$/;
+
+const POETRY_SECTIONS = /^tool\.poetry\.(dependencies|dev-dependencies|group\.[^.]+\.dependencies)$/;
+const PIPFILE_SECTIONS = /^(packages|dev-packages)$/;
+const PEP508_ARRAY_SECTIONS = /^(project\.optional-dependencies|dependency-groups|tool\.pdm\.dev-dependencies)$/;
+const NPM_DEPENDENCY_KEYS = new Set(['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']);
+
+export function getDependencyFileType(fileName: string): DependencyFileType | null {
+    const lower = fileName.toLowerCase();
+    if (lower.endsWith('package.json')) {
+        return 'packageJson';
+    }
+    if (lower.endsWith('pyproject.toml')) {
+        return 'pyproject';
+    }
+    if (lower.endsWith('pipfile')) {
+        return 'pipfile';
+    }
+    if (lower.endsWith('setup.py')) {
+        return 'setup';
+    }
+    if (lower.includes('requirements') && lower.endsWith('.txt')) {
+        return 'requirements';
+    }
+    return null;
+}
+
+/**
+ * 根据光标前的文本判断补全类型
+ * @param textBeforeCursor 文档开头到光标处的文本（package.json 和 TOML 需要据此判断所在的依赖段）
+ */
+export function getCompletionContext(fileType: DependencyFileType, textBeforeCursor: string): DependencyCompletionContext | null {
+    const lines = textBeforeCursor.split(/\r?\n/);
+    const line = lines[lines.length - 1];
+
+    switch (fileType) {
+        case 'requirements':
+            return getRequirementsContext(line);
+        case 'setup':
+            return getQuotedPep508Context(line);
+        case 'pipfile':
+            return PIPFILE_SECTIONS.test(findTomlSection(lines) || '') ? getTomlTableContext(line) : null;
+        case 'pyproject': {
+            const section = findTomlSection(lines) || '';
+            if (POETRY_SECTIONS.test(section)) {
+                return getTomlTableContext(line);
+            }
+            return isPep508Array(section, findTomlArrayKey(lines)) ? getQuotedPep508Context(line) : null;
+        }
+        case 'packageJson':
+            return getPackageJsonContext(textBeforeCursor, line);
+    }
+}
+
+function getRequirementsContext(line: string): DependencyCompletionContext | null {
+    const text = line.trimStart();
+    // 选项（-r、--index-url）、注释和环境标记部分不补全
+    if (text.startsWith('-') || text.includes('#') || text.includes(';')) {
+        return null;
+    }
+
+    const version = text.match(PEP508_VERSION);
+    if (version) {
+        return { kind: 'version', packageName: version[1], prefix: version[2] };
+    }
+
+    const name = text.match(PYTHON_NAME_PREFIX);
+    return name ? { kind: 'name', prefix: name[1] || '' } : null;
+}
+
+/**
+ * 引号中的 PEP 508 依赖，例如 install_requires=["requests>=2. 或 dependencies = ["requests==
+ */
+function getQuotedPep508Context(line: string): DependencyCompletionContext | null {
+    const quoted = line.match(/(["'])([^"']*)$/);
+    if (!quoted) {
+        return null;
+    }
+
+    // 引号数量为奇数时光标才在字符串内
+    const quote = quoted[1];
+    if (line.split(quote).length % 2 !== 0) {
+        return null;
+    }
+
+    const text = quoted[2];
+    if (text.includes(';')) {
+        return null;
+    }
+
+    const version = text.match(PEP508_VERSION);
+    if (version) {
+        return { kind: 'version', packageName: version[1], prefix: version[2] };
+    }
+
+    // 只在列表项的开头补全包名，避免在其他字符串中弹出
+    const beforeQuote = line.slice(0, line.length - text.length - 1);
+    const name = text.match(PYTHON_NAME_PREFIX);
+    return name && /(^|[[,(])\s*$/.test(beforeQuote) ? { kind: 'name', prefix: name[1] || '' } : null;
+}
+
+/**
+ * Poetry 和 Pipfile 的键值形式，例如 requests = "^2. 或 requests = { version = ">=2.
+ */
+function getTomlTableContext(line: string): DependencyCompletionContext | null {
+    const version = line.match(TOML_VERSION);
+    if (version) {
+        return { kind: 'version', packageName: version[1], prefix: version[2] };
+    }
+
+    const name = line.match(new RegExp(`^\\s*(${PYTHON_NAME})?$`));
+    return name ? { kind: 'name', prefix: name[1] || '' } : null;
+}
+
+function getPackageJsonContext(textBeforeCursor: string, line: string): DependencyCompletionContext | null {
+    const path = getJsonKeyPath(textBeforeCursor);
+    if (path.length !== 2 || !NPM_DEPENDENCY_KEYS.has(path[1] || '')) {
+        return null;
+    }
+
+    const version = line.match(NPM_VERSION);
+    if (version) {
+        return { kind: 'version', packageName: version[1], prefix: version[2] };
+    }
+
+    const name = line.match(NPM_NAME_PREFIX);
+    return name ? { kind: 'name', prefix: name[1] } : null;
+}
+
+function isPep508Array(section: string, arrayKey: string | null): boolean {
+    if (PEP508_ARRAY_SECTIONS.test(section)) {
+        return true;
+    }
+    if (section === 'project') {
+        return arrayKey === 'dependencies';
+    }
+    if (section === 'build-system') {
+        return arrayKey === 'requires';
+    }
+    if (section === 'tool.uv') {
+        return !!arrayKey && /-dependencies$/.test(arrayKey);
+    }
+    if (/^tool\.hatch\.envs\.[^.]+$/.test(section)) {
+        return arrayKey === 'dependencies' || arrayKey === 'extra-dependencies';
+    }
+    return false;
+}
+
+/**
+ * 光标所在的 TOML 段名（不含方括号和引号）
+ */
+function findTomlSection(lines: string[]): string | null {
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const header = lines[i].match(/^\s*\[\[?\s*([A-Za-z0-9_".-][^\]]*?)\s*\]\]?\s*(#.*)?$/);
+        if (header) {
+            return header[1].replace(/["'\s]/g, '');
+        }
+    }
+    return null;
+}
+
+/**
+ * 光标所在的多行数组对应的键，例如 dependencies = [ ... 中的 dependencies
+ */
+function findTomlArrayKey(lines: string[]): string | null {
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const text = lines[i].replace(/#.*$/, '');
+        // 遇到段名或已经闭合的数组时，说明光标不在数组中
+        if (i < lines.length - 1 && (/^\s*\[\[?\s*[A-Za-z"]/.test(text) || /\]\s*,?\s*$/.test(text))) {
+            return null;
+        }
+        const key = text.match(/^\s*"?([A-Za-z0-9_.-]+)"?\s*=\s*\[/);
+        if (key) {
+            return key[1];
+        }
+    }
+    return null;
+}
+
+/**
+ * 光标所在位置的 JSON 对象键路径，例如 ['', 'dependencies']（根对象的键为空字符串）
+ */
+function getJsonKeyPath(text: string): (string | null)[] {
+    const stack: (string | null)[] = [];
+    let lastString: string | null = null;
+    let pendingKey: string | null = null;
+    let i = 0;
+
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '"') {
+            let end = i + 1;
+            while (end < text.length && text[end] !== '"') {
+                end += text[end] === '\\' ? 2 : 1;
+            }
+            lastString = text.slice(i + 1, end);
+            i = end + 1;
+            continue;
+        }
+
+        if (char === ':') {
+            pendingKey = lastString;
+        } else if (char === '{') {
+            stack.push(stack.length === 0 ? '' : pendingKey);
+            pendingKey = null;
+        } else if (char === '[') {
+            stack.push(null);
+            pendingKey = null;
+        } else if (char === '}' || char === ']') {
+            stack.pop();
+        } else if (char === ',') {
+            pendingKey = null;
+        }
+        i++;
+    }
+
+    return stack;
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from './config';
+import { VersionService } from './versionService';
+import { NpmVersionService } from './npmVersionService';
+import { DEPENDENCY_FILE_SELECTOR } from './decorationManager';
+import { getCompletionContext, getDependencyFileType } from './completionContext';
+import { getNpmReleases, getPyPIReleases, ReleaseSummary } from './packageMetadata';
+import { ParserManager } from './parserManager';
+
+const POPULAR_PACKAGES_PATH = path.join(__dirname, '..', 'resources', 'popular-packages.json');
+
+/**
+ * 输入版本说明符时补全已发布的版本（从新到旧，附带发布日期和预发布/撤回标记），
+ * 输入包名时补全常用包名和本次会话中查询过的包名
+ * 版本数据与 CodeLens 使用同一个服务和缓存
+ */
+export class DependencyCompletionProvider implements vscode.CompletionItemProvider {
+    private static instance: DependencyCompletionProvider;
+    private popularPackages: { pypi: string[]; npm: string[] } | null = null;
+
+    static getInstance(): DependencyCompletionProvider {
+        if (!DependencyCompletionProvider.instance) {
+            DependencyCompletionProvider.instance = new DependencyCompletionProvider();
+        }
+        return DependencyCompletionProvider.instance;
+    }
+
+    register(): vscode.Disposable {
+        return vscode.languages.registerCompletionItemProvider(
+            DEPENDENCY_FILE_SELECTOR, this, '=', '>', '<', '~', '^', '"', '\''
+        );
+    }
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CompletionItem[]> {
+        if (!ConfigManager.getInstance().getConfig().enabled) {
+            return [];
+        }
+
+        const fileType = getDependencyFileType(document.fileName);
+        if (!fileType) {
+            return [];
+        }
+
+        const textBeforeCursor = document.getText(new vscode.Range(new vscode.Position(0, 0), position));
+        const context = getCompletionContext(fileType, textBeforeCursor);
+        if (!context) {
+            return [];
+        }
+
+        const range = new vscode.Range(position.translate(0, -context.prefix.length), position);
+        const isPackageJson = fileType === 'packageJson';
+
+        if (context.kind === 'name') {
+            return this.getNameItems(isPackageJson, range);
+        }
+
+        const releases = await this.getReleases(document, context.packageName, isPackageJson, token);
+        if (token.isCancellationRequested) {
+            return [];
+        }
+        return this.getVersionItems(releases, range);
+    }
+
+    private async getReleases(
+        document: vscode.TextDocument,
+        packageName: string,
+        isPackageJson: boolean,
+        token: vscode.CancellationToken
+    ): Promise<ReleaseSummary[]> {
+        if (isPackageJson) {
+            const info = await NpmVersionService.getInstance().getPackageInfo(packageName, document.fileName, token);
+            return info ? getNpmReleases(info) : [];
+        }
+
+        // 使用文件中声明的索引（--index-url 等）
+        const declared = ParserManager.getInstance().parseDocument(document).find(pkg => pkg.indexUrls?.length);
+        const info = await VersionService.getInstance().getPackageInfo(packageName, declared?.indexUrls, token);
+        return info ? getPyPIReleases(info) : [];
+    }
+
+    private getVersionItems(releases: ReleaseSummary[], range: vscode.Range): vscode.CompletionItem[] {
+        const latestStable = releases.find(release => !release.prerelease && !release.yanked && !release.deprecated);
+
+        return releases.map((release, index) => {
+            const item = new vscode.CompletionItem(release.version, vscode.CompletionItemKind.Value);
+            const markers: string[] = [];
+            if (release === latestStable) {
+                markers.push('最新');
+            }
+            if (release.prerelease) {
+                markers.push('预发布');
+            }
+            if (release.yanked) {
+                markers.push('已撤回 (yanked)');
+            }
+            if (release.deprecated) {
+                markers.push('已弃用');
+            }
+
+            item.detail = [release.releaseDate ? release.releaseDate.slice(0, 10) : '', ...markers].filter(Boolean).join(' · ');
+            if (release.deprecated) {
+                item.documentation = release.deprecated;
+            }
+            if (release.yanked || release.deprecated) {
+                item.tags = [vscode.CompletionItemTag.Deprecated];
+            }
+            item.range = range;
+            // 保持从新到旧的顺序，不按字母排序
+            item.sortText = String(index).padStart(5, '0');
+            item.preselect = release === latestStable;
+            return item;
+        });
+    }
+
+    private getNameItems(isPackageJson: boolean, range: vscode.Range): vscode.CompletionItem[] {
+        const popular = this.getPopularPackages()[isPackageJson ? 'npm' : 'pypi'];
+        const cached = isPackageJson
+            ? NpmVersionService.getInstance().getCachedPackageNames()
+            : VersionService.getInstance().getCachedPackageNames();
+
+        return Array.from(new Set([...cached, ...popular])).map(name => {
+            const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Module);
+            item.range = range;
+            return item;
+        });
+    }
+
+    /**
+     * 随扩展发布的常用包列表，首次使用时读取
+     */
+    private getPopularPackages(): { pypi: string[]; npm: string[] } {
+        if (!this.popularPackages) {
+            try {
+                const data = JSON.parse(fs.readFileSync(POPULAR_PACKAGES_PATH, 'utf8'));
+                this.popularPackages = { pypi: data.pypi || [], npm: data.npm || [] };
+            } catch (error) {
+                console.error('Failed to load popular package list:', (error as Error).message);
+                this.popularPackages = { pypi: [], npm: [] };
+            }
+        }
+        return this.popularPackages;
+    }
+}
@@ -1,5 +1,17 @@
 import * as vscode from 'vscode';
-import { ExtensionConfig } from './types';
+import { DiagnosticSeverityConfig, ExtensionConfig } from './types';
+
+const DEFAULT_DIAGNOSTIC_SEVERITY: DiagnosticSeverityConfig = {
+  major: 'warning',
+  minor: 'information',
+  patch: 'hint',
+  notFound: 'error',
+  invalidSpecifier: 'error',
+  duplicate: 'warning',
+  yanked: 'warning',
+  lockfileOutdated: 'warning',
+  installedMismatch: 'warning'
+};
 
 export class ConfigManager {
   private static instance: ConfigManager;
@@ -39,6 +51,19 @@ export class ConfigManager {
         'package.json'
       ]),
       customPyPIIndex: config.get('customPyPIIndex', ''),
+      persistentCache: config.get('persistentCache', true),
+      cacheMaxSizeMB: config.get('cacheMaxSizeMB', 50),
+      maxConcurrentRequests: config.get('maxConcurrentRequests', 8),
+      requestsPerSecondPerHost: config.get('requestsPerSecondPerHost', 10),
+      vulnerabilityLens: config.get('vulnerabilityLens', true),
+      osvDatabasePath: config.get('osvDatabasePath', ''),
+      pythonInterpreterPath: config.get('pythonInterpreterPath', ''),
+      diagnostics: config.get('diagnostics', true),
+      // 只配置了部分级别时，其余使用默认值
+      diagnosticSeverity: {
+        ...DEFAULT_DIAGNOSTIC_SEVERITY,
+        ...config.get<Partial<DiagnosticSeverityConfig>>('diagnosticSeverity', {})
+      },
       excludePatterns: config.get('excludePatterns', []),
       decorationStyle: config.get('decorationStyle', {
         color: '#999999',
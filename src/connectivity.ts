@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+
+const PROBE_INTERVAL = 30000;
+const PROBE_TIMEOUT = 5000;
+
+/**
+ * 主机不可达时直接抛出，不发起网络请求
+ */
+export class OfflineError extends Error {
+    constructor(public readonly host: string) {
+        super(`${host} is unreachable`);
+        this.name = 'OfflineError';
+    }
+}
+
+/**
+ * 是否为网络层错误（没有收到 HTTP 响应），用户取消的请求除外
+ */
+export function isNetworkError(error: unknown): boolean {
+    return axios.isAxiosError(error) && !error.response && error.code !== 'ERR_CANCELED';
+}
+
+/**
+ * 按主机跟踪网络连通性：请求出现网络错误后将主机标记为不可达，
+ * 之后对该主机的请求直接失败，并定期探测，恢复后通知刷新
+ */
+export class ConnectivityMonitor {
+    private static instance: ConnectivityMonitor;
+    private unreachable = new Map<string, { origin: string; since: number }>();
+    private probeTimer: NodeJS.Timeout | undefined;
+    private _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    static getInstance(): ConnectivityMonitor {
+        if (!ConnectivityMonitor.instance) {
+            ConnectivityMonitor.instance = new ConnectivityMonitor();
+        }
+        return ConnectivityMonitor.instance;
+    }
+
+    isReachable(url: string): boolean {
+        const host = getHost(url);
+        return !host || !this.unreachable.has(host);
+    }
+
+    /**
+     * 是否有主机不可达（其他主机可能仍然可用）
+     */
+    hasUnreachableHosts(): boolean {
+        return this.unreachable.size > 0;
+    }
+
+    /**
+     * 请求前调用，主机不可达时抛出 OfflineError
+     */
+    assertReachable(url: string): void {
+        if (!this.isReachable(url)) {
+            throw new OfflineError(getHost(url)!);
+        }
+    }
+
+    reportFailure(url: string): void {
+        const host = getHost(url);
+        if (!host || this.unreachable.has(host)) return;
+
+        console.warn(`${host} is unreachable, serving cached versions until it is back`);
+        this.unreachable.set(host, { origin: new URL(url).origin, since: Date.now() });
+        this.startProbing();
+        this._onDidChange.fire();
+    }
+
+    reportSuccess(url: string): void {
+        const host = getHost(url);
+        if (host && this.unreachable.delete(host)) {
+            console.log(`${host} is reachable again`);
+            if (!this.unreachable.size) this.stopProbing();
+            this._onDidChange.fire();
+        }
+    }
+
+    /**
+     * 立即探测所有不可达的主机
+     */
+    async probe(): Promise<void> {
+        await Promise.all(Array.from(this.unreachable.values()).map(async ({ origin }) => {
+            try {
+                // 收到任何 HTTP 响应（包括 404）都说明网络已经恢复
+                await axios.head(`${origin}/`, { timeout: PROBE_TIMEOUT, validateStatus: () => true });
+                this.reportSuccess(origin);
+            } catch {
+                // 仍然不可达，等待下一次探测
+            }
+        }));
+    }
+
+    dispose(): void {
+        this.stopProbing();
+        this._onDidChange.dispose();
+    }
+
+    private startProbing(): void {
+        if (this.probeTimer) return;
+        this.probeTimer = setInterval(() => this.probe(), PROBE_INTERVAL);
+        this.probeTimer.unref?.();
+    }
+
+    private stopProbing(): void {
+        if (this.probeTimer) {
+            clearInterval(this.probeTimer);
+            this.probeTimer = undefined;
+        }
+    }
+}
+
+function getHost(url: string): string | null {
+    try {
+        return new URL(url).host || null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import { IndexCredentials } from './pipConfig';
+
+const SECRET_PREFIX = 'versionLens.indexCredentials:';
+const HOSTS_KEY = 'versionLens.indexCredentialHosts';
+
+/**
+ * 私有索引认证信息，保存在 VS Code SecretStorage 中，按主机名区分
+ */
+export class CredentialStore {
+    private static instance: CredentialStore;
+    private secrets: vscode.SecretStorage | undefined;
+    private cache = new Map<string, IndexCredentials | null>();
+
+    static getInstance(): CredentialStore {
+        if (!CredentialStore.instance) {
+            CredentialStore.instance = new CredentialStore();
+        }
+        return CredentialStore.instance;
+    }
+
+    initialize(secrets: vscode.SecretStorage): vscode.Disposable {
+        this.secrets = secrets;
+        this.cache.clear();
+        // 其他窗口修改了认证信息时清除缓存
+        return secrets.onDidChange(event => {
+            if (event.key.startsWith(SECRET_PREFIX)) {
+                this.cache.delete(event.key.slice(SECRET_PREFIX.length));
+            }
+        });
+    }
+
+    async get(host: string): Promise<IndexCredentials | null> {
+        if (!this.secrets) {
+            return null;
+        }
+        if (this.cache.has(host)) {
+            return this.cache.get(host)!;
+        }
+
+        let credentials: IndexCredentials | null = null;
+        try {
+            const stored = await this.secrets.get(SECRET_PREFIX + host);
+            credentials = stored ? JSON.parse(stored) : null;
+        } catch {
+            console.error(`Failed to read stored credentials for ${host}`);
+        }
+        this.cache.set(host, credentials);
+        return credentials;
+    }
+
+    async set(host: string, credentials: IndexCredentials): Promise<void> {
+        if (!this.secrets) {
+            return;
+        }
+        await this.secrets.store(SECRET_PREFIX + host, JSON.stringify(credentials));
+        this.cache.set(host, credentials);
+
+        const hosts = await this.getHosts();
+        if (!hosts.includes(host)) {
+            await this.secrets.store(HOSTS_KEY, JSON.stringify([...hosts, host]));
+        }
+    }
+
+    async delete(host: string): Promise<void> {
+        if (!this.secrets) {
+            return;
+        }
+        await this.secrets.delete(SECRET_PREFIX + host);
+        this.cache.set(host, null);
+
+        const hosts = await this.getHosts();
+        await this.secrets.store(HOSTS_KEY, JSON.stringify(hosts.filter(h => h !== host)));
+    }
+
+    /**
+     * 已保存认证信息的主机（SecretStorage 本身不支持枚举）
+     */
+    async getHosts(): Promise<string[]> {
+        if (!this.secrets) {
+            return [];
+        }
+        try {
+            return JSON.parse(await this.secrets.get(HOSTS_KEY) || '[]');
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * 交互式保存索引认证信息
+     */
+    async promptAndStore(): Promise<boolean> {
+        const indexUrl = await vscode.window.showInputBox({
+            prompt: 'Index URL (e.g. https://pypi.company.com/simple)',
+            ignoreFocusOut: true,
+            validateInput: value => toHost(value) ? undefined : 'Please enter a valid URL'
+        });
+        const host = indexUrl && toHost(indexUrl);
+        if (!host) {
+            return false;
+        }
+
+        const type = await vscode.window.showQuickPick(
+            [
+                { label: 'Username and password', description: 'Basic authentication', value: 'basic' },
+                { label: 'Token', description: 'Bearer token', value: 'token' }
+            ],
+            { placeHolder: `Authentication for ${host}`, ignoreFocusOut: true }
+        );
+        if (!type) {
+            return false;
+        }
+
+        let credentials: IndexCredentials;
+        if (type.value === 'token') {
+            const token = await vscode.window.showInputBox({ prompt: `Token for ${host}`, password: true, ignoreFocusOut: true });
+            if (!token) {
+                return false;
+            }
+            credentials = { token };
+        } else {
+            const username = await vscode.window.showInputBox({ prompt: `Username for ${host}`, ignoreFocusOut: true });
+            if (!username) {
+                return false;
+            }
+            const password = await vscode.window.showInputBox({ prompt: `Password for ${host}`, password: true, ignoreFocusOut: true });
+            if (password === undefined) {
+                return false;
+            }
+            credentials = { username, password };
+        }
+
+        await this.set(host, credentials);
+        vscode.window.showInformationMessage(`Credentials saved for ${host}`);
+        return true;
+    }
+
+    /**
+     * 交互式删除已保存的索引认证信息
+     */
+    async promptAndDelete(): Promise<boolean> {
+        const hosts = await this.getHosts();
+        if (!hosts.length) {
+            vscode.window.showInformationMessage('No stored index credentials');
+            return false;
+        }
+
+        const host = await vscode.window.showQuickPick(hosts, { placeHolder: 'Select the index to forget' });
+        if (!host) {
+            return false;
+        }
+
+        await this.delete(host);
+        vscode.window.showInformationMessage(`Credentials removed for ${host}`);
+        return true;
+    }
+}
+
+function toHost(url: string): string | null {
+    try {
+        return new URL(url).host || null;
+    } catch {
+        return null;
+    }
+}
@@ -1,11 +1,21 @@
 import * as vscode from 'vscode';
-import { IDecorationManager, PackageInfo } from './types';
+import { IDecorationManager, PackageInfo, RequirementsReferenceSummary } from './types';
+import { OsvQuery, OsvVulnerability } from './osv';
+
+// 所有支持的依赖文件，CodeLens 和 Code Action 共用
+export const DEPENDENCY_FILE_SELECTOR: vscode.DocumentFilter[] = [
+  { pattern: '**/requirements*.txt' },
+  { pattern: '**/pyproject.toml' },
+  { pattern: '**/setup.py' },
+  { pattern: '**/Pipfile' },
+  { pattern: '**/package.json' }
+];
 
 export class DecorationManager implements IDecorationManager {
   private static instance: DecorationManager;
   private codeLensProvider: PythonVersionCodeLensProvider;
   private enabled: boolean = true;
-  private isLoading: boolean = false;
+  private progressTimer: NodeJS.Timeout | undefined;
 
   private constructor() {
     this.codeLensProvider = new PythonVersionCodeLensProvider();
@@ -18,28 +28,59 @@ export class DecorationManager implements IDecorationManager {
     return DecorationManager.instance;
   }
 
-  createVersionLens(editor: vscode.TextEditor, packages: PackageInfo[]): void {
-    this.codeLensProvider.setPackages(packages);
+  createVersionLens(document: vscode.TextDocument, packages: PackageInfo[]): void {
+    this.codeLensProvider.setPackages(document.uri, packages);
     // CodeLens会自动刷新
   }
 
-  setLoading(loading: boolean): void {
-    this.isLoading = loading;
-    this.codeLensProvider.setLoading(loading);
+  setLoading(document: vscode.TextDocument, loading: boolean): void {
+    this.codeLensProvider.setLoading(document.uri, loading);
   }
 
-  getLoading(): boolean {
-    return this.isLoading;
+  /**
+   * 保存 requirements 文件中 -r 引用的汇总结果，CodeLens 只读取缓存，不发起请求
+   */
+  setRequirementsReferences(document: vscode.TextDocument, references: RequirementsReferenceSummary[]): void {
+    this.codeLensProvider.setReferences(document.uri, references);
   }
 
-  clearDecorations(): void {
-    this.codeLensProvider.clearPackages();
+  /**
+   * 部分包的版本已获取时刷新 CodeLens，多次调用合并为一次刷新
+   */
+  updateProgress(): void {
+    if (this.progressTimer) return;
+    this.progressTimer = setTimeout(() => {
+      this.progressTimer = undefined;
+      this.codeLensProvider.refresh();
+    }, 150);
+  }
+
+  getLoading(document: vscode.TextDocument): boolean {
+    return this.codeLensProvider.isLoading(document.uri);
+  }
+
+  /**
+   * 设置文档加载器：CodeLens 请求到尚未解析的文档时调用，由调用方负责解析并获取版本
+   */
+  setDocumentLoader(loader: (document: vscode.TextDocument) => void): void {
+    this.codeLensProvider.setDocumentLoader(loader);
+  }
+
+  /**
+   * 清除指定文档的 CodeLens 状态，不指定时清除所有文档
+   */
+  clearDecorations(document?: vscode.TextDocument): void {
+    if (document) {
+      this.codeLensProvider.clearPackages(document.uri);
+    } else {
+      this.codeLensProvider.clearAll();
+    }
   }
 
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
     if (!enabled) {
-      this.codeLensProvider.clearPackages();
+      this.codeLensProvider.clearAll();
     }
     this.codeLensProvider.refresh();
   }
@@ -52,40 +93,51 @@ export class DecorationManager implements IDecorationManager {
     // 简化：直接重新解析整个文档
     const parserManager = require('./parserManager').ParserManager.getInstance();
     const packages = parserManager.parseDocument(editor.document);
-    this.createVersionLens(editor, packages);
+    this.createVersionLens(editor.document, packages);
   }
 
   registerCodeLensProvider(): vscode.Disposable {
-    return vscode.languages.registerCodeLensProvider(
-      [
-        { pattern: '**/requirements*.txt' },
-        { pattern: '**/pyproject.toml' },
-        { pattern: '**/setup.py' },
-        { pattern: '**/Pipfile' },
-        { pattern: '**/package.json' }
-      ],
-      this.codeLensProvider
-    );
+    return vscode.languages.registerCodeLensProvider(DEPENDENCY_FILE_SELECTOR, this.codeLensProvider);
   }
 
   dispose(): void {
-    this.codeLensProvider.clearPackages();
+    if (this.progressTimer) {
+      clearTimeout(this.progressTimer);
+    }
+    this.codeLensProvider.clearAll();
   }
 }
 
+interface DocumentLensState {
+  packages: PackageInfo[];
+  isLoading: boolean;
+  references: RequirementsReferenceSummary[];
+}
+
 class PythonVersionCodeLensProvider implements vscode.CodeLensProvider {
-  private packages: PackageInfo[] = [];
+  private documents = new Map<string, DocumentLensState>(); // 按文档 URI 保存各自的包信息和加载状态
   private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
   public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
-  private isLoading: boolean = false;
+  private documentLoader: ((document: vscode.TextDocument) => void) | undefined;
 
-  setPackages(packages: PackageInfo[]): void {
-    this.packages = packages;
+  setPackages(uri: vscode.Uri, packages: PackageInfo[]): void {
+    this.getState(uri).packages = packages;
     this._onDidChangeCodeLenses.fire();
   }
 
-  clearPackages(): void {
-    this.packages = [];
+  setReferences(uri: vscode.Uri, references: RequirementsReferenceSummary[]): void {
+    this.getState(uri).references = references;
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  clearPackages(uri: vscode.Uri): void {
+    if (this.documents.delete(uri.toString())) {
+      this._onDidChangeCodeLenses.fire();
+    }
+  }
+
+  clearAll(): void {
+    this.documents.clear();
     this._onDidChangeCodeLenses.fire();
   }
 
@@ -93,11 +145,29 @@ class PythonVersionCodeLensProvider implements vscode.CodeLensProvider {
     this._onDidChangeCodeLenses.fire();
   }
 
-  setLoading(loading: boolean): void {
-    this.isLoading = loading;
+  setLoading(uri: vscode.Uri, loading: boolean): void {
+    this.getState(uri).isLoading = loading;
     this._onDidChangeCodeLenses.fire();
   }
 
+  isLoading(uri: vscode.Uri): boolean {
+    return this.documents.get(uri.toString())?.isLoading ?? false;
+  }
+
+  setDocumentLoader(loader: (document: vscode.TextDocument) => void): void {
+    this.documentLoader = loader;
+  }
+
+  private getState(uri: vscode.Uri): DocumentLensState {
+    const key = uri.toString();
+    let state = this.documents.get(key);
+    if (!state) {
+      state = { packages: [], isLoading: false, references: [] };
+      this.documents.set(key, state);
+    }
+    return state;
+  }
+
   async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
     // 检查DecorationManager是否启用
     const decorationManager = DecorationManager.getInstance();
@@ -105,34 +175,56 @@ class PythonVersionCodeLensProvider implements vscode.CodeLensProvider {
       return [];
     }
 
+    // 尚未解析过的文档（例如并排打开的另一个依赖文件）交给加载器解析并获取版本
+    // 加载器会同步写入该文档的加载状态，版本信息获取后再次触发刷新
+    if (!this.documents.has(document.uri.toString())) {
+      this.documentLoader?.(document);
+    }
+    const state = this.documents.get(document.uri.toString()) || { packages: [], isLoading: false, references: [] };
+    const isPackageJson = document.fileName.toLowerCase().endsWith('package.json');
+    const showVulnerabilities = this.prefetchVulnerabilities(state.packages, isPackageJson);
+
     const codeLenses: vscode.CodeLens[] = [];
-    const processedPackages = new Set<string>(); // 防止重复处理同一个包
+    const processedPackages = new Set<string>(); // 防止重复处理同一分组中的同一个包
+    const { getDeclarationKey } = require('./utils');
 
-    // 如果正在加载，显示加载状态
-    if (this.isLoading && this.packages.length > 0) {
-      for (const pkg of this.packages) {
-        if (processedPackages.has(pkg.name)) continue;
-        processedPackages.add(pkg.name);
+    for (const pkg of state.packages) {
+      // 跳过已处理的包
+      const declarationKey: string = getDeclarationKey(pkg);
+      if (processedPackages.has(declarationKey)) {
+        console.log(`Skipping duplicate package: ${pkg.name}`);
+        continue;
+      }
+      processedPackages.add(declarationKey);
 
-        const range = new vscode.Range(pkg.line, 0, pkg.line, 0);
-        const codeLens = new vscode.CodeLens(range);
+      // 已知漏洞提示不依赖最新版本信息，单独显示
+      const vulnerabilityLens = showVulnerabilities ? this.getVulnerabilityLens(pkg, isPackageJson) : null;
+      if (vulnerabilityLens) {
+        codeLenses.push(vulnerabilityLens);
+      }
+
+      // 固定的版本已撤回或弃用
+      const releaseWarningLens = this.getReleaseWarningLens(pkg);
+      if (releaseWarningLens) {
+        codeLenses.push(releaseWarningLens);
+      }
+
+      // 本地环境中安装的版本，离线可用
+      if (pkg.installedVersion) {
+        codeLenses.push(this.getInstalledLens(pkg, document, isPackageJson));
+      }
+
+      // 正在加载时，尚未获取到版本的包显示加载状态，已获取的包立即显示升级选项
+      if (state.isLoading && !pkg.latestVersion) {
+        const codeLens = new vscode.CodeLens(new vscode.Range(pkg.line, 0, pkg.line, 0));
         codeLens.command = {
           title: `$(sync~spin) 正在获取 ${pkg.name} 的版本信息...`,
           command: '',
           tooltip: '正在从仓库获取最新版本信息'
         };
         codeLenses.push(codeLens);
-      }
-      return codeLenses;
-    }
-
-    for (const pkg of this.packages) {
-      // 跳过已处理的包
-      if (processedPackages.has(pkg.name)) {
-        console.log(`Skipping duplicate package: ${pkg.name}`);
         continue;
       }
-      processedPackages.add(pkg.name);
 
       // 确保包有有效的版本信息且不是错误状态
       if (pkg.latestVersion && pkg.currentVersion && 
@@ -140,15 +232,19 @@ class PythonVersionCodeLensProvider implements vscode.CodeLensProvider {
         const range = new vscode.Range(pkg.line, 0, pkg.line, 0);
 
         // 获取所有版本信息
-        const isPackageJson = document.fileName.toLowerCase().endsWith('package.json');
-        const allVersions = await this.getAllVersions(pkg.name, isPackageJson);
+        const allVersions = await this.getAllVersions(pkg, isPackageJson);
         if (!allVersions.length) continue;
 
-        // 计算四种升级选项，需要传递完整的版本规范（包括约束符）
-        const currentVersionSpec = pkg.versionConstraint ? 
+        // 计算四种升级选项，需要传递完整的版本规范（包括约束符，复合约束使用完整说明符）
+        const currentVersionSpec = pkg.versionSpec || (pkg.versionConstraint ? 
           `${pkg.versionConstraint}${pkg.currentVersion}` : 
-          pkg.currentVersion || '';
-        const upgradeOptions = this.getUpgradeOptions(currentVersionSpec, allVersions);
+          pkg.currentVersion || '');
+        const upgradeOptions = this.getUpgradeOptions(currentVersionSpec, allVersions, isPackageJson, pkg.constraintSpec, pkg.lockedVersion);
+
+        // 锁文件中的实际版本，落后于范围允许的最新版本时提示
+        if (pkg.lockedVersion) {
+          codeLenses.push(this.getLockfileLens(pkg, currentVersionSpec, allVersions, isPackageJson));
+        }
 
         // 创建四种升级选项的CodeLens，去除重复版本
         const options = [
@@ -177,85 +273,217 @@ class PythonVersionCodeLensProvider implements vscode.CodeLensProvider {
           }
         });
 
+        // 文件声明了索引时，标注版本信息来自哪个索引
+        const sourceIndex = !isPackageJson && pkg.indexUrls?.length
+          ? await this.getSourceIndexLabel(pkg)
+          : null;
+        const sourceSuffix = sourceIndex ? ` · ${sourceIndex}` : '';
+
+        // 离线时使用缓存中的旧数据，标注数据获取时间
+        const staleSince = this.getStaleSince(pkg, isPackageJson);
+        const staleDate = staleSince ? new Date(staleSince).toLocaleString() : '';
+        const staleSuffix = staleSince ? ` · $(cloud-offline) stale since ${staleDate}` : '';
+
+        // 依赖所在的分组（extra、依赖组等）
+        const groupSuffix = pkg.group ? ` · ${pkg.group}` : '';
+
         // 创建CodeLens
         versionMap.forEach(option => {
           const codeLens = new vscode.CodeLens(range);
           codeLens.command = {
-            title: `${option.icon} ${option.version} (${option.label})`,
+            title: `${option.icon} ${option.version} (${option.label})${groupSuffix}${sourceSuffix}${staleSuffix}`,
             command: 'version-lens.updateToVersion',
             arguments: [pkg, option.version],
-            tooltip: `更新到${option.label}版本: ${option.version}`
+            tooltip: `更新到${option.label}版本: ${option.version}` +
+              (pkg.group ? `\n分组: ${pkg.group}` : '') +
+              (sourceIndex ? `\n来源索引: ${sourceIndex}` : '') +
+              (staleSince ? `\n网络不可用，显示的是 ${staleDate} 缓存的版本信息` : '')
           };
           codeLenses.push(codeLens);
         });
       }
     }
 
+    // requirements 文件中的 -r 引用：汇总被包含文件中的过期依赖
+    codeLenses.push(...this.getRequirementsReferenceLenses(state.references));
+
     return codeLenses;
   }
 
-  private async getAllVersions(packageName: string, isPackageJson: boolean = false): Promise<string[]> {
+  private getRequirementsReferenceLenses(references: RequirementsReferenceSummary[]): vscode.CodeLens[] {
+    const path = require('path');
+
+    return references.map(ref => {
+      const codeLens = new vscode.CodeLens(new vscode.Range(ref.line, 0, ref.line, 0));
+      if (!ref.exists) {
+        codeLens.command = {
+          title: `⚠️ ${ref.target} 不存在`,
+          command: '',
+          tooltip: `无法找到被包含的文件: ${ref.resolvedPath}`
+        };
+        return codeLens;
+      }
+
+      const fileName = path.basename(ref.resolvedPath);
+      codeLens.command = {
+        title: ref.outdated.length
+          ? `📄 ${fileName}: ${ref.outdated.length}/${ref.total} 个依赖可更新`
+          : `📄 ${fileName}: ${ref.total} 个依赖均为最新`,
+        command: 'vscode.open',
+        arguments: [vscode.Uri.file(ref.resolvedPath)],
+        tooltip: ref.outdated.length ? ref.outdated.join('\n') : `打开 ${ref.target}`
+      };
+      return codeLens;
+    });
+  }
+
+  /**
+   * 在后台查询锁定版本依赖的已知漏洞，结果返回后通过 onDidUpdate 刷新
+   * @returns 是否显示漏洞提示
+   */
+  private prefetchVulnerabilities(packages: PackageInfo[], isPackageJson: boolean): boolean {
+    const { ConfigManager } = require('./config');
+    if (!ConfigManager.getInstance().getConfig().vulnerabilityLens) {
+      return false;
+    }
+
+    const { VulnerabilityService } = require('./vulnerabilityService');
+    const queries = packages
+      .map(pkg => VulnerabilityService.toQuery(pkg, isPackageJson))
+      .filter(Boolean);
+    VulnerabilityService.getInstance().prefetch(queries);
+    return true;
+  }
+
+  private getVulnerabilityLens(pkg: PackageInfo, isPackageJson: boolean): vscode.CodeLens | null {
+    const { VulnerabilityService } = require('./vulnerabilityService');
+    const { getCombinedFixedVersion, getSeverity } = require('./osv');
+    const query: OsvQuery | null = VulnerabilityService.toQuery(pkg, isPackageJson);
+    const vulns: OsvVulnerability[] | undefined = query ? VulnerabilityService.getInstance().getCached(query) : undefined;
+    if (!query || !vulns?.length) {
+      return null;
+    }
+
+    const labels = vulns.map(vuln => `${vuln.id} (${getSeverity(vuln)})`);
+    const shown = labels.length > 3 ? [...labels.slice(0, 3), `+${labels.length - 3}`] : labels;
+    const fixedVersion: string | null = getCombinedFixedVersion(vulns, query);
+
+    // 有修复版本时点击更新到能修复所有漏洞的最小版本
+    const codeLens = new vscode.CodeLens(new vscode.Range(pkg.line, 0, pkg.line, 0));
+    codeLens.command = {
+      title: `⚠️ ${vulns.length} 个已知漏洞: ${shown.join(', ')}` + (fixedVersion ? ` · 修复版本 ${fixedVersion}` : ''),
+      command: fixedVersion ? 'version-lens.updateToVersion' : '',
+      arguments: fixedVersion ? [pkg, fixedVersion] : undefined,
+      tooltip: vulns.map(vuln => `${vuln.id} [${getSeverity(vuln)}]${vuln.summary ? `: ${vuln.summary}` : ''}`).join('\n') +
+        (fixedVersion ? `\n点击更新到修复版本: ${fixedVersion}` : '\n暂无修复版本')
+    };
+    return codeLens;
+  }
+
+  private getReleaseWarningLens(pkg: PackageInfo): vscode.CodeLens | null {
+    const warning = pkg.releaseWarning;
+    if (!warning) {
+      return null;
+    }
+
+    const label = warning.kind === 'yanked' ? '已撤回 (yanked)' : '已弃用 (deprecated)';
+    const reason = warning.reason ? warning.reason.replace(/\s+/g, ' ').trim() : '';
+    const shortReason = reason.length > 80 ? `${reason.slice(0, 77)}...` : reason;
+    const canUpdate = !!pkg.latestVersion && pkg.latestVersion !== pkg.currentVersion;
+
+    // 点击更新到最新版本（已排除撤回和弃用的版本）
+    const codeLens = new vscode.CodeLens(new vscode.Range(pkg.line, 0, pkg.line, 0));
+    codeLens.command = {
+      title: `⛔ ${pkg.currentVersion} ${label}` + (shortReason ? `: ${shortReason}` : ''),
+      command: canUpdate ? 'version-lens.updateToVersion' : '',
+      arguments: canUpdate ? [pkg, pkg.latestVersion] : undefined,
+      tooltip: (reason || `${pkg.name} ${pkg.currentVersion} ${label}`) +
+        (canUpdate ? `\n点击更新到最新版本: ${pkg.latestVersion}` : '')
+    };
+    return codeLens;
+  }
+
+  private getLockfileLens(pkg: PackageInfo, currentVersionSpec: string, allVersions: string[], isPackageJson: boolean): vscode.CodeLens {
+    const path = require('path');
+    const { getLockfileDrift } = require('./utils');
+    const drift: string | null = getLockfileDrift(currentVersionSpec, pkg.lockedVersion, allVersions, isPackageJson);
+    const lockfileName = pkg.lockfilePath ? path.basename(pkg.lockfilePath) : '锁文件';
+
+    const codeLens = new vscode.CodeLens(new vscode.Range(pkg.line, 0, pkg.line, 0));
+    codeLens.command = {
+      title: `🔒 ${pkg.lockedVersion}` + (drift ? ` · ${lockfileName} 落后，范围内最新 ${drift}` : ''),
+      command: '',
+      tooltip: `${lockfileName} 中锁定的版本: ${pkg.lockedVersion}` +
+        (pkg.lockfilePath ? `\n${pkg.lockfilePath}` : '') +
+        (drift ? `\n声明的范围 ${currentVersionSpec} 允许 ${drift}，重新安装依赖后锁文件会更新` : '')
+    };
+    return codeLens;
+  }
+
+  private getInstalledLens(pkg: PackageInfo, document: vscode.TextDocument, isPackageJson: boolean): vscode.CodeLens {
+    const { satisfiesVersionSpec } = require('./utils');
+    const spec = pkg.versionSpec || `${pkg.versionConstraint || ''}${pkg.currentVersion || ''}`;
+    const allowPoetry = document.fileName.toLowerCase().endsWith('pyproject.toml');
+    const satisfied: boolean | null = satisfiesVersionSpec(pkg.installedVersion, spec, isPackageJson, allowPoetry);
+
+    const codeLens = new vscode.CodeLens(new vscode.Range(pkg.line, 0, pkg.line, 0));
+    codeLens.command = {
+      title: `📦 installed ${pkg.installedVersion}` + (satisfied === false ? ` · 不满足 ${spec}` : ''),
+      command: '',
+      tooltip: `本地环境中安装的版本: ${pkg.installedVersion}` +
+        (pkg.installedPath ? `\n${pkg.installedPath}` : '') +
+        (satisfied === false ? `\n安装的版本不满足声明的 ${spec}，请重新安装依赖` : '')
+    };
+    return codeLens;
+  }
+
+  private async getSourceIndexLabel(pkg: PackageInfo): Promise<string | null> {
+    const { VersionService, getIndexLabel } = require('./versionService');
+    const packageInfo = await VersionService.getInstance().getPackageInfo(pkg.name.split('[')[0], pkg.indexUrls);
+    return packageInfo?.indexUrl ? getIndexLabel(packageInfo.indexUrl) : null;
+  }
+
+  private getStaleSince(pkg: PackageInfo, isPackageJson: boolean): number | null {
+    const queryPackageName = pkg.basePackageName || pkg.name.split('[')[0];
+    if (isPackageJson) {
+      const { NpmVersionService } = require('./npmVersionService');
+      return NpmVersionService.getInstance().getStaleSince(queryPackageName, pkg.filePath);
+    }
+    const { VersionService } = require('./versionService');
+    return VersionService.getInstance().getStaleSince(queryPackageName, pkg.indexUrls);
+  }
+
+  private async getAllVersions(pkg: PackageInfo, isPackageJson: boolean = false): Promise<string[]> {
     try {
       if (isPackageJson) {
-        // 使用npm版本服务
+        // 使用npm版本服务，按 package.json 所在项目的 .npmrc 选择 registry
         const npmVersionService = require('./npmVersionService').NpmVersionService.getInstance();
-        const packageInfo = await npmVersionService.getPackageInfo(packageName);
-
-        if (!packageInfo || !packageInfo.versions) {
-          return [];
-        }
-
-        // 获取所有版本并过滤稳定版本
-        const allVersions = Object.keys(packageInfo.versions)
-          .filter(v =>
-            /^\d+\.\d+(\.\d+)?$/.test(v) && // 只要标准版本格式
-            !v.includes('alpha') && !v.includes('beta') && !v.includes('rc') &&
-            !v.includes('dev') && !v.includes('pre')
-          )
-          .sort((a, b) => {
-            const { compareVersions } = require('./utils');
-            return compareVersions(b, a); // 降序排列
-          });
-
-        return allVersions;
+        return await npmVersionService.getStableVersions(pkg.name, pkg.filePath);
       } else {
-        // 使用Python版本服务
+        // 使用Python版本服务，使用基础包名查询版本信息（去除extras部分）
         const versionService = require('./versionService').VersionService.getInstance();
-        // 使用基础包名查询版本信息（去除extras部分）
-        const basePackageName = packageName.split('[')[0];
-        const packageInfo = await versionService.getPackageInfo(basePackageName);
-
-        if (!packageInfo) {
-          return [];
-        }
-
-        // 获取所有版本并过滤稳定版本
-        const allVersions = Object.keys(packageInfo.releases)
-          .filter(v =>
-            /^\d+\.\d+(\.\d+)?$/.test(v) && // 只要标准版本格式
-            !v.includes('a') && !v.includes('b') && !v.includes('rc') &&
-            !v.includes('alpha') && !v.includes('beta') && !v.includes('dev')
-          )
-          .sort((a, b) => {
-            const { compareVersions } = require('./utils');
-            return compareVersions(b, a); // 降序排列
-          });
-
-        return allVersions;
+        return await versionService.getStableVersions(pkg.name.split('[')[0], pkg.indexUrls);
       }
     } catch (error) {
-      console.error(`Failed to get version info for ${packageName}:`, error);
+      console.error(`Failed to get version info for ${pkg.name}:`, error);
       return [];
     }
   }
 
-  private getUpgradeOptions(currentVersionSpec: string, allVersions: string[]): {
+  private getUpgradeOptions(
+    currentVersionSpec: string,
+    allVersions: string[],
+    isPackageJson: boolean = false,
+    constraintSpec?: string,
+    lockedVersion?: string
+  ): {
     satisfies: string | null;
     major: string | null;
     minor: string | null;
     patch: string | null;
   } {
-    const { getVersionUpgradeOptions } = require('./utils');
-    return getVersionUpgradeOptions(currentVersionSpec, allVersions);
+    const { getUpgradeOptions } = require('./utils');
+    return getUpgradeOptions(currentVersionSpec, allVersions, isPackageJson, constraintSpec, lockedVersion);
   }
+
 }
\ No newline at end of file
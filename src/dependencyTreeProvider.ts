@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import { PackageInfo } from './types';
+import { ParserManager } from './parserManager';
+import { VersionService } from './versionService';
+import { NpmVersionService } from './npmVersionService';
+import { getUpdateSeverity, isValidPythonPackageName, UpdateSeverity } from './utils';
+
+export type TreeGrouping = 'file' | 'severity';
+
+interface ScannedFile {
+    uri: vscode.Uri;
+    packages: PackageInfo[];
+}
+
+type DependencyNode =
+    | { kind: 'file'; file: ScannedFile }
+    | { kind: 'severity'; severity: UpdateSeverity; file?: ScannedFile }
+    | { kind: 'package'; pkg: PackageInfo; uri: vscode.Uri; severity: UpdateSeverity; showFile: boolean };
+
+const SEVERITY_ORDER: UpdateSeverity[] = ['major', 'minor', 'patch', 'none'];
+
+const SEVERITY_LABELS: { [severity in UpdateSeverity]: { label: string; icon: string } } = {
+    major: { label: 'Major updates', icon: 'rocket' },
+    minor: { label: 'Minor updates', icon: 'arrow-up' },
+    patch: { label: 'Patch updates', icon: 'tools' },
+    none: { label: 'Up to date', icon: 'check' }
+};
+
+export class DependencyTreeProvider implements vscode.TreeDataProvider<DependencyNode> {
+    private static instance: DependencyTreeProvider;
+    private _onDidChangeTreeData = new vscode.EventEmitter<DependencyNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private files = new Map<string, ScannedFile>();
+    private grouping: TreeGrouping = 'file';
+    private scanned = false;
+    private scanning: Thenable<void> | null = null;
+
+    static getInstance(): DependencyTreeProvider {
+        if (!DependencyTreeProvider.instance) {
+            DependencyTreeProvider.instance = new DependencyTreeProvider();
+        }
+        return DependencyTreeProvider.instance;
+    }
+
+    register(): vscode.Disposable {
+        const treeView = vscode.window.createTreeView('versionLens.dependencies', {
+            treeDataProvider: this,
+            showCollapseAll: true
+        });
+
+        // 保存依赖文件后只重新扫描该文件
+        const saveListener = vscode.workspace.onDidSaveTextDocument(document => {
+            if (this.scanned && ParserManager.getInstance().parseDocument(document).length > 0) {
+                this.scanFile(document.uri);
+            }
+        });
+
+        return vscode.Disposable.from(treeView, saveListener);
+    }
+
+    toggleGrouping(): void {
+        this.grouping = this.grouping === 'file' ? 'severity' : 'file';
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getGrouping(): TreeGrouping {
+        return this.grouping;
+    }
+
+    /**
+     * 扫描工作区中所有匹配 supportedFiles 的依赖文件
+     */
+    async refresh(): Promise<void> {
+        if (this.scanning) return this.scanning;
+
+        this.scanning = vscode.window.withProgress(
+            { location: { viewId: 'versionLens.dependencies' }, title: 'Scanning dependencies' },
+            async () => {
+                const uris = await ParserManager.getInstance().findWorkspaceManifests();
+                this.files.clear();
+                for (const uri of uris) {
+                    await this.scanFile(uri, false);
+                }
+                this.scanned = true;
+                this._onDidChangeTreeData.fire(undefined);
+            }
+        );
+
+        try {
+            await this.scanning;
+        } finally {
+            this.scanning = null;
+        }
+    }
+
+    /**
+     * 重新扫描单个文件
+     */
+    async scanFile(uri: vscode.Uri, notify: boolean = true): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const packages = ParserManager.getInstance().parseDocument(document);
+
+            if (packages.length === 0) {
+                this.files.delete(uri.toString());
+            } else {
+                await this.resolveLatestVersions(document, packages);
+                this.files.set(uri.toString(), { uri, packages });
+            }
+        } catch (error) {
+            console.error(`Failed to scan ${uri.fsPath}:`, error);
+        }
+
+        if (notify) {
+            this._onDidChangeTreeData.fire(undefined);
+        }
+    }
+
+    getTreeItem(node: DependencyNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'file': {
+                const item = new vscode.TreeItem(
+                    vscode.workspace.asRelativePath(node.file.uri),
+                    vscode.TreeItemCollapsibleState.Expanded
+                );
+                item.resourceUri = node.file.uri;
+                item.iconPath = vscode.ThemeIcon.File;
+                item.description = this.describeFile(node.file);
+                item.contextValue = 'dependencyFile';
+                return item;
+            }
+            case 'severity': {
+                const { label, icon } = SEVERITY_LABELS[node.severity];
+                const item = new vscode.TreeItem(
+                    label,
+                    node.severity === 'none'
+                        ? vscode.TreeItemCollapsibleState.Collapsed
+                        : vscode.TreeItemCollapsibleState.Expanded
+                );
+                item.iconPath = new vscode.ThemeIcon(icon);
+                item.description = `${this.getPackages(node.severity, node.file).length}`;
+                item.contextValue = 'dependencySeverity';
+                return item;
+            }
+            case 'package': {
+                const { pkg, uri, severity } = node;
+                const item = new vscode.TreeItem(pkg.name, vscode.TreeItemCollapsibleState.None);
+                const declared = this.getVersionSpec(pkg) || 'any';
+                item.description = severity === 'none'
+                    ? declared
+                    : `${declared} → ${pkg.latestVersion}`;
+                if (node.showFile) {
+                    item.description += ` · ${vscode.workspace.asRelativePath(uri)}`;
+                }
+                item.tooltip = `${pkg.name}\n${vscode.workspace.asRelativePath(uri)}:${pkg.line + 1}`;
+                item.iconPath = new vscode.ThemeIcon('package');
+                item.contextValue = severity === 'none' ? 'dependency' : 'outdatedDependency';
+                item.command = {
+                    title: 'Go to Dependency',
+                    command: 'version-lens.revealDependency',
+                    arguments: [node]
+                };
+                return item;
+            }
+        }
+    }
+
+    async getChildren(node?: DependencyNode): Promise<DependencyNode[]> {
+        if (!node) {
+            // 视图首次展开时才扫描工作区
+            if (!this.scanned) {
+                await this.refresh();
+            }
+            return this.getRootNodes();
+        }
+
+        switch (node.kind) {
+            case 'file':
+                return this.getSeverities(node.file).map(severity => ({ kind: 'severity', severity, file: node.file }));
+            case 'severity':
+                return this.getPackages(node.severity, node.file);
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * 跳转到依赖声明所在行
+     */
+    async reveal(node: DependencyNode): Promise<vscode.TextEditor | undefined> {
+        if (node.kind !== 'package') return undefined;
+
+        const { pkg, uri } = node;
+        const range = new vscode.Range(pkg.line, Math.max(0, pkg.startChar), pkg.line, Math.max(0, pkg.endChar));
+        return vscode.window.showTextDocument(uri, { selection: range, preserveFocus: false });
+    }
+
+    /**
+     * 从树视图中将依赖更新到最新版本
+     */
+    async update(node: DependencyNode): Promise<void> {
+        if (node.kind !== 'package' || node.severity === 'none') return;
+
+        const editor = await this.reveal(node);
+        if (!editor) return;
+
+        const { UpdateManager } = require('./updateManager');
+        const success = await UpdateManager.getInstance().updatePackageVersion(node.pkg, node.pkg.latestVersion);
+        if (success) {
+            await this.scanFile(node.uri);
+        }
+    }
+
+    private getRootNodes(): DependencyNode[] {
+        const files = Array.from(this.files.values())
+            .sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath));
+
+        if (this.grouping === 'severity') {
+            return SEVERITY_ORDER
+                .filter(severity => this.getPackages(severity).length > 0)
+                .map(severity => ({ kind: 'severity', severity }));
+        }
+
+        return files.map(file => ({ kind: 'file', file }));
+    }
+
+    private getSeverities(file: ScannedFile): UpdateSeverity[] {
+        return SEVERITY_ORDER.filter(severity => this.getPackages(severity, file).length > 0);
+    }
+
+    private getPackages(severity: UpdateSeverity, file?: ScannedFile): DependencyNode[] {
+        const files = file ? [file] : Array.from(this.files.values());
+        const nodes: DependencyNode[] = [];
+
+        files.forEach(f => {
+            f.packages.forEach(pkg => {
+                const pkgSeverity = this.getSeverity(pkg, f.uri);
+                if (pkgSeverity === severity) {
+                    nodes.push({ kind: 'package', pkg, uri: f.uri, severity, showFile: !file });
+                }
+            });
+        });
+
+        return nodes;
+    }
+
+    private getSeverity(pkg: PackageInfo, uri: vscode.Uri): UpdateSeverity {
+        const isPackageJson = uri.fsPath.toLowerCase().endsWith('package.json');
+        return getUpdateSeverity(this.getVersionSpec(pkg), pkg.latestVersion, isPackageJson);
+    }
+
+    private getVersionSpec(pkg: PackageInfo): string {
+        return pkg.versionSpec || `${pkg.versionConstraint || ''}${pkg.currentVersion || ''}`;
+    }
+
+    private describeFile(file: ScannedFile): string {
+        const outdated = file.packages.filter(pkg => this.getSeverity(pkg, file.uri) !== 'none').length;
+        return outdated > 0 ? `${outdated} outdated` : 'up to date';
+    }
+
+    private async resolveLatestVersions(document: vscode.TextDocument, packages: PackageInfo[]): Promise<void> {
+        const isPackageJson = document.fileName.toLowerCase().endsWith('package.json');
+        const versionService = VersionService.getInstance();
+        const npmVersionService = NpmVersionService.getInstance();
+
+        await Promise.all(packages.map(async pkg => {
+            const queryPackageName = pkg.basePackageName || pkg.name.split('[')[0];
+            if (!isPackageJson && !isValidPythonPackageName(queryPackageName)) return;
+
+            try {
+                const latestVersion = isPackageJson
+                    ? await npmVersionService.getLatestVersion(queryPackageName, pkg.filePath)
+                    : await versionService.getLatestVersion(queryPackageName, pkg.indexUrls);
+                pkg.latestVersion = latestVersion || '';
+            } catch (error) {
+                console.error(`Failed to get version for ${pkg.name}:`, error);
+            }
+        }));
+    }
+}
@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DiagnosticSeverityConfig, DiagnosticSeverityLevel, PackageInfo } from './types';
+import { ConfigManager } from './config';
+import { VersionService } from './versionService';
+import { NpmVersionService } from './npmVersionService';
+import { getDeclarationKey, getUpdateSeverity, isValidVersionSpec, normalizePackageName, satisfiesVersionSpec } from './utils';
+import { isLockfileOutdated, readPythonLockfile } from './pythonLockfile';
+
+export const DIAGNOSTIC_SOURCE = 'Dep Version Lens';
+
+/**
+ * 诊断代码，供 Code Action 等功能识别问题类型
+ */
+export type DependencyDiagnosticCode =
+    'outdated-major' | 'outdated-minor' | 'outdated-patch' | 'not-found' | 'invalid-specifier' | 'duplicate' |
+    'yanked' | 'deprecated' | 'lockfile-outdated' | 'installed-mismatch';
+
+const SEVERITY_MAP: Record<Exclude<DiagnosticSeverityLevel, 'none'>, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint
+};
+
+/**
+ * 在 Problems 面板中报告依赖问题：过期、仓库中不存在、无法解析的版本说明符、重复声明、已撤回/弃用的固定版本和不满足声明的已安装版本
+ * 与 CodeLens 相互独立，隐藏版本提示后仍然生效
+ */
+export class DiagnosticsManager {
+    private static instance: DiagnosticsManager;
+    private collection: vscode.DiagnosticCollection | undefined;
+
+    static getInstance(): DiagnosticsManager {
+        if (!DiagnosticsManager.instance) {
+            DiagnosticsManager.instance = new DiagnosticsManager();
+        }
+        return DiagnosticsManager.instance;
+    }
+
+    register(): vscode.Disposable {
+        this.collection = vscode.languages.createDiagnosticCollection('version-lens');
+        return this.collection;
+    }
+
+    isEnabled(): boolean {
+        const config = ConfigManager.getInstance().getConfig();
+        return config.enabled && config.diagnostics;
+    }
+
+    /**
+     * 重新计算文档的诊断信息
+     * @param packages 文档中的所有声明（未去重），每个包名第一次出现的声明带有已获取的最新版本
+     */
+    update(document: vscode.TextDocument, packages: PackageInfo[]): void {
+        if (!this.collection) return;
+        if (!this.isEnabled()) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        const severities = ConfigManager.getInstance().getConfig().diagnosticSeverity;
+        const fileName = document.fileName.toLowerCase();
+        const isPackageJson = fileName.endsWith('package.json');
+        const allowPoetry = fileName.endsWith('pyproject.toml');
+        const diagnostics: vscode.Diagnostic[] = [];
+        const firstDeclarations = new Map<string, PackageInfo>();
+
+        const report = (target: PackageInfo | vscode.Range, level: keyof DiagnosticSeverityConfig, code: DependencyDiagnosticCode, message: string) => {
+            const severity = severities[level];
+            if (severity === 'none') return;
+
+            const range = target instanceof vscode.Range
+                ? target
+                : new vscode.Range(target.line, target.startChar, target.line, Math.max(target.startChar, target.endChar));
+            const diagnostic = new vscode.Diagnostic(range, message, SEVERITY_MAP[severity]);
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = code;
+            diagnostics.push(diagnostic);
+        };
+
+        packages.forEach(pkg => {
+            const spec = pkg.versionSpec || `${pkg.versionConstraint || ''}${pkg.currentVersion || ''}`;
+            const validSpec = isValidVersionSpec(spec, isPackageJson, allowPoetry);
+            if (!validSpec) {
+                report(pkg, 'invalidSpecifier', 'invalid-specifier', `无法解析 ${pkg.name} 的版本说明符 "${spec}"`);
+            }
+
+            const queryPackageName = pkg.basePackageName || pkg.name.split('[')[0];
+            // 不同分组（extra、依赖组等）中的同名依赖不算重复
+            const key = getDeclarationKey(pkg, isPackageJson ? queryPackageName : normalizePackageName(queryPackageName));
+            const first = firstDeclarations.get(key);
+            if (first) {
+                report(pkg, 'duplicate', 'duplicate', `${pkg.name} 重复声明，首次声明在第 ${first.line + 1} 行`);
+                return;
+            }
+            firstDeclarations.set(key, pkg);
+
+            // 只读取本地环境，离线时同样有效
+            if (validSpec && pkg.installedVersion && satisfiesVersionSpec(pkg.installedVersion, spec, isPackageJson, allowPoetry) === false) {
+                report(pkg, 'installedMismatch', 'installed-mismatch',
+                    `已安装的 ${pkg.name} ${pkg.installedVersion} 不满足声明的 ${spec}，请重新安装依赖`);
+            }
+
+            if (this.isNotFound(pkg, queryPackageName, isPackageJson)) {
+                report(pkg, 'notFound', 'not-found', `在${isPackageJson ? ' npm registry ' : '索引'}中找不到 ${queryPackageName}`);
+                return;
+            }
+
+            if (pkg.releaseWarning) {
+                const { kind, reason } = pkg.releaseWarning;
+                const label = kind === 'yanked' ? '已从索引中撤回 (yanked)' : '已弃用 (deprecated)';
+                report(pkg, 'yanked', kind, `${pkg.name} ${pkg.currentVersion} ${label}` + (reason ? `: ${reason}` : ''));
+            }
+
+            if (validSpec && pkg.latestVersion) {
+                // 有锁文件时按实际安装的版本判断
+                const lockedSpec = pkg.lockedVersion && (isPackageJson ? pkg.lockedVersion : `==${pkg.lockedVersion}`);
+                const severity = getUpdateSeverity(lockedSpec || spec, pkg.latestVersion, isPackageJson);
+                if (severity !== 'none') {
+                    report(pkg, severity, `outdated-${severity}`, `${pkg.name} 有新的 ${severity} 版本: ${pkg.latestVersion}（当前 ${spec}）`);
+                }
+            }
+        });
+
+        // 清单修改后没有重新锁定
+        const hasPythonLockfile = allowPoetry || fileName.endsWith('pipfile');
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath || path.dirname(document.fileName);
+        const lockfile = document.uri.scheme === 'file' && hasPythonLockfile ? readPythonLockfile(document.fileName, workspaceFolder) : null;
+        if (lockfile && isLockfileOutdated(lockfile, document.getText())) {
+            const lockfileName = path.basename(lockfile.path);
+            report(document.lineAt(0).range, 'lockfileOutdated', 'lockfile-outdated',
+                `${lockfileName} 已过期：${path.basename(document.fileName)} 的内容哈希与锁文件记录的不一致，请重新锁定依赖`);
+        }
+
+        this.collection.set(document.uri, diagnostics);
+    }
+
+    /**
+     * 清除指定文档的诊断信息，不指定时清除所有文档
+     */
+    clear(document?: vscode.TextDocument): void {
+        if (document) {
+            this.collection?.delete(document.uri);
+        } else {
+            this.collection?.clear();
+        }
+    }
+
+    private isNotFound(pkg: PackageInfo, queryPackageName: string, isPackageJson: boolean): boolean {
+        return isPackageJson
+            ? NpmVersionService.getInstance().isNotFound(queryPackageName, pkg.filePath)
+            : VersionService.getInstance().isNotFound(queryPackageName, pkg.indexUrls);
+    }
+}
@@ -0,0 +1,222 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 磁盘缓存条目
+ */
+export interface DiskCacheRecord<T> {
+    hash: string; // 键的哈希值，不在磁盘上保存原始键
+    data: T;
+    timestamp: number; // 写入时间
+    ttl: number;       // 写入时的缓存有效期（毫秒）
+}
+
+export interface DiskCacheOptions {
+    maxSizeBytes: number;
+    maxAge: number; // 超过该时间的过期条目在清理时删除
+}
+
+const DEFAULT_OPTIONS: DiskCacheOptions = {
+    maxSizeBytes: 50 * 1024 * 1024,
+    maxAge: 30 * 24 * 60 * 60 * 1000
+};
+
+const PRUNE_INTERVAL = 50; // 每写入 N 个条目检查一次总大小
+
+/**
+ * 持久化版本缓存，存放在扩展的 globalStorageUri 中，多个窗口共享
+ * 每个条目单独一个文件，先写临时文件再重命名，避免并发写入产生损坏的文件
+ */
+export class DiskCache {
+    private static instance: DiskCache;
+    private directory: string | null = null;
+    private options: DiskCacheOptions = DEFAULT_OPTIONS;
+    private writesSincePrune = 0;
+
+    static getInstance(): DiskCache {
+        if (!DiskCache.instance) {
+            DiskCache.instance = new DiskCache();
+        }
+        return DiskCache.instance;
+    }
+
+    /**
+     * 未初始化时所有操作都是空操作，只使用内存缓存
+     */
+    async initialize(storagePath: string, options: Partial<DiskCacheOptions> = {}): Promise<void> {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        const directory = path.join(storagePath, 'version-cache');
+        try {
+            await fs.promises.mkdir(directory, { recursive: true });
+            this.directory = directory;
+            await this.prune();
+        } catch (error) {
+            console.error('Failed to initialize persistent version cache:', (error as Error).message);
+            this.directory = null;
+        }
+    }
+
+    /**
+     * 关闭持久化缓存（已写入的文件保留，重新启用后继续使用）
+     */
+    disable(): void {
+        this.directory = null;
+    }
+
+    isEnabled(): boolean {
+        return this.directory !== null;
+    }
+
+    setOptions(options: Partial<DiskCacheOptions>): void {
+        this.options = { ...this.options, ...options };
+    }
+
+    /**
+     * 读取缓存条目，文件损坏时删除并返回 undefined
+     */
+    async get<T>(namespace: string, key: string): Promise<DiskCacheRecord<T> | undefined> {
+        const filePath = this.getFilePath(namespace, key);
+        if (!filePath) {
+            return undefined;
+        }
+        const hash = hashKey(key);
+
+        let content: string;
+        try {
+            content = await fs.promises.readFile(filePath, 'utf8');
+        } catch {
+            return undefined;
+        }
+
+        try {
+            const record = JSON.parse(content) as DiskCacheRecord<T>;
+            if (record.hash !== hash || typeof record.timestamp !== 'number' || record.data === undefined) {
+                throw new Error('invalid cache record');
+            }
+            // 更新访问时间，淘汰时按最近访问时间排序
+            const now = new Date();
+            fs.promises.utimes(filePath, now, now).catch(() => undefined);
+            return record;
+        } catch {
+            console.warn(`Discarding corrupted cache entry ${path.basename(filePath)}`);
+            await fs.promises.unlink(filePath).catch(() => undefined);
+            return undefined;
+        }
+    }
+
+    async set<T>(namespace: string, key: string, data: T, ttl: number): Promise<void> {
+        const filePath = this.getFilePath(namespace, key);
+        if (!filePath) {
+            return;
+        }
+
+        const record: DiskCacheRecord<T> = { hash: hashKey(key), data, timestamp: Date.now(), ttl };
+        const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+        try {
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(tempPath, JSON.stringify(record), 'utf8');
+            await fs.promises.rename(tempPath, filePath);
+        } catch (error) {
+            console.error(`Failed to write cache entry ${path.basename(filePath)}:`, (error as Error).message);
+            await fs.promises.unlink(tempPath).catch(() => undefined);
+            return;
+        }
+
+        if (++this.writesSincePrune >= PRUNE_INTERVAL) {
+            this.writesSincePrune = 0;
+            await this.prune();
+        }
+    }
+
+    async delete(namespace: string, key: string): Promise<void> {
+        const filePath = this.getFilePath(namespace, key);
+        if (filePath) {
+            await fs.promises.unlink(filePath).catch(() => undefined);
+        }
+    }
+
+    /**
+     * 清除缓存，不指定 namespace 时清除全部
+     */
+    async clear(namespace?: string): Promise<void> {
+        if (!this.directory) {
+            return;
+        }
+        const target = namespace ? path.join(this.directory, namespace) : this.directory;
+        try {
+            await fs.promises.rm(target, { recursive: true, force: true });
+            await fs.promises.mkdir(this.directory, { recursive: true });
+        } catch (error) {
+            console.error('Failed to clear persistent version cache:', (error as Error).message);
+        }
+    }
+
+    /**
+     * 删除过旧的条目和遗留的临时文件，超出大小限制时按最近访问时间淘汰
+     */
+    async prune(): Promise<void> {
+        if (!this.directory) {
+            return;
+        }
+
+        const entries: { filePath: string; size: number; accessed: number }[] = [];
+        const now = Date.now();
+
+        for (const namespace of await this.readDir(this.directory)) {
+            const namespaceDir = path.join(this.directory, namespace);
+            for (const name of await this.readDir(namespaceDir)) {
+                const filePath = path.join(namespaceDir, name);
+                try {
+                    const stat = await fs.promises.stat(filePath);
+                    if (!stat.isFile()) {
+                        continue;
+                    }
+                    if (name.endsWith('.tmp') || now - stat.mtimeMs > this.options.maxAge) {
+                        await fs.promises.unlink(filePath);
+                        continue;
+                    }
+                    entries.push({ filePath, size: stat.size, accessed: stat.mtimeMs });
+                } catch {
+                    // 其他窗口可能同时删除了该文件
+                }
+            }
+        }
+
+        let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+        entries.sort((a, b) => a.accessed - b.accessed);
+        for (const entry of entries) {
+            if (totalSize <= this.options.maxSizeBytes) {
+                break;
+            }
+            await fs.promises.unlink(entry.filePath).catch(() => undefined);
+            totalSize -= entry.size;
+        }
+    }
+
+    private getFilePath(namespace: string, key: string): string | null {
+        if (!this.directory) {
+            return null;
+        }
+        return path.join(this.directory, namespace, `${hashKey(key)}.json`);
+    }
+
+    private async readDir(directory: string): Promise<string[]> {
+        try {
+            return await fs.promises.readdir(directory);
+        } catch {
+            return [];
+        }
+    }
+}
+
+function hashKey(key: string): string {
+    return crypto.createHash('sha1').update(key).digest('hex');
+}
+
+/**
+ * 缓存条目是否仍在有效期内
+ */
+export function isRecordFresh(record: { timestamp: number; ttl: number }, now: number = Date.now()): boolean {
+    return now - record.timestamp < record.ttl;
+}
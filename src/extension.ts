@@ -1,17 +1,33 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import { ConfigManager } from './config';
 import { FileWatcher } from './fileWatcher';
 import { ParserManager } from './parserManager';
 import { DecorationManager } from './decorationManager';
 import { VersionService } from './versionService';
 import { NpmVersionService } from './npmVersionService';
-import { PackageInfo } from './types';
+import { DependencyTreeProvider } from './dependencyTreeProvider';
+import { BulkUpdateManager, BulkUpdateScope } from './bulkUpdateManager';
+import { CredentialStore } from './credentialStore';
+import { DiskCache } from './diskCache';
+import { ConnectivityMonitor } from './connectivity';
+import { FetchScheduler } from './fetchScheduler';
+import { VulnerabilityService } from './vulnerabilityService';
+import { DiagnosticsManager } from './diagnosticsManager';
+import { DependencyCodeActionProvider } from './codeActionProvider';
+import { DependencyHoverProvider } from './hoverProvider';
+import { DependencyCompletionProvider } from './completionProvider';
+import { RequirementsParser } from './parsers/requirementsParser';
+import { PackageInfo, ReleaseWarning, RequirementsReferenceSummary } from './types';
+import { getDeclarationKey, getPinnedVersion, isVersionOutdated, parseVersionSpec } from './utils';
 
 // 全局状态管理
 let fileWatcher: FileWatcher;
 let isVersionLensesEnabled = true; // 默认开启
 let toggleCommand: vscode.Disposable | undefined;
-let refreshTimer: NodeJS.Timeout | undefined;
+let refreshTimers = new Map<string, NodeJS.Timeout>(); // 按文档 URI 防抖，编辑多个文件时互不影响
+let revalidateTimer: NodeJS.Timeout | undefined;
+let fetchCancellations = new Map<string, vscode.CancellationTokenSource>(); // 按文档 URI 保存版本请求，文档不再可见时取消
 
 // 显示定时消息的函数
 function showTimedMessage(message: string, duration: number = 3000, type: 'info' | 'warning' | 'error' = 'info') {
@@ -36,10 +52,20 @@ const commandHandlers = {
   showVersionLenses: () => toggleVersionLenses(true),
   hideVersionLenses: () => toggleVersionLenses(false),
   refreshVersions,
+  clearCache,
   updatePackage,
   updateToVersion,
+  replaceVersionSpecifier,
   toggleVersionLenses: () => toggleVersionLensesState(),
-  toggleVersionLensesOff: () => toggleVersionLensesState()
+  toggleVersionLensesOff: () => toggleVersionLensesState(),
+  refreshDependencyTree: () => DependencyTreeProvider.getInstance().refresh(),
+  toggleDependencyTreeGrouping: () => DependencyTreeProvider.getInstance().toggleGrouping(),
+  revealDependency: (node: any) => DependencyTreeProvider.getInstance().reveal(node),
+  updateFromTree: (node: any) => DependencyTreeProvider.getInstance().update(node),
+  updateAllOutdated: () => updateAllOutdated('file'),
+  updateAllOutdatedInWorkspace: () => updateAllOutdated('workspace'),
+  setIndexCredentials: () => manageIndexCredentials(true),
+  clearIndexCredentials: () => manageIndexCredentials(false)
 };
 
 export function activate(context: vscode.ExtensionContext) {
@@ -55,20 +81,76 @@ export function activate(context: vscode.ExtensionContext) {
   updateToggleCommandState();
 
   // 监听活动编辑器变化，确保上下文与当前文件状态同步
-  const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(editor => {
+  const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(() => {
     updateToggleCommandState();
   });
   context.subscriptions.push(activeEditorListener);
 
+  // 取消已不可见文档中尚未开始的版本请求
+  const visibleEditorsListener = vscode.window.onDidChangeVisibleTextEditors(editors => {
+    const visible = new Set(editors.map(editor => editor.document.uri.toString()));
+    Array.from(fetchCancellations.keys())
+      .filter(key => !visible.has(key))
+      .forEach(key => cancelPendingFetches(key));
+  });
+  context.subscriptions.push(visibleEditorsListener);
+
+  // 文档关闭后释放其 CodeLens 状态
+  const closeDocumentListener = vscode.workspace.onDidCloseTextDocument(document => {
+    cancelPendingFetches(document.uri.toString());
+    clearTimeout(refreshTimers.get(document.uri.toString()));
+    refreshTimers.delete(document.uri.toString());
+    decorationManager.clearDecorations(document);
+    DiagnosticsManager.getInstance().clear(document);
+    lastParsedPackages.delete(document.uri.toString());
+  });
+  context.subscriptions.push(closeDocumentListener);
+
   // 初始化文件监控
   fileWatcher = new FileWatcher();
   fileWatcher.onFileChanged(handleFileChange);
   fileWatcher.startWatching();
 
-  // 注册CodeLens提供器
+  // 注册CodeLens提供器，请求到尚未解析的文档时为其获取版本信息
+  decorationManager.setDocumentLoader(document => {
+    if (isVersionLensesEnabled && ConfigManager.getInstance().getConfig().enabled && isSupportedFile(document)) {
+      handleFileChange(document);
+    }
+  });
   const codeLensProvider = decorationManager.registerCodeLensProvider();
   context.subscriptions.push(codeLensProvider);
 
+  // 注册 Problems 面板诊断和快速修复
+  context.subscriptions.push(DiagnosticsManager.getInstance().register());
+  context.subscriptions.push(DependencyCodeActionProvider.getInstance().register());
+
+  // 依赖名称上的悬停提示
+  context.subscriptions.push(DependencyHoverProvider.getInstance().register());
+
+  // 输入版本说明符和包名时的补全
+  context.subscriptions.push(DependencyCompletionProvider.getInstance().register());
+
+  configureFetchScheduler();
+
+  // 持久化版本缓存，初始化完成后再为当前文件获取版本，以便直接使用磁盘缓存
+  const cacheReady = configureDiskCache(context.globalStorageUri.fsPath);
+
+  // 后台刷新得到新版本时重新渲染当前文件
+  context.subscriptions.push(
+    VersionService.getInstance().onDidRevalidate(scheduleRevalidatedRefresh),
+    NpmVersionService.getInstance().onDidRevalidate(scheduleRevalidatedRefresh),
+    // 网络断开时显示 stale 标记，恢复后自动刷新
+    ConnectivityMonitor.getInstance().onDidChange(scheduleRevalidatedRefresh),
+    // 漏洞数据返回后只需重新渲染 CodeLens
+    VulnerabilityService.getInstance().onDidUpdate(() => decorationManager.updateProgress())
+  );
+
+  // 私有索引认证信息保存在 SecretStorage 中
+  context.subscriptions.push(CredentialStore.getInstance().initialize(context.secrets));
+
+  // 注册工作区依赖概览视图
+  context.subscriptions.push(DependencyTreeProvider.getInstance().register());
+
   // 注册所有命令
   Object.entries(commandHandlers).forEach(([id, handler]) => {
     const disposable = vscode.commands.registerCommand(`version-lens.${id}`, handler);
@@ -77,10 +159,10 @@ export function activate(context: vscode.ExtensionContext) {
 
   // 监听编辑器变化，自动为支持的文件类型启用版本提示
   const editorChangeListener = vscode.window.onDidChangeActiveTextEditor(editor => {
-    if (editor && isSupportedFile(editor.document) && isVersionLensesEnabled) {
+    if (editor && isSupportedFile(editor.document) && isVersionCheckEnabled()) {
       // 延迟一点执行，确保编辑器完全加载
       setTimeout(() => {
-        if (isVersionLensesEnabled) {
+        if (isVersionCheckEnabled()) {
           handleFileChange(editor.document);
         }
       }, 100);
@@ -90,7 +172,7 @@ export function activate(context: vscode.ExtensionContext) {
 
   // 监听文档内容变化，实时刷新版本信息
   const documentChangeListener = vscode.workspace.onDidChangeTextDocument(event => {
-    if (isVersionLensesEnabled && isSupportedFile(event.document)) {
+    if (isVersionCheckEnabled() && isSupportedFile(event.document)) {
       // 使用防抖避免频繁刷新
       debounceRefresh(event.document);
     }
@@ -100,29 +182,47 @@ export function activate(context: vscode.ExtensionContext) {
   // 监听配置变化
   const configListener = vscode.workspace.onDidChangeConfiguration(event => {
     if (event.affectsConfiguration('versionLens')) {
+      const previousOsvDatabase = configManager.getConfig().osvDatabasePath;
       configManager.refresh();
+      // 切换漏洞数据来源后重新查询
+      if (configManager.getConfig().osvDatabasePath !== previousOsvDatabase) {
+        VulnerabilityService.getInstance().clearCache();
+      }
+      configureDiskCache(context.globalStorageUri.fsPath);
+      configureFetchScheduler();
       fileWatcher.stopWatching();
       fileWatcher.startWatching(); // 重新启动监控以应用新配置
+      // 插件开关、诊断开关或级别变化后重新计算
+      if (['versionLens.enabled', 'versionLens.diagnostics', 'versionLens.diagnosticSeverity']
+        .some(section => event.affectsConfiguration(section))) {
+        DiagnosticsManager.getInstance().clear();
+        if (configManager.getConfig().enabled) {
+          getVisibleSupportedDocuments().forEach(document => handleFileChange(document));
+        }
+      }
       console.log('Configuration updated');
     }
   });
 
   context.subscriptions.push(configListener);
 
-  // 如果当前编辑器是支持的文件类型，自动启用
-  const activeEditor = vscode.window.activeTextEditor;
-  if (activeEditor && isSupportedFile(activeEditor.document) && isVersionLensesEnabled) {
-    handleFileChange(activeEditor.document);
-  }
+  // 为所有可见的支持文件自动启用
+  cacheReady.then(() => {
+    getVisibleSupportedDocuments().forEach(document => handleFileChange(document));
+  });
 }
 
 export function deactivate() {
   if (fileWatcher) {
     fileWatcher.stopWatching();
   }
-  if (refreshTimer) {
-    clearTimeout(refreshTimer);
+  refreshTimers.forEach(timer => clearTimeout(timer));
+  refreshTimers.clear();
+  if (revalidateTimer) {
+    clearTimeout(revalidateTimer);
   }
+  cancelPendingFetches();
+  ConnectivityMonitor.getInstance().dispose();
   DecorationManager.getInstance().dispose();
     console.log('Dep Version Lens extension deactivated');
 }
@@ -146,10 +246,7 @@ function toggleVersionLenses(show: boolean) {
   decorationManager.setEnabled(show);
 
   if (show) {
-    const editor = vscode.window.activeTextEditor;
-    if (editor && isSupportedFile(editor.document)) {
-      handleFileChange(editor.document);
-    }
+    getVisibleSupportedDocuments().forEach(document => handleFileChange(document));
     showTimedMessage('✅ 依赖版本更新提示已开启', 3000);
   } else {
     showTimedMessage('👁️ 依赖版本更新提示已关闭', 3000);
@@ -176,26 +273,96 @@ function updateToggleCommandState() {
   }
 }
 
-function refreshVersions() {
+async function refreshVersions() {
   if (!checkEnabled()) return;
 
   const editor = vscode.window.activeTextEditor;
   if (editor && isSupportedFile(editor.document)) {
+    // 不可达的主机保留缓存，避免清除后没有任何版本信息可显示；其他主机照常刷新
+    const connectivity = ConnectivityMonitor.getInstance();
+    await connectivity.probe();
+    const isUnreachable = (url: string) => !connectivity.isReachable(url);
+
     // 清除缓存以强制重新获取版本信息
     const versionService = VersionService.getInstance();
     const npmVersionService = NpmVersionService.getInstance();
-    versionService.clearCache();
-    npmVersionService.clearCache();
+    versionService.clearCache(isUnreachable);
+    npmVersionService.clearCache(isUnreachable);
+    VulnerabilityService.getInstance().clearCache(isUnreachable);
     
-    // 重新加载版本信息
-    handleFileChange(editor.document);
+    // 重新加载所有可见文件的版本信息
+    getVisibleSupportedDocuments().forEach(document => handleFileChange(document));
     
-    showTimedMessage('🔄 正在刷新版本信息...', 3000);
+    if (connectivity.hasUnreachableHosts()) {
+      showTimedMessage('⚠️ 部分主机不可用，这些主机继续显示缓存的版本信息', 3000, 'warning');
+    } else {
+      showTimedMessage('🔄 正在刷新版本信息...', 3000);
+    }
   } else {
     showTimedMessage('请打开支持的依赖文件 (requirements.txt, pyproject.toml, setup.py, Pipfile, package.json)', 3000, 'warning');
   }
 }
 
+async function clearCache() {
+  VersionService.getInstance().clearCache();
+  NpmVersionService.getInstance().clearCache();
+  VulnerabilityService.getInstance().clearCache();
+  await DiskCache.getInstance().clear();
+  showTimedMessage('🗑️ 版本缓存已清除', 3000);
+
+  if (isVersionCheckEnabled()) {
+    getVisibleSupportedDocuments().forEach(document => handleFileChange(document));
+  }
+}
+
+async function configureDiskCache(storagePath: string) {
+  const config = ConfigManager.getInstance().getConfig();
+  const diskCache = DiskCache.getInstance();
+  const maxSizeBytes = Math.max(1, config.cacheMaxSizeMB) * 1024 * 1024;
+
+  if (!config.persistentCache) {
+    diskCache.disable();
+  } else if (diskCache.isEnabled()) {
+    diskCache.setOptions({ maxSizeBytes });
+  } else {
+    await diskCache.initialize(storagePath, { maxSizeBytes });
+  }
+}
+
+function configureFetchScheduler() {
+  const config = ConfigManager.getInstance().getConfig();
+  FetchScheduler.getInstance().configure({
+    concurrency: config.maxConcurrentRequests,
+    requestsPerSecond: config.requestsPerSecondPerHost
+  });
+}
+
+// 取消指定文档（不指定时为所有文档）尚未开始的版本请求
+function cancelPendingFetches(documentKey?: string) {
+  const keys = documentKey ? [documentKey] : Array.from(fetchCancellations.keys());
+  keys.forEach(key => {
+    const source = fetchCancellations.get(key);
+    if (source) {
+      source.cancel();
+      source.dispose();
+      fetchCancellations.delete(key);
+    }
+  });
+}
+
+// 多个包在后台刷新完成时合并为一次重新渲染
+function scheduleRevalidatedRefresh() {
+  if (revalidateTimer) {
+    clearTimeout(revalidateTimer);
+  }
+
+  revalidateTimer = setTimeout(() => {
+    if (isVersionCheckEnabled() && ConfigManager.getInstance().getConfig().enabled) {
+      getVisibleSupportedDocuments().forEach(document => handleFileChange(document));
+    }
+  }, 1000);
+}
+
 async function updatePackage(packageInfoJson?: string) {
   if (!checkEnabled()) return;
 
@@ -220,15 +387,63 @@ async function updateToVersion(packageInfo: any, version: string) {
     const updateManager = UpdateManager.getInstance();
     const success = await updateManager.updatePackageVersion(packageInfo, version);
 
+    if (success) {
+      await refreshPackageDocument(packageInfo);
+    }
+  } catch (error) {
+    showTimedMessage(`更新包版本失败: ${error}`, 3000, 'error');
+  }
+}
+
+async function replaceVersionSpecifier(packageInfo: any, newSpec: string) {
+  if (!checkEnabled()) return;
+
+  try {
+    const { UpdateManager } = require('./updateManager');
+    const success = await UpdateManager.getInstance().replaceVersionSpecifier(packageInfo, newSpec);
+
+    if (success) {
+      await refreshPackageDocument(packageInfo);
+    }
+  } catch (error) {
+    showTimedMessage(`更新版本约束失败: ${error}`, 3000, 'error');
+  }
+}
+
+// 刷新被修改的依赖所在文档的版本信息（不一定是当前活动编辑器中的文档）
+async function refreshPackageDocument(packageInfo: PackageInfo) {
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(packageInfo.filePath));
+  setTimeout(() => handleFileChange(document), 100);
+}
+
+async function updateAllOutdated(scope: BulkUpdateScope) {
+  if (!checkEnabled()) return;
+
+  try {
+    const success = await BulkUpdateManager.getInstance().updateAllOutdated(scope);
+
     if (success) {
       // 刷新当前文档的版本信息
       const editor = vscode.window.activeTextEditor;
-      if (editor) {
+      if (editor && isSupportedFile(editor.document)) {
         setTimeout(() => handleFileChange(editor.document), 100);
       }
     }
   } catch (error) {
-    showTimedMessage(`更新包版本失败: ${error}`, 3000, 'error');
+    showTimedMessage(`批量更新失败: ${error}`, 3000, 'error');
+  }
+}
+
+async function manageIndexCredentials(store: boolean) {
+  const credentialStore = CredentialStore.getInstance();
+  const changed = store ? await credentialStore.promptAndStore() : await credentialStore.promptAndDelete();
+
+  if (changed) {
+    // 认证信息变化后重新获取版本信息
+    VersionService.getInstance().clearCache();
+    if (isVersionCheckEnabled()) {
+      getVisibleSupportedDocuments().forEach(document => handleFileChange(document));
+    }
   }
 }
 
@@ -252,44 +467,70 @@ function isSupportedFile(document: vscode.TextDocument): boolean {
     baseName === 'package.json';
 }
 
+// 版本提示或诊断任一开启时都需要获取版本信息
+function isVersionCheckEnabled(): boolean {
+  return isVersionLensesEnabled || DiagnosticsManager.getInstance().isEnabled();
+}
+
+function getVisibleSupportedDocuments(): vscode.TextDocument[] {
+  const documents = new Set(vscode.window.visibleTextEditors.map(editor => editor.document));
+  return Array.from(documents).filter(isSupportedFile);
+}
+
+function isVisible(document: vscode.TextDocument): boolean {
+  return vscode.window.visibleTextEditors.some(editor => editor.document === document);
+}
+
 async function handleFileChange(document: vscode.TextDocument) {
-  if (!checkEnabled() || !isVersionLensesEnabled) return;
+  if (!checkEnabled() || !isVersionCheckEnabled()) return;
 
   console.log(`File changed: ${document.fileName}`);
 
-  const editor = vscode.window.activeTextEditor;
-  if (!editor || editor.document !== document) return;
+  // 只处理在编辑器中可见的文档，多个并排打开的文件各自独立获取
+  if (!isVisible(document)) return;
 
   const parserManager = ParserManager.getInstance();
   const decorationManager = DecorationManager.getInstance();
+  const diagnosticsManager = DiagnosticsManager.getInstance();
   const versionService = VersionService.getInstance();
   const npmVersionService = NpmVersionService.getInstance();
 
   // 解析文档获取包信息
   const allPackages = parserManager.parseDocument(document);
 
-  // 去重：同一个包名只保留第一个出现的
+  // 去重：同一分组中的同一个包名只保留第一个出现的
   const packageMap = new Map<string, PackageInfo>();
   allPackages.forEach(pkg => {
-    if (!packageMap.has(pkg.name)) {
-      packageMap.set(pkg.name, pkg);
+    if (!packageMap.has(getDeclarationKey(pkg))) {
+      packageMap.set(getDeclarationKey(pkg), pkg);
     }
   });
   const packages = Array.from(packageMap.values());
 
   console.log(`Parsed ${allPackages.length} packages, after dedup: ${packages.length}`);
 
+  // 无法解析的说明符和重复声明不需要等待版本信息
+  diagnosticsManager.update(document, allPackages);
+
   // 如果有包需要处理，先显示加载状态
-  if (packages.length > 0) {
-    decorationManager.setLoading(true);
-    decorationManager.createVersionLens(editor, packages);
-  }
+  decorationManager.setLoading(document, packages.length > 0);
+  decorationManager.createVersionLens(document, packages);
 
   // 判断文件类型来选择合适的版本服务
   const isPackageJson = document.fileName.toLowerCase().endsWith('package.json');
 
-  // 获取最新版本信息
-  for (const pkg of packages) {
+  // 取消该文档上一轮尚未开始的请求
+  const documentKey = document.uri.toString();
+  cancelPendingFetches(documentKey);
+  const fetchCancellation = new vscode.CancellationTokenSource();
+  fetchCancellations.set(documentKey, fetchCancellation);
+  const token = fetchCancellation.token;
+
+  // -r 引用的汇总与本文件的依赖一起获取，CodeLens 只读取汇总结果
+  const referencesReady = summarizeRequirementsReferences(document, token);
+
+  // 并发获取最新版本信息，由调度器限制并发数和请求速率，每个结果返回后立即更新对应的 CodeLens
+  await Promise.all(packages.map(async pkg => {
     // 根据文件类型验证包名格式
     if (isPackageJson) {
       // npm包名验证在parser中已经完成
@@ -297,7 +538,7 @@ async function handleFileChange(document: vscode.TextDocument) {
       // Python包名验证
       if (!isValidPythonPackageName(pkg.name)) {
         console.log(`Skipping invalid package name: ${pkg.name}`);
-        continue;
+        return;
       }
     }
 
@@ -309,13 +550,14 @@ async function handleFileChange(document: vscode.TextDocument) {
       let latestVersion: string | null = null;
 
       if (isPackageJson) {
-        latestVersion = await npmVersionService.getLatestVersion(queryPackageName);
+        latestVersion = await npmVersionService.getLatestVersion(queryPackageName, pkg.filePath, token);
       } else {
-        latestVersion = await versionService.getLatestVersion(queryPackageName);
+        latestVersion = await versionService.getLatestVersion(queryPackageName, pkg.indexUrls, token);
       }
 
       if (latestVersion) {
         pkg.latestVersion = latestVersion;
+        await updateReleaseWarning(pkg, queryPackageName, isPackageJson, token);
         console.log(`Got version for ${pkg.name}: ${latestVersion}`);
       } else {
         console.log(`No version found for ${pkg.name}`);
@@ -325,45 +567,115 @@ async function handleFileChange(document: vscode.TextDocument) {
       // 为无法获取版本的包设置当前版本，避免显示错误
       pkg.latestVersion = pkg.currentVersion || '';
     }
-  }
+
+    if (!token.isCancellationRequested) {
+      decorationManager.updateProgress();
+    }
+  }));
+  const references = await referencesReady;
+
+  // 文档已不可见或开始了新一轮获取，不再更新
+  if (token.isCancellationRequested) return;
+  fetchCancellations.delete(documentKey);
+  fetchCancellation.dispose();
 
   console.log(`Final packages with versions:`, packages.map(p => `${p.name}: ${p.currentVersion} -> ${p.latestVersion}`));
 
   // 关闭加载状态并创建最终的版本装饰器
-  decorationManager.setLoading(false);
-  decorationManager.createVersionLens(editor, packages);
+  decorationManager.setLoading(document, false);
+  decorationManager.createVersionLens(document, packages);
+  decorationManager.setRequirementsReferences(document, references);
+  diagnosticsManager.update(document, allPackages);
   
   // 更新包信息缓存
-  lastParsedPackages.set(document.fileName, packages);
+  lastParsedPackages.set(documentKey, packages);
 }
 
-// 存储上次解析的包信息，用于检测变化
+// 汇总 requirements 文件中 -r 引用的被包含文件里的过期依赖，每个包使用其所在文件声明的索引
+async function summarizeRequirementsReferences(
+  document: vscode.TextDocument,
+  token?: vscode.CancellationToken
+): Promise<RequirementsReferenceSummary[]> {
+  const parser = new RequirementsParser();
+  if (!parser.canParse(document)) {
+    return [];
+  }
+
+  const content = document.getText();
+  const indexUrls = parser.parseIndexUrls(content);
+  const references = parser.parseReferences(content, document.fileName)
+    .filter(ref => ref.kind === 'requirement');
+
+  return Promise.all(references.map(async ref => {
+    const summary: RequirementsReferenceSummary = {
+      line: ref.line,
+      target: ref.target,
+      resolvedPath: ref.resolvedPath,
+      exists: fs.existsSync(ref.resolvedPath),
+      total: 0,
+      outdated: []
+    };
+    if (!summary.exists) {
+      return summary;
+    }
+
+    // 同名包只查询一次
+    const unique = new Map<string, PackageInfo>();
+    parser.parseFile(ref.resolvedPath, new Set([document.fileName]), indexUrls).forEach(pkg => {
+      if (!unique.has(pkg.name)) {
+        unique.set(pkg.name, pkg);
+      }
+    });
+    summary.total = unique.size;
+
+    const results = await Promise.all(Array.from(unique.values()).map(async pkg => {
+      if (!pkg.currentVersion) {
+        return null;
+      }
+      try {
+        const queryPackageName = pkg.basePackageName || pkg.name.split('[')[0];
+        const latestVersion = await VersionService.getInstance().getLatestVersion(queryPackageName, pkg.indexUrls, token);
+        const current = pkg.versionSpec ? parseVersionSpec(pkg.versionSpec).version : pkg.currentVersion;
+        return latestVersion && isVersionOutdated(current, latestVersion) ? `${pkg.name} ${current} → ${latestVersion}` : null;
+      } catch (error) {
+        console.error(`Failed to get version for ${pkg.name}:`, error);
+        return null;
+      }
+    }));
+    summary.outdated = results.filter((item): item is string => !!item);
+    return summary;
+  }));
+}
+
+// 按文档 URI 存储上次解析的包信息，用于检测变化
 let lastParsedPackages = new Map<string, PackageInfo[]>();
 
 // 防抖刷新函数
 function debounceRefresh(document: vscode.TextDocument) {
-  if (refreshTimer) {
-    clearTimeout(refreshTimer);
+  const key = document.uri.toString();
+  const existingTimer = refreshTimers.get(key);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
   }
 
-  refreshTimer = setTimeout(() => {
+  refreshTimers.set(key, setTimeout(() => {
+    refreshTimers.delete(key);
     handleDocumentChange(document);
-  }, 500); // 500ms 防抖延迟，给用户足够时间完成编辑
+  }, 500)); // 500ms 防抖延迟，给用户足够时间完成编辑
 }
 
 // 智能处理文档变化
 async function handleDocumentChange(document: vscode.TextDocument) {
-  if (!checkEnabled() || !isVersionLensesEnabled) return;
+  if (!checkEnabled() || !isVersionCheckEnabled()) return;
 
-  const editor = vscode.window.activeTextEditor;
-  if (!editor || editor.document !== document) return;
+  if (!isVisible(document)) return;
 
   const parserManager = ParserManager.getInstance();
   const decorationManager = DecorationManager.getInstance();
   
   // 解析当前文档获取包信息
   const currentPackages = parserManager.parseDocument(document);
-  const documentKey = document.fileName;
+  const documentKey = document.uri.toString();
   const lastPackages = lastParsedPackages.get(documentKey) || [];
   
   // 检测变化的包
@@ -373,8 +685,8 @@ async function handleDocumentChange(document: vscode.TextDocument) {
     console.log(`Detected changes in packages:`, changedPackages.map(p => `${p.name}: ${p.currentVersion}`));
     
     // 显示加载状态
-    decorationManager.setLoading(true);
-    decorationManager.createVersionLens(editor, currentPackages);
+    decorationManager.setLoading(document, true);
+    decorationManager.createVersionLens(document, currentPackages);
     
     // 只为变化的包获取版本信息
     await updateChangedPackagesVersions(changedPackages, document);
@@ -383,14 +695,25 @@ async function handleDocumentChange(document: vscode.TextDocument) {
     const allPackages = mergePackageVersions(currentPackages, lastPackages);
     
     // 关闭加载状态并更新显示
-    decorationManager.setLoading(false);
-    decorationManager.createVersionLens(editor, allPackages);
+    decorationManager.setLoading(document, false);
+    decorationManager.createVersionLens(document, allPackages);
+    
+    DiagnosticsManager.getInstance().update(document, allPackages);
     
     // 更新缓存
     lastParsedPackages.set(documentKey, allPackages);
     
     showTimedMessage(`🔄 已更新 ${changedPackages.length} 个依赖的版本信息`, 2000);
+  } else {
+    // 版本没有变化时也可能新增了重复声明、改变了行号，或锁文件、本地安装的版本发生了变化
+    const allPackages = mergePackageVersions(currentPackages, lastPackages);
+    decorationManager.createVersionLens(document, allPackages);
+    DiagnosticsManager.getInstance().update(document, allPackages);
+    lastParsedPackages.set(documentKey, allPackages);
   }
+
+  // -r 引用的行号或目标文件可能已变化，被包含文件中的包通常已在缓存中
+  decorationManager.setRequirementsReferences(document, await summarizeRequirementsReferences(document));
 }
 
 // 检测包变化
@@ -400,14 +723,14 @@ function detectPackageChanges(oldPackages: PackageInfo[], newPackages: PackageIn
   
   // 创建旧包的映射
   oldPackages.forEach(pkg => {
-    oldPackageMap.set(pkg.name, pkg);
+    oldPackageMap.set(getDeclarationKey(pkg), pkg);
   });
   
   // 检测新增或版本变化的包
   newPackages.forEach(newPkg => {
-    const oldPkg = oldPackageMap.get(newPkg.name);
+    const oldPkg = oldPackageMap.get(getDeclarationKey(newPkg));
     
-    if (!oldPkg || oldPkg.currentVersion !== newPkg.currentVersion) {
+    if (!oldPkg || oldPkg.currentVersion !== newPkg.currentVersion || oldPkg.versionSpec !== newPkg.versionSpec) {
       changedPackages.push(newPkg);
     }
   });
@@ -421,12 +744,12 @@ async function updateChangedPackagesVersions(changedPackages: PackageInfo[], doc
   const npmVersionService = NpmVersionService.getInstance();
   const isPackageJson = document.fileName.toLowerCase().endsWith('package.json');
   
-  for (const pkg of changedPackages) {
+  await Promise.all(changedPackages.map(async pkg => {
     // 根据文件类型验证包名格式
     if (!isPackageJson) {
       if (!isValidPythonPackageName(pkg.name)) {
         console.log(`Skipping invalid package name: ${pkg.name}`);
-        continue;
+        return;
       }
     }
     
@@ -437,13 +760,14 @@ async function updateChangedPackagesVersions(changedPackages: PackageInfo[], doc
       let latestVersion: string | null = null;
       
       if (isPackageJson) {
-        latestVersion = await npmVersionService.getLatestVersion(queryPackageName);
+        latestVersion = await npmVersionService.getLatestVersion(queryPackageName, pkg.filePath);
       } else {
-        latestVersion = await versionService.getLatestVersion(queryPackageName);
+        latestVersion = await versionService.getLatestVersion(queryPackageName, pkg.indexUrls);
       }
       
       if (latestVersion) {
         pkg.latestVersion = latestVersion;
+        await updateReleaseWarning(pkg, queryPackageName, isPackageJson);
         console.log(`Updated version for ${pkg.name}: ${latestVersion}`);
       } else {
         console.log(`No version found for ${pkg.name}`);
@@ -453,6 +777,28 @@ async function updateChangedPackagesVersions(changedPackages: PackageInfo[], doc
       console.error(`Failed to get version for ${pkg.name}:`, error);
       pkg.latestVersion = pkg.currentVersion || '';
     }
+  }));
+}
+
+// 固定的版本已撤回或弃用时记录警告，供 CodeLens 和诊断使用（包信息已在缓存中，不会重复请求）
+async function updateReleaseWarning(
+  pkg: PackageInfo,
+  queryPackageName: string,
+  isPackageJson: boolean,
+  token?: vscode.CancellationToken
+): Promise<void> {
+  const pinnedVersion = getPinnedVersion(pkg, isPackageJson);
+  let warning: ReleaseWarning | null = null;
+  if (pinnedVersion) {
+    warning = isPackageJson
+      ? await NpmVersionService.getInstance().getReleaseWarning(queryPackageName, pinnedVersion, pkg.filePath, token)
+      : await VersionService.getInstance().getReleaseWarning(queryPackageName, pinnedVersion, pkg.indexUrls, token);
+  }
+
+  if (warning) {
+    pkg.releaseWarning = warning;
+  } else {
+    delete pkg.releaseWarning;
   }
 }
 
@@ -462,18 +808,20 @@ function mergePackageVersions(currentPackages: PackageInfo[], lastPackages: Pack
   
   // 创建上次包信息的映射
   lastPackages.forEach(pkg => {
-    lastPackageMap.set(pkg.name, pkg);
+    lastPackageMap.set(getDeclarationKey(pkg), pkg);
   });
   
   // 合并版本信息
   return currentPackages.map(currentPkg => {
-    const lastPkg = lastPackageMap.get(currentPkg.name);
+    const lastPkg = lastPackageMap.get(getDeclarationKey(currentPkg));
     
     // 如果包没有变化且之前有版本信息，保留之前的版本信息
-    if (lastPkg && lastPkg.currentVersion === currentPkg.currentVersion && lastPkg.latestVersion) {
+    if (lastPkg && lastPkg.currentVersion === currentPkg.currentVersion &&
+        lastPkg.versionSpec === currentPkg.versionSpec && lastPkg.latestVersion) {
       return {
         ...currentPkg,
-        latestVersion: lastPkg.latestVersion
+        latestVersion: lastPkg.latestVersion,
+        releaseWarning: lastPkg.releaseWarning
       };
     }
     
@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+
+/**
+ * 请求在开始前被取消（例如用户切换了编辑器）
+ */
+export class CancelledError extends Error {
+    constructor() {
+        super('Request cancelled');
+        this.name = 'CancelledError';
+    }
+}
+
+export interface FetchSchedulerOptions {
+    concurrency: number;       // 全局最大并发请求数
+    requestsPerSecond: number; // 每个主机每秒最多发起的请求数
+}
+
+interface Waiter {
+    resolve: (value: any) => void;
+    reject: (error: unknown) => void;
+    cancellation?: vscode.Disposable;
+}
+
+interface Job {
+    key: string;
+    host: string;
+    task: () => Promise<any>;
+    waiters: Set<Waiter>;
+}
+
+const DEFAULT_OPTIONS: FetchSchedulerOptions = {
+    concurrency: 8,
+    requestsPerSecond: 10
+};
+
+/**
+ * 两个版本服务共用的请求调度器：限制并发数和每个主机的请求速率，
+ * 合并相同 key 的并发请求，并支持取消尚未开始的请求
+ */
+export class FetchScheduler {
+    private static instance: FetchScheduler;
+    private options: FetchSchedulerOptions = DEFAULT_OPTIONS;
+    private queue: Job[] = [];
+    private jobs = new Map<string, Job>(); // 排队中和进行中的请求，用于合并
+    private nextSlot = new Map<string, number>(); // 每个主机下一次允许发起请求的时间
+    private active = 0;
+    private timer: NodeJS.Timeout | undefined;
+
+    static getInstance(): FetchScheduler {
+        if (!FetchScheduler.instance) {
+            FetchScheduler.instance = new FetchScheduler();
+        }
+        return FetchScheduler.instance;
+    }
+
+    configure(options: Partial<FetchSchedulerOptions>): void {
+        this.options = {
+            concurrency: Math.max(1, options.concurrency ?? this.options.concurrency),
+            requestsPerSecond: Math.max(0, options.requestsPerSecond ?? this.options.requestsPerSecond)
+        };
+        this.pump();
+    }
+
+    /**
+     * 调度一个请求
+     * @param key 相同 key 的请求只执行一次，结果由所有调用方共享
+     * @param url 请求地址，用于按主机限速
+     * @param token 取消后，尚未开始的请求会以 CancelledError 结束；已开始的请求继续执行以便写入缓存
+     */
+    schedule<T>(key: string, url: string, task: () => Promise<T>, token?: vscode.CancellationToken): Promise<T> {
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new CancelledError());
+        }
+
+        let job = this.jobs.get(key);
+        if (!job) {
+            job = { key, host: getHost(url), task, waiters: new Set() };
+            this.jobs.set(key, job);
+            this.queue.push(job);
+        }
+
+        const currentJob = job;
+        return new Promise<T>((resolve, reject) => {
+            const waiter: Waiter = { resolve, reject };
+            if (token) {
+                waiter.cancellation = token.onCancellationRequested(() => this.cancel(currentJob, waiter));
+            }
+            currentJob.waiters.add(waiter);
+            this.pump();
+        });
+    }
+
+    getPendingCount(): number {
+        return this.queue.length;
+    }
+
+    private cancel(job: Job, waiter: Waiter): void {
+        if (!job.waiters.delete(waiter)) return;
+        waiter.cancellation?.dispose();
+        waiter.reject(new CancelledError());
+
+        // 没有调用方等待且尚未开始的请求直接移出队列
+        const index = this.queue.indexOf(job);
+        if (index >= 0 && job.waiters.size === 0) {
+            this.queue.splice(index, 1);
+            this.jobs.delete(job.key);
+        }
+    }
+
+    private pump(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+
+        while (this.active < this.options.concurrency && this.queue.length > 0) {
+            const now = Date.now();
+            const index = this.queue.findIndex(job => (this.nextSlot.get(job.host) || 0) <= now);
+            if (index < 0) {
+                // 所有排队请求的主机都在限速中，等待最早可用的时间
+                const wait = Math.min(...this.queue.map(job => (this.nextSlot.get(job.host) || 0) - now));
+                this.timer = setTimeout(() => this.pump(), Math.max(1, wait));
+                this.timer.unref?.();
+                return;
+            }
+
+            const [job] = this.queue.splice(index, 1);
+            this.start(job, now);
+        }
+    }
+
+    private start(job: Job, now: number): void {
+        this.active++;
+        if (this.options.requestsPerSecond > 0) {
+            const interval = 1000 / this.options.requestsPerSecond;
+            this.nextSlot.set(job.host, Math.max(now, this.nextSlot.get(job.host) || 0) + interval);
+        }
+
+        const settle = (callback: (waiter: Waiter) => void) => {
+            // 先移除任务再通知调用方，调用方在回调中以相同 key 重新调度时会创建新的请求，而不是加入已结束的任务
+            this.jobs.delete(job.key);
+            job.waiters.forEach(waiter => {
+                waiter.cancellation?.dispose();
+                callback(waiter);
+            });
+            job.waiters.clear();
+        };
+
+        job.task()
+            .then(
+                result => settle(waiter => waiter.resolve(result)),
+                error => settle(waiter => waiter.reject(error))
+            )
+            .finally(() => {
+                this.active--;
+                this.pump();
+            });
+    }
+}
+
+function getHost(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch {
+        return '';
+    }
+}
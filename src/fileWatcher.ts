@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { IFileWatcher } from './types';
 import { ConfigManager } from './config';
+import { NPM_LOCKFILE_NAMES, clearNpmLockfileLocations } from './npmLockfile';
+import { PYTHON_LOCKFILE_NAMES, clearPythonLockfileLocations } from './pythonLockfile';
+import { VIRTUALENV_NAMES, clearInstalledEnvironmentCache } from './installedVersions';
 
 export class FileWatcher implements IFileWatcher {
     private watchers: vscode.FileSystemWatcher[] = [];
@@ -25,6 +29,22 @@ export class FileWatcher implements IFileWatcher {
             this.watchers.push(watcher);
         });
 
+        // 锁定的版本来自锁文件，锁文件变化时刷新同目录及子目录中打开的依赖文件
+        const lockfileNames = [...NPM_LOCKFILE_NAMES, ...PYTHON_LOCKFILE_NAMES].map(lockfile => lockfile.fileName);
+        const lockfileWatcher = vscode.workspace.createFileSystemWatcher(`**/{${lockfileNames.join(',')}}`);
+        lockfileWatcher.onDidChange(uri => this.handleLockfileChange(uri));
+        lockfileWatcher.onDidCreate(uri => this.handleLockfileChange(uri));
+        lockfileWatcher.onDidDelete(uri => this.handleLockfileChange(uri));
+        this.watchers.push(lockfileWatcher);
+
+        // 在虚拟环境中安装或卸载包时刷新环境所在目录中打开的依赖文件
+        const environmentWatcher = vscode.workspace.createFileSystemWatcher(
+            `**/{${VIRTUALENV_NAMES.join(',')}}/**/site-packages/*.dist-info/METADATA`
+        );
+        environmentWatcher.onDidCreate(uri => this.handleEnvironmentChange(uri));
+        environmentWatcher.onDidDelete(uri => this.handleEnvironmentChange(uri));
+        this.watchers.push(environmentWatcher);
+
         // 监听文档打开和变化
         vscode.workspace.onDidOpenTextDocument(doc => this.handleDocumentEvent(doc));
         vscode.workspace.onDidChangeTextDocument(event => this.handleDocumentEvent(event.document));
@@ -52,6 +72,30 @@ export class FileWatcher implements IFileWatcher {
         }
     }
 
+    private handleLockfileChange(uri: vscode.Uri): void {
+        // npm install 等命令会同时更新锁文件和 node_modules；锁文件创建或删除后需要重新查找
+        clearInstalledEnvironmentCache();
+        clearNpmLockfileLocations();
+        clearPythonLockfileLocations();
+        this.refreshDocumentsUnder(path.dirname(uri.fsPath));
+    }
+
+    private handleEnvironmentChange(uri: vscode.Uri): void {
+        clearInstalledEnvironmentCache();
+        const segments = uri.fsPath.split(path.sep);
+        const index = segments.findIndex(segment => VIRTUALENV_NAMES.includes(segment));
+        if (index > 0) {
+            this.refreshDocumentsUnder(segments.slice(0, index).join(path.sep) || path.sep);
+        }
+    }
+
+    private refreshDocumentsUnder(directoryPath: string): void {
+        const directory = directoryPath.endsWith(path.sep) ? directoryPath : directoryPath + path.sep;
+        vscode.workspace.textDocuments
+            .filter(document => document.fileName.startsWith(directory) && this.isSupportedFile(document))
+            .forEach(document => this.debounceFileChange(document));
+    }
+
     private handleDocumentEvent(document: vscode.TextDocument): void {
         if (this.isSupportedFile(document)) {
             this.debounceFileChange(document);
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { PackageInfo } from './types';
+import { ConfigManager } from './config';
+import { ParserManager } from './parserManager';
+import { VersionService } from './versionService';
+import { NpmVersionService } from './npmVersionService';
+import { DEPENDENCY_FILE_SELECTOR } from './decorationManager';
+import { getNpmMetadata, getPyPIMetadata, PackageMetadata, ReleaseMetadata } from './packageMetadata';
+
+/**
+ * 依赖名称上的悬停提示：简介、许可证、当前与最新版本的发布日期和运行环境要求，以及相关链接
+ */
+export class DependencyHoverProvider implements vscode.HoverProvider {
+    private static instance: DependencyHoverProvider;
+
+    static getInstance(): DependencyHoverProvider {
+        if (!DependencyHoverProvider.instance) {
+            DependencyHoverProvider.instance = new DependencyHoverProvider();
+        }
+        return DependencyHoverProvider.instance;
+    }
+
+    register(): vscode.Disposable {
+        return vscode.languages.registerHoverProvider(DEPENDENCY_FILE_SELECTOR, this);
+    }
+
+    async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Hover | null> {
+        if (!ConfigManager.getInstance().getConfig().enabled) {
+            return null;
+        }
+
+        const lineText = document.lineAt(position.line).text;
+        const match = ParserManager.getInstance().parseDocument(document)
+            .filter(pkg => pkg.line === position.line)
+            .map(pkg => ({ pkg, range: this.getNameRange(pkg, lineText) }))
+            .find(({ range }) => range?.contains(position));
+        if (!match) {
+            return null;
+        }
+
+        const metadata = await this.getMetadata(match.pkg, document.fileName.toLowerCase().endsWith('package.json'), token);
+        if (!metadata || token.isCancellationRequested) {
+            return null;
+        }
+
+        return new vscode.Hover(this.render(metadata), match.range!);
+    }
+
+    private getNameRange(pkg: PackageInfo, lineText: string): vscode.Range | null {
+        const start = lineText.indexOf(pkg.name, Math.max(0, pkg.startChar));
+        return start < 0 ? null : new vscode.Range(pkg.line, start, pkg.line, start + pkg.name.length);
+    }
+
+    private async getMetadata(pkg: PackageInfo, isPackageJson: boolean, token: vscode.CancellationToken): Promise<PackageMetadata | null> {
+        const queryPackageName = pkg.basePackageName || pkg.name.split('[')[0];
+        if (isPackageJson) {
+            const info = await NpmVersionService.getInstance().getPackageInfo(queryPackageName, pkg.filePath, token);
+            return info ? getNpmMetadata(info, pkg.currentVersion) : null;
+        }
+        const info = await VersionService.getInstance().getPackageInfo(queryPackageName, pkg.indexUrls, token);
+        return info ? getPyPIMetadata(info, pkg.currentVersion) : null;
+    }
+
+    private render(metadata: PackageMetadata): vscode.MarkdownString {
+        const markdown = new vscode.MarkdownString();
+        markdown.appendMarkdown(`**${escape(metadata.name)}**`);
+        if (metadata.summary) {
+            markdown.appendMarkdown(` — ${escape(metadata.summary)}`);
+        }
+        markdown.appendMarkdown('\n\n');
+
+        // 当前版本与最新版本相同时只显示一行
+        const rows: [string, ReleaseMetadata][] = [];
+        if (metadata.current && metadata.current.version !== metadata.latest.version) {
+            rows.push(['当前', metadata.current]);
+        }
+        rows.push(['最新', metadata.latest]);
+
+        markdown.appendMarkdown(`| | 版本 | 发布日期 | ${metadata.requiresLabel} |\n|---|---|---|---|\n`);
+        rows.forEach(([label, release]) => {
+            const date = release.releaseDate ? release.releaseDate.slice(0, 10) : '-';
+            markdown.appendMarkdown(`| ${label} | ${escape(release.version)} | ${date} | ${escape(release.requires || '-')} |\n`);
+        });
+
+        if (metadata.license) {
+            markdown.appendMarkdown(`\nLicense: ${escape(metadata.license.split('\n')[0])}\n`);
+        }
+        if (metadata.links.length) {
+            markdown.appendMarkdown(`\n${metadata.links.map(link => `[${link.label}](${link.url})`).join(' · ')}`);
+        }
+        return markdown;
+    }
+}
+
+// 转义 Markdown 特殊字符，包简介等内容来自仓库，不能被当作 Markdown 解析
+function escape(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
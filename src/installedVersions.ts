@@ -0,0 +1,282 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PackageInfo } from './types';
+import { getAncestorDirs, normalizePackageName } from './utils';
+
+/**
+ * 项目目录中按优先级查找的虚拟环境目录名
+ */
+export const VIRTUALENV_NAMES = ['.venv', 'venv'];
+
+interface SitePackagesIndex {
+    mtimeMs: number;
+    distInfos: Map<string, string>;       // 规范化包名 -> dist-info 目录
+    versions: Map<string, string | null>; // 已读取的 METADATA 版本
+}
+
+const sitePackagesCache = new Map<string, SitePackagesIndex>();
+
+interface NodeModulesIndex {
+    mtimeMs: number;
+    packages: Map<string, { version: string; path: string } | null>; // 包名 -> 已读取的 package.json 版本
+}
+
+const nodeModulesCache = new Map<string, NodeModulesIndex>();
+
+interface InstalledEnvironment {
+    sitePackagesDirs: string[]; // Python 环境中的 site-packages
+    nodeModulesDirs: string[];  // 从清单目录向上存在的 node_modules，最近的在前
+}
+
+// 按清单目录缓存环境的查找结果，虚拟环境或锁文件变化时由 FileWatcher 清除
+const environmentCache = new Map<string, InstalledEnvironment>();
+
+/**
+ * 清除环境查找结果的缓存（安装、卸载包或创建环境后调用）
+ */
+export function clearInstalledEnvironmentCache(): void {
+    environmentCache.clear();
+}
+
+/**
+ * 为解析出的依赖填入本地环境中安装的版本，只读取本地目录
+ * Python 从虚拟环境 site-packages 中的 *.dist-info/METADATA 读取，npm 按 Node 的查找规则读取 node_modules/<名称>/package.json
+ * @param interpreterPath 配置的 Python 解释器或虚拟环境路径，未配置时在清单所在目录及上级目录中查找 .venv、venv
+ * @param stopDirectory 向上查找 .venv、venv 和 node_modules 时到此目录（通常是工作区目录）为止，不指定时查找到文件系统根目录
+ */
+export function applyInstalledVersions(
+    packages: PackageInfo[],
+    manifestPath: string,
+    isPackageJson: boolean,
+    interpreterPath?: string,
+    stopDirectory?: string
+): void {
+    if (!packages.length) {
+        return;
+    }
+
+    const environment = getInstalledEnvironment(path.dirname(manifestPath), isPackageJson, interpreterPath, stopDirectory);
+    packages.forEach(pkg => {
+        const installed = isPackageJson
+            ? readInstalledNpmPackage(environment.nodeModulesDirs, pkg.basePackageName || pkg.name)
+            : readInstalledPythonPackage(environment.sitePackagesDirs, pkg.basePackageName || pkg.name.split('[')[0]);
+        if (installed) {
+            pkg.installedVersion = installed.version;
+            pkg.installedPath = installed.path;
+        }
+    });
+}
+
+function getInstalledEnvironment(
+    directory: string,
+    isPackageJson: boolean,
+    interpreterPath?: string,
+    stopDirectory?: string
+): InstalledEnvironment {
+    const key = [isPackageJson ? 'npm' : 'python', directory, interpreterPath || '', stopDirectory || ''].join('|');
+    let environment = environmentCache.get(key);
+    if (environment) {
+        return environment;
+    }
+
+    if (isPackageJson) {
+        const nodeModulesDirs = getAncestorDirs(directory, stopDirectory)
+            .map(dir => path.join(dir, 'node_modules'))
+            .filter(dir => fs.existsSync(dir));
+        environment = { sitePackagesDirs: [], nodeModulesDirs };
+    } else {
+        const virtualEnvironment = interpreterPath
+            ? getEnvironmentFromInterpreter(interpreterPath)
+            : findVirtualEnvironment(directory, stopDirectory);
+        environment = { sitePackagesDirs: virtualEnvironment ? getSitePackagesDirs(virtualEnvironment) : [], nodeModulesDirs: [] };
+    }
+    environmentCache.set(key, environment);
+    return environment;
+}
+
+/**
+ * 从清单所在目录开始向上查找虚拟环境（包含 pyvenv.cfg 的 .venv 或 venv 目录）
+ * @param stopDirectory 查找到此目录为止，不指定时查找到文件系统根目录
+ */
+export function findVirtualEnvironment(directory: string, stopDirectory?: string): string | null {
+    for (const dir of getAncestorDirs(directory, stopDirectory)) {
+        for (const name of VIRTUALENV_NAMES) {
+            const candidate = path.join(dir, name);
+            if (fs.existsSync(path.join(candidate, 'pyvenv.cfg'))) {
+                return candidate;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * 由解释器路径得到环境根目录：<env>/bin/python、<env>/Scripts/python.exe、conda 在 Windows 上的 <env>/python.exe，
+ * 也可以直接配置环境目录
+ */
+export function getEnvironmentFromInterpreter(interpreterPath: string): string | null {
+    let stat: fs.Stats;
+    try {
+        stat = fs.statSync(interpreterPath);
+    } catch {
+        return null;
+    }
+    if (stat.isDirectory()) {
+        return interpreterPath;
+    }
+
+    const binDir = path.dirname(interpreterPath);
+    return ['bin', 'scripts'].includes(path.basename(binDir).toLowerCase()) ? path.dirname(binDir) : binDir;
+}
+
+/**
+ * 环境中的 site-packages 目录：POSIX 为 lib/python3.x/site-packages（也可能是 pypy3.x），Windows 为 Lib/site-packages
+ */
+export function getSitePackagesDirs(environment: string): string[] {
+    const dirs: string[] = [];
+    const windowsDir = path.join(environment, 'Lib', 'site-packages');
+    if (fs.existsSync(windowsDir)) {
+        dirs.push(windowsDir);
+    }
+
+    const libDir = path.join(environment, 'lib');
+    let entries: string[] = [];
+    try {
+        entries = fs.readdirSync(libDir);
+    } catch {
+        return dirs;
+    }
+    // 同一环境中有多个 Python 版本时优先使用较新的
+    entries
+        .filter(entry => /^(python|pypy)\d/.test(entry))
+        .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }))
+        .map(entry => path.join(libDir, entry, 'site-packages'))
+        .filter(dir => fs.existsSync(dir) && !dirs.includes(dir))
+        .forEach(dir => dirs.push(dir));
+    return dirs;
+}
+
+/**
+ * 在 site-packages 中查找包的 dist-info 并读取 METADATA 中的版本
+ */
+export function readInstalledPythonPackage(sitePackagesDirs: string[], packageName: string): { version: string; path: string } | null {
+    const key = normalizePackageName(packageName);
+    for (const dir of sitePackagesDirs) {
+        const index = getSitePackagesIndex(dir);
+        const distInfo = index?.distInfos.get(key);
+        if (!index || !distInfo) {
+            continue;
+        }
+
+        if (!index.versions.has(key)) {
+            index.versions.set(key, readDistInfoVersion(path.join(dir, distInfo)));
+        }
+        const version = index.versions.get(key);
+        if (version) {
+            return { version, path: path.join(dir, distInfo) };
+        }
+    }
+    return null;
+}
+
+/**
+ * 按 Node 的模块查找规则，依次在各级 node_modules 中查找 <名称>/package.json（workspace 的依赖可能被提升到根目录）
+ * @param nodeModulesDirs 从清单所在目录向上存在的 node_modules 目录，最近的在前
+ */
+export function readInstalledNpmPackage(nodeModulesDirs: string[], packageName: string): { version: string; path: string } | null {
+    for (const dir of nodeModulesDirs) {
+        const installed = readNodeModulesPackage(dir, packageName);
+        if (installed) {
+            return installed;
+        }
+    }
+    return null;
+}
+
+/**
+ * 列出 site-packages 中的 dist-info 目录，按目录的修改时间缓存（安装和卸载包会改变目录的修改时间）
+ */
+function getSitePackagesIndex(dir: string): SitePackagesIndex | null {
+    let stat: fs.Stats;
+    try {
+        stat = fs.statSync(dir);
+    } catch {
+        return null;
+    }
+
+    const cached = sitePackagesCache.get(dir);
+    if (cached && cached.mtimeMs === stat.mtimeMs) {
+        return cached;
+    }
+
+    const distInfos = new Map<string, string>();
+    try {
+        fs.readdirSync(dir)
+            .filter(entry => entry.endsWith('.dist-info'))
+            .forEach(entry => {
+                // 目录名为 <名称>-<版本>.dist-info，名称中的 - 已被转义为 _
+                const name = entry.slice(0, -'.dist-info'.length).split('-')[0];
+                distInfos.set(normalizePackageName(name), entry);
+            });
+    } catch (error) {
+        console.error(`Failed to read site-packages ${dir}:`, (error as Error).message);
+    }
+
+    const index: SitePackagesIndex = { mtimeMs: stat.mtimeMs, distInfos, versions: new Map() };
+    sitePackagesCache.set(dir, index);
+    return index;
+}
+
+/**
+ * 读取 node_modules 中某个包的版本，按包所在目录（node_modules 或 node_modules/@scope）的修改时间缓存，
+ * 不存在或无法解析时返回 null
+ */
+function readNodeModulesPackage(nodeModulesDir: string, packageName: string): { version: string; path: string } | null {
+    const packageDir = path.join(nodeModulesDir, ...packageName.split('/'));
+    const parentDir = path.dirname(packageDir);
+    let stat: fs.Stats;
+    try {
+        stat = fs.statSync(parentDir);
+    } catch {
+        return null;
+    }
+
+    let index = nodeModulesCache.get(parentDir);
+    if (!index || index.mtimeMs !== stat.mtimeMs) {
+        index = { mtimeMs: stat.mtimeMs, packages: new Map() };
+        nodeModulesCache.set(parentDir, index);
+    }
+
+    if (!index.packages.has(packageName)) {
+        let installed: { version: string; path: string } | null = null;
+        try {
+            const version = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf8')).version;
+            if (typeof version === 'string' && version) {
+                installed = { version, path: packageDir };
+            }
+        } catch {
+            // 不存在或无法解析
+        }
+        index.packages.set(packageName, installed);
+    }
+    return index.packages.get(packageName) || null;
+}
+
+/**
+ * 读取 METADATA 头部的 Version 字段，读取失败时使用目录名中的版本
+ */
+function readDistInfoVersion(distInfoDir: string): string | null {
+    try {
+        const content = fs.readFileSync(path.join(distInfoDir, 'METADATA'), 'utf8');
+        // 头部与正文（长描述）之间以空行分隔
+        const headers = content.split(/\r?\n\r?\n/)[0];
+        const match = headers.match(/^Version:\s*(\S+)\s*$/m);
+        if (match) {
+            return match[1];
+        }
+    } catch {
+        // 使用目录名中的版本
+    }
+    const version = path.basename(distInfoDir, '.dist-info').split('-')[1];
+    return version || null;
+}
@@ -0,0 +1,274 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseSemver } from './semver';
+import { getAncestorDirs } from './utils';
+
+export type NpmLockfileKind = 'package-lock' | 'yarn' | 'pnpm';
+
+/**
+ * 按优先级排列的 npm 锁文件名
+ */
+export const NPM_LOCKFILE_NAMES: { fileName: string; kind: NpmLockfileKind }[] = [
+    { fileName: 'npm-shrinkwrap.json', kind: 'package-lock' },
+    { fileName: 'package-lock.json', kind: 'package-lock' },
+    { fileName: 'yarn.lock', kind: 'yarn' },
+    { fileName: 'pnpm-lock.yaml', kind: 'pnpm' }
+];
+
+/**
+ * 锁文件中 package.json 直接依赖的解析版本
+ */
+export interface NpmLockfile {
+    kind: NpmLockfileKind;
+    path: string;
+    /**
+     * 查找依赖锁定的版本
+     * @param range package.json 中声明的范围，yarn.lock 按 "名称@范围" 查找
+     */
+    getVersion(name: string, range: string): string | null;
+}
+
+const cache = new Map<string, { mtimeMs: number; manifestDir: string; lockfile: NpmLockfile | null }>();
+
+// 按清单目录缓存锁文件的查找结果，锁文件创建或删除时由 FileWatcher 清除
+const locations = new Map<string, { path: string; kind: NpmLockfileKind } | null>();
+
+/**
+ * 清除锁文件查找结果的缓存
+ */
+export function clearNpmLockfileLocations(): void {
+    locations.clear();
+}
+
+/**
+ * 查找并解析 package.json 对应的锁文件：从所在目录开始向上查找（workspace 的锁文件在根目录）
+ * 按锁文件的修改时间缓存解析结果
+ * @param stopDirectory 向上查找到此目录（通常是工作区目录）为止
+ */
+export function readNpmLockfile(manifestPath: string, stopDirectory?: string): NpmLockfile | null {
+    const manifestDir = path.dirname(manifestPath);
+    const locationKey = `${manifestDir}|${stopDirectory || ''}`;
+    if (!locations.has(locationKey)) {
+        locations.set(locationKey, findNpmLockfile(manifestDir, stopDirectory));
+    }
+    const located = locations.get(locationKey);
+    if (!located) {
+        return null;
+    }
+
+    let stat: fs.Stats;
+    try {
+        stat = fs.statSync(located.path);
+    } catch {
+        return null;
+    }
+
+    const key = `${located.path}|${manifestDir}`;
+    const cached = cache.get(key);
+    if (cached && cached.mtimeMs === stat.mtimeMs) {
+        return cached.lockfile;
+    }
+
+    let lockfile: NpmLockfile | null = null;
+    try {
+        const content = fs.readFileSync(located.path, 'utf8');
+        const importer = path.relative(path.dirname(located.path), manifestDir).split(path.sep).join('/');
+        lockfile = parseNpmLockfile(located.kind, located.path, content, importer);
+    } catch (error) {
+        console.error(`Failed to parse lockfile ${located.path}:`, (error as Error).message);
+    }
+    cache.set(key, { mtimeMs: stat.mtimeMs, manifestDir, lockfile });
+    return lockfile;
+}
+
+/**
+ * 解析锁文件内容
+ * @param importer package.json 所在目录相对于锁文件目录的路径，根目录为空字符串
+ */
+export function parseNpmLockfile(kind: NpmLockfileKind, lockfilePath: string, content: string, importer: string = ''): NpmLockfile {
+    switch (kind) {
+        case 'package-lock': {
+            const versions = parsePackageLock(content, importer);
+            return { kind, path: lockfilePath, getVersion: name => versions.get(name) || null };
+        }
+        case 'yarn': {
+            const descriptors = parseYarnLock(content);
+            return { kind, path: lockfilePath, getVersion: (name, range) => getYarnVersion(descriptors, name, range) };
+        }
+        case 'pnpm': {
+            const versions = parsePnpmLock(content, importer);
+            return { kind, path: lockfilePath, getVersion: name => versions.get(name) || null };
+        }
+    }
+}
+
+function findNpmLockfile(directory: string, stopDirectory?: string): { path: string; kind: NpmLockfileKind } | null {
+    for (const dir of getAncestorDirs(directory, stopDirectory)) {
+        for (const { fileName, kind } of NPM_LOCKFILE_NAMES) {
+            const candidate = path.join(dir, fileName);
+            if (fs.existsSync(candidate)) {
+                return { path: candidate, kind };
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * package-lock.json / npm-shrinkwrap.json
+ * lockfileVersion 2、3 使用 packages["node_modules/名称"]，workspace 中的依赖可能在 "目录/node_modules/名称"
+ * lockfileVersion 1 使用顶层 dependencies
+ */
+export function parsePackageLock(content: string, importer: string = ''): Map<string, string> {
+    const data = JSON.parse(content);
+    const versions = new Map<string, string>();
+
+    if (data.packages && typeof data.packages === 'object') {
+        const prefixes = importer ? [`${importer}/node_modules/`, 'node_modules/'] : ['node_modules/'];
+        // 先记录提升到根目录的依赖，再用 workspace 自己的 node_modules 覆盖
+        prefixes.slice().reverse().forEach(prefix => {
+            Object.entries<any>(data.packages).forEach(([key, entry]) => {
+                if (!key.startsWith(prefix)) {
+                    return;
+                }
+                const name = key.slice(prefix.length);
+                // 跳过嵌套依赖（node_modules/a/node_modules/b）
+                if (name.includes('/node_modules/') || !entry?.version) {
+                    return;
+                }
+                versions.set(name, entry.version);
+            });
+        });
+        return versions;
+    }
+
+    Object.entries<any>(data.dependencies || {}).forEach(([name, entry]) => {
+        if (entry?.version) {
+            versions.set(name, entry.version);
+        }
+    });
+    return versions;
+}
+
+/**
+ * yarn.lock（v1 和 berry）：返回 "名称@范围" 描述符到版本的映射
+ * v1:    "lodash@^4.17.0", lodash@^4.17.21:\n  version "4.17.21"
+ * berry: "lodash@npm:^4.17.0, lodash@npm:^4.17.21":\n  version: 4.17.21
+ */
+export function parseYarnLock(content: string): Map<string, string> {
+    const descriptors = new Map<string, string>();
+    let current: string[] = [];
+
+    content.split(/\r?\n/).forEach(line => {
+        if (!line.trim() || line.trimStart().startsWith('#')) {
+            return;
+        }
+
+        if (!/^\s/.test(line)) {
+            current = line.endsWith(':')
+                ? line.slice(0, -1).split(',').map(descriptor => descriptor.trim().replace(/^"|"$/g, '')).filter(Boolean)
+                : [];
+            return;
+        }
+
+        const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?\s*$/);
+        if (version && current.length) {
+            current.forEach(descriptor => descriptors.set(descriptor, version[1]));
+            current = [];
+        }
+    });
+
+    return descriptors;
+}
+
+function getYarnVersion(descriptors: Map<string, string>, name: string, range: string): string | null {
+    const candidates = [`${name}@${range}`, `${name}@npm:${range}`];
+    for (const candidate of candidates) {
+        const version = descriptors.get(candidate);
+        if (version) {
+            return version;
+        }
+    }
+    return null;
+}
+
+/**
+ * pnpm-lock.yaml：lockfileVersion 5 到 9
+ * 单项目的旧格式在顶层 dependencies 中，workspace 和 v9 在 importers["目录"] 中
+ * 版本可能是 "4.17.21"、"4.17.21(react@18.2.0)"（v6+ 的 peer 后缀）或 "4.17.21_react@18.2.0"（v5）
+ */
+export function parsePnpmLock(content: string, importer: string = ''): Map<string, string> {
+    const data = parseYamlMappings(content);
+    const importers = data.importers as YamlMapping | undefined;
+    const project = importers && typeof importers === 'object'
+        ? importers[importer || '.'] as YamlMapping | undefined
+        : (importer ? undefined : data);
+    const versions = new Map<string, string>();
+    if (!project || typeof project !== 'object') {
+        return versions;
+    }
+
+    ['dependencies', 'devDependencies', 'optionalDependencies'].forEach(section => {
+        const deps = project[section];
+        if (!deps || typeof deps !== 'object') {
+            return;
+        }
+        Object.entries(deps).forEach(([name, entry]) => {
+            const raw = typeof entry === 'string' ? entry : entry?.version;
+            const version = typeof raw === 'string' ? raw.replace(/\(.*$/, '').replace(/_.*$/, '') : '';
+            // link:、file: 等本地依赖没有注册表版本
+            if (parseSemver(version)) {
+                versions.set(name, version);
+            }
+        });
+    });
+    return versions;
+}
+
+type YamlValue = string | YamlMapping;
+interface YamlMapping { [key: string]: YamlValue }
+
+/**
+ * 只支持锁文件用到的 YAML 子集：按缩进嵌套的映射和标量值，列表项及其子节点被忽略
+ */
+function parseYamlMappings(content: string): YamlMapping {
+    const root: YamlMapping = {};
+    const stack: { indent: number; node: YamlMapping }[] = [{ indent: -1, node: root }];
+
+    content.split(/\r?\n/).forEach(line => {
+        if (!line.trim() || line.trimStart().startsWith('#')) {
+            return;
+        }
+        const indent = line.length - line.trimStart().length;
+        while (stack.length > 1 && stack[stack.length - 1].indent >= indent) {
+            stack.pop();
+        }
+        const parent = stack[stack.length - 1].node;
+
+        if (line.trimStart().startsWith('-')) {
+            stack.push({ indent, node: {} });
+            return;
+        }
+
+        const match = line.trimStart().match(/^('[^']*'|"[^"]*"|[^\s'"][^:]*?):(?:\s+(.*?))?\s*$/);
+        if (!match) {
+            return;
+        }
+
+        const key = unquote(match[1]);
+        const value = match[2] ? match[2].replace(/\s+#.*$/, '') : '';
+        if (value) {
+            parent[key] = unquote(value);
+        } else {
+            const node: YamlMapping = {};
+            parent[key] = node;
+            stack.push({ indent, node });
+        }
+    });
+
+    return root;
+}
+
+function unquote(value: string): string {
+    return /^(['"]).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
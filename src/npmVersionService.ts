@@ -1,5 +1,16 @@
+import * as vscode from 'vscode';
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { ConfigManager } from './config';
+import { DiskCache, isRecordFresh } from './diskCache';
+import { ConnectivityMonitor, isNetworkError, OfflineError } from './connectivity';
+import { CancelledError, FetchScheduler } from './fetchScheduler';
+import { compareSemver, isSemverPrerelease, parseSemver } from './semver';
+import { DEFAULT_NPM_REGISTRY, getAuthorizationHeader, loadNpmrc, NpmrcConfig, resolveRegistry, toNerfDart } from './npmrc';
+import { stripUrlCredentials } from './utils';
+import { ReleaseWarning } from './types';
+import { getNpmReleaseWarning } from './packageMetadata';
+
+const DISK_CACHE_NAMESPACE = 'npm';
 
 export interface NpmPackageInfo {
     name: string;
@@ -7,12 +18,22 @@ export interface NpmPackageInfo {
     versions: { [version: string]: any };
     description?: string;
     homepage?: string;
+    license?: string;
+    repository?: string; // 仓库地址（已规范化为 URL 字符串）
+    bugs?: string;
+    time?: { [version: string]: string }; // 各版本的发布时间
+    registry?: string; // 提供该版本信息的 registry
 }
 
 export class NpmVersionService {
     private static instance: NpmVersionService;
     private client: AxiosInstance;
-    private cache = new Map<string, { data: NpmPackageInfo; timestamp: number }>();
+    private cache = new Map<string, { data: NpmPackageInfo; timestamp: number; ttl: number }>();
+    private revalidating = new Set<string>();
+    private notFound = new Set<string>(); // registry 返回 404 的包
+    private _onDidRevalidate = new vscode.EventEmitter<string>();
+    public readonly onDidRevalidate = this._onDidRevalidate.event; // 后台刷新得到新数据时触发，参数为包名
+    private npmrcCache = new Map<string, NpmrcConfig>(); // 按 package.json 路径缓存合并后的 .npmrc
     private readonly retryDelays = [1000, 2000, 4000];
     private readonly maxRetries = 3;
 
@@ -32,60 +53,239 @@ export class NpmVersionService {
         return NpmVersionService.instance;
     }
 
-    async getLatestVersion(packageName: string): Promise<string | null> {
-        const packageInfo = await this.getPackageInfo(packageName);
-        return packageInfo?.version || null;
+    async getLatestVersion(packageName: string, manifestPath?: string, token?: vscode.CancellationToken): Promise<string | null> {
+        const packageInfo = await this.getPackageInfo(packageName, manifestPath, token);
+        if (!packageInfo) return null;
+
+        // latest 标签指向已弃用的版本时使用未弃用的最新稳定版本（整个包弃用时保持不变）
+        if (packageInfo.versions?.[packageInfo.version]?.deprecated) {
+            return this.filterStableVersions(packageInfo)[0] || packageInfo.version;
+        }
+        return packageInfo.version || null;
     }
 
-    async getPackageInfo(packageName: string): Promise<NpmPackageInfo | null> {
-        // 检查缓存
-        if (this.isCacheValid(packageName)) {
-            return this.cache.get(packageName)!.data;
+    /**
+     * 获取包信息
+     * @param manifestPath package.json 路径，用于读取项目级 .npmrc 中的 registry 和认证配置
+     * @param token 取消后尚未开始的请求不再发起，返回 null
+     */
+    async getPackageInfo(
+        packageName: string,
+        manifestPath?: string,
+        token?: vscode.CancellationToken
+    ): Promise<NpmPackageInfo | null> {
+        const npmrc = this.getNpmrc(manifestPath);
+        const registry = resolveRegistry(npmrc, packageName);
+
+        // 检查缓存（内存或磁盘），过期的缓存先返回，同时在后台刷新
+        const cached = await this.getCached(packageName, registry, npmrc);
+        if (cached) {
+            return cached;
         }
 
+        const key = this.getCacheKey(packageName, registry);
         try {
-            const data = await this.fetchWithRetry(packageName);
-            if (data) {
-                this.updateCache(packageName, data);
-            }
+            const data = await this.scheduleFetch(packageName, registry, getAuthorizationHeader(npmrc, registry), token);
+            this.notFound.delete(key);
             return data;
         } catch (error) {
-            console.error(`Failed to fetch npm package info for ${packageName}:`, error);
+            // 只输出错误信息，避免把请求头中的认证信息写入日志
+            if (error instanceof OfflineError || error instanceof CancelledError) return null;
+            if ((error as AxiosError).response?.status === 404) {
+                this.notFound.add(key);
+                return null;
+            }
+            console.error(`Failed to fetch npm package info for ${packageName} from ${toNerfDart(registry)}:`, (error as Error).message);
             return null;
         }
     }
 
-    clearCache(): void {
-        this.cache.clear();
+    /**
+     * 获取所有稳定版本（排除预发布和已弃用的版本），按降序排列
+     */
+    async getStableVersions(packageName: string, manifestPath?: string, token?: vscode.CancellationToken): Promise<string[]> {
+        const packageInfo = await this.getPackageInfo(packageName, manifestPath, token);
+        return packageInfo ? this.filterStableVersions(packageInfo) : [];
+    }
+
+    /**
+     * 固定的版本已被弃用时返回弃用说明
+     */
+    async getReleaseWarning(
+        packageName: string,
+        version: string,
+        manifestPath?: string,
+        token?: vscode.CancellationToken
+    ): Promise<ReleaseWarning | null> {
+        const packageInfo = await this.getPackageInfo(packageName, manifestPath, token);
+        return packageInfo ? getNpmReleaseWarning(packageInfo, version) : null;
+    }
+
+    /**
+     * 本次会话中已获取过的包名，用于包名补全
+     */
+    getCachedPackageNames(): string[] {
+        return Array.from(new Set(Array.from(this.cache.values()).map(entry => entry.data.name)));
+    }
+
+    /**
+     * @param shouldKeep 返回 true 的 registry 保留缓存（例如暂时不可达的 registry），不指定时全部清除
+     */
+    clearCache(shouldKeep?: (registry: string) => boolean): void {
+        if (shouldKeep) {
+            // 键的格式为 "registry|包名"
+            const isKept = (key: string) => shouldKeep(key.slice(0, key.lastIndexOf('|')));
+            this.cache.forEach((_, key) => {
+                if (!isKept(key)) {
+                    this.cache.delete(key);
+                    DiskCache.getInstance().delete(DISK_CACHE_NAMESPACE, key);
+                }
+            });
+            this.notFound.forEach(key => {
+                if (!isKept(key)) {
+                    this.notFound.delete(key);
+                }
+            });
+        } else {
+            this.cache.clear();
+            this.notFound.clear();
+            DiskCache.getInstance().clear(DISK_CACHE_NAMESPACE);
+        }
+        this.npmrcCache.clear();
+    }
+
+    isCacheValid(packageName: string, registry: string = DEFAULT_NPM_REGISTRY): boolean {
+        const cached = this.cache.get(this.getCacheKey(packageName, registry));
+        return !!cached && isRecordFresh(cached);
+    }
+
+    /**
+     * registry 上不存在该包（上一次查询的结果）
+     */
+    isNotFound(packageName: string, manifestPath?: string): boolean {
+        const registry = resolveRegistry(this.getNpmrc(manifestPath), packageName);
+        return this.notFound.has(this.getCacheKey(packageName, registry));
+    }
+
+    /**
+     * registry 不可达且缓存已过期时，返回缓存数据的获取时间，用于显示 "stale since" 标记
+     */
+    getStaleSince(packageName: string, manifestPath?: string): number | null {
+        const registry = resolveRegistry(this.getNpmrc(manifestPath), packageName);
+        const cached = this.cache.get(this.getCacheKey(packageName, registry));
+        if (!cached || isRecordFresh(cached)) return null;
+        return ConnectivityMonitor.getInstance().isReachable(registry) ? null : cached.timestamp;
+    }
+
+    /**
+     * stale-while-revalidate：先查内存，再查磁盘；条目过期时仍返回旧数据，并在后台重新获取
+     */
+    private async getCached(packageName: string, registry: string, npmrc: NpmrcConfig): Promise<NpmPackageInfo | null> {
+        const key = this.getCacheKey(packageName, registry);
+        let cached = this.cache.get(key);
+
+        if (!cached) {
+            const record = await DiskCache.getInstance().get<NpmPackageInfo>(DISK_CACHE_NAMESPACE, key);
+            if (!record) return null;
+            cached = { data: record.data, timestamp: record.timestamp, ttl: record.ttl };
+            this.cache.set(key, cached);
+        }
+
+        if (!isRecordFresh(cached)) {
+            this.revalidate(packageName, registry, getAuthorizationHeader(npmrc, registry));
+        }
+        return cached.data;
     }
 
-    isCacheValid(packageName: string): boolean {
-        const cached = this.cache.get(packageName);
-        if (!cached) return false;
+    private revalidate(packageName: string, registry: string, authorization?: string): void {
+        const key = this.getCacheKey(packageName, registry);
+        if (this.revalidating.has(key)) return;
+        this.revalidating.add(key);
 
-        const config = ConfigManager.getInstance().getConfig();
-        const now = Date.now();
-        return (now - cached.timestamp) < config.cacheTimeout;
+        const previous = this.cache.get(key)?.data;
+        this.scheduleFetch(packageName, registry, authorization)
+            .then(data => {
+                if (!data) return;
+                if (!previous || previous.version !== data.version ||
+                    Object.keys(previous.versions).length !== Object.keys(data.versions).length) {
+                    this._onDidRevalidate.fire(packageName);
+                }
+            })
+            .catch(error => {
+                if (error instanceof OfflineError) return;
+                console.warn(`Background refresh failed for ${packageName} from ${toNerfDart(registry)}:`, (error as Error).message);
+            })
+            .finally(() => this.revalidating.delete(key));
+    }
+
+    /**
+     * 通过共享调度器发起请求，同一个包的并发请求只执行一次，结果写入缓存
+     */
+    private scheduleFetch(
+        packageName: string,
+        registry: string,
+        authorization?: string,
+        token?: vscode.CancellationToken
+    ): Promise<NpmPackageInfo | null> {
+        const key = this.getCacheKey(packageName, registry);
+        return FetchScheduler.getInstance().schedule(`npm|${key}`, registry, async () => {
+            const data = await this.fetchWithRetry(packageName, registry, authorization);
+            if (data) {
+                this.updateCache(packageName, registry, data);
+            }
+            return data;
+        }, token);
     }
 
-    private async fetchWithRetry(packageName: string, retryCount = 0): Promise<NpmPackageInfo | null> {
-        // 使用npm registry API
-        const url = `https://registry.npmjs.org/${encodeURIComponent(packageName)}`;
+    private async fetchWithRetry(
+        packageName: string,
+        registry: string,
+        authorization?: string,
+        retryCount = 0
+    ): Promise<NpmPackageInfo | null> {
+        // 使用npm registry API，scoped 包按 npm 的方式编码为 @scope%2fname
+        const url = `${registry}${encodeURIComponent(packageName).replace(/^%40/, '@')}`;
+
+        // registry 不可达时直接失败，由调用方使用缓存数据
+        const connectivity = ConnectivityMonitor.getInstance();
+        connectivity.assertReachable(registry);
 
         try {
-            const response = await this.client.get(url);
-            return this.transformResponse(response.data);
+            const response = await this.client.get(url, {
+                headers: authorization ? { Authorization: authorization } : undefined
+            });
+            connectivity.reportSuccess(registry);
+            return this.transformResponse(response.data, registry);
         } catch (error) {
+            if (isNetworkError(error)) {
+                // 网络层错误不再重试，标记为离线并等待连通性恢复
+                connectivity.reportFailure(registry);
+                throw error;
+            }
             if (retryCount < this.maxRetries && this.shouldRetry(error as AxiosError)) {
                 await this.delay(this.retryDelays[retryCount] || 4000);
-                return this.fetchWithRetry(packageName, retryCount + 1);
+                return this.fetchWithRetry(packageName, registry, authorization, retryCount + 1);
             }
             throw error;
         }
     }
 
+    private getNpmrc(manifestPath?: string): NpmrcConfig {
+        const key = manifestPath || '';
+        let config = this.npmrcCache.get(key);
+        if (!config) {
+            config = loadNpmrc(manifestPath);
+            this.npmrcCache.set(key, config);
+        }
+        return config;
+    }
+
+    private getCacheKey(packageName: string, registry: string): string {
+        return `${registry}|${packageName}`;
+    }
+
     private shouldRetry(error: AxiosError): boolean {
-        if (!error.response) return true; // 网络错误，重试
+        if (!error.response) return false; // 网络错误由连通性检测处理
         const status = error.response.status;
         // 只对服务器错误和限流重试，404表示包不存在，不需要重试
         return status >= 500 || status === 429;
@@ -95,20 +295,62 @@ export class NpmVersionService {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 
-    private transformResponse(data: any): NpmPackageInfo {
+    private transformResponse(data: any, registry: string): NpmPackageInfo {
         return {
             name: data.name,
             version: data['dist-tags']?.latest || Object.keys(data.versions || {}).pop() || '',
-            versions: data.versions || {},
+            versions: this.compactVersions(data.versions || {}),
             description: data.description || '',
-            homepage: data.homepage || ''
+            homepage: data.homepage || '',
+            license: typeof data.license === 'string' ? data.license : data.license?.type || '',
+            repository: typeof data.repository === 'string' ? data.repository : data.repository?.url || '',
+            bugs: typeof data.bugs === 'string' ? data.bugs : data.bugs?.url || '',
+            time: this.compactTime(data.time || {}, data.versions || {}),
+            registry
         };
     }
 
-    private updateCache(packageName: string, data: NpmPackageInfo): void {
-        this.cache.set(packageName, {
+    private filterStableVersions(packageInfo: NpmPackageInfo): string[] {
+        return Object.keys(packageInfo.versions || {})
+            .filter(v => parseSemver(v) !== null && !isSemverPrerelease(v) && !packageInfo.versions[v]?.deprecated)
+            .sort((a, b) => compareSemver(b, a) || 0);
+    }
+
+    /**
+     * 每个版本只保留需要的字段，完整的 manifest 对大型包来说可能有数 MB，不适合缓存
+     */
+    private compactVersions(versions: { [version: string]: any }): { [version: string]: any } {
+        const result: { [version: string]: any } = {};
+        Object.entries(versions).forEach(([version, manifest]) => {
+            const compact: { [key: string]: any } = {};
+            if (manifest?.deprecated) compact.deprecated = manifest.deprecated;
+            if (manifest?.engines && typeof manifest.engines === 'object') compact.engines = manifest.engines;
+            result[version] = compact;
+        });
+        return result;
+    }
+
+    /**
+     * 只保留已发布版本的时间（去掉 created / modified）
+     */
+    private compactTime(time: { [key: string]: string }, versions: { [version: string]: any }): { [version: string]: string } {
+        const result: { [version: string]: string } = {};
+        Object.keys(versions).forEach(version => {
+            if (time[version]) result[version] = time[version];
+        });
+        return result;
+    }
+
+    private updateCache(packageName: string, registry: string, data: NpmPackageInfo): void {
+        const key = this.getCacheKey(packageName, registry);
+        const ttl = ConfigManager.getInstance().getConfig().cacheTimeout;
+        this.cache.set(key, {
             data,
-            timestamp: Date.now()
+            timestamp: Date.now(),
+            ttl
         });
+        // 磁盘上不保存 registry 地址中的认证信息
+        const persisted = data.registry ? { ...data, registry: stripUrlCredentials(data.registry) } : data;
+        DiskCache.getInstance().set(DISK_CACHE_NAMESPACE, key, persisted, ttl);
     }
 }
\ No newline at end of file
@@ -0,0 +1,192 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const DEFAULT_NPM_REGISTRY = 'https://registry.npmjs.org/';
+
+/**
+ * 合并后的 .npmrc 配置（只保留版本查询需要的字段）
+ */
+export interface NpmrcConfig {
+    registry: string;
+    scopes: { [scope: string]: string };   // @scope -> registry
+    credentials: { [key: string]: string }; // //host/path/:_authToken 等认证项
+}
+
+type Env = { [name: string]: string | undefined };
+
+/**
+ * 解析 .npmrc 内容，支持 ${ENV} 和 ${ENV?} 环境变量替换
+ */
+export function parseNpmrc(content: string, env: Env = process.env): { [key: string]: string } {
+    const entries: { [key: string]: string } = {};
+
+    content.split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#') || line.startsWith(';')) {
+            return;
+        }
+
+        const separator = line.indexOf('=');
+        if (separator <= 0) {
+            return;
+        }
+
+        const key = interpolate(line.slice(0, separator).trim(), env);
+        let value = line.slice(separator + 1).trim();
+        if (/^(["']).*\1$/.test(value)) {
+            value = value.slice(1, -1);
+        }
+        entries[key] = interpolate(value, env);
+    });
+
+    return entries;
+}
+
+/**
+ * 按优先级从低到高返回 global、user、project 三级 .npmrc 路径
+ * @param manifestPath package.json 路径，从其所在目录向上查找项目级 .npmrc
+ */
+export function getNpmrcPaths(manifestPath: string | undefined, env: Env = process.env): string[] {
+    const paths: string[] = [];
+
+    const globalConfig = env.npm_config_globalconfig || env.NPM_CONFIG_GLOBALCONFIG;
+    const prefix = env.npm_config_prefix || env.NPM_CONFIG_PREFIX || env.PREFIX;
+    if (globalConfig) {
+        paths.push(globalConfig);
+    } else if (prefix) {
+        paths.push(path.join(prefix, 'etc', 'npmrc'));
+    } else if (process.platform === 'win32') {
+        if (env.APPDATA) {
+            paths.push(path.join(env.APPDATA, 'npm', 'etc', 'npmrc'));
+        }
+    } else {
+        paths.push('/usr/local/etc/npmrc');
+    }
+
+    paths.push(env.npm_config_userconfig || env.NPM_CONFIG_USERCONFIG || path.join(os.homedir(), '.npmrc'));
+
+    if (manifestPath) {
+        const projectConfig = findProjectNpmrc(path.dirname(path.resolve(manifestPath)));
+        if (projectConfig) {
+            paths.push(projectConfig);
+        }
+    }
+
+    return paths.filter((p, i) => paths.indexOf(p) === i);
+}
+
+/**
+ * 读取并合并各级 .npmrc，后面的文件覆盖前面的配置
+ */
+export function loadNpmrc(manifestPath?: string, env: Env = process.env): NpmrcConfig {
+    const config: NpmrcConfig = { registry: DEFAULT_NPM_REGISTRY, scopes: {}, credentials: {} };
+
+    getNpmrcPaths(manifestPath, env).forEach(filePath => {
+        let content: string;
+        try {
+            content = fs.readFileSync(filePath, 'utf8');
+        } catch {
+            return;
+        }
+
+        Object.entries(parseNpmrc(content, env)).forEach(([key, value]) => {
+            if (key === 'registry') {
+                config.registry = withTrailingSlash(value);
+            } else if (/^@[^:]+:registry$/.test(key)) {
+                config.scopes[key.slice(0, key.indexOf(':'))] = withTrailingSlash(value);
+            } else if (key.startsWith('//')) {
+                config.credentials[key] = value;
+            }
+        });
+    });
+
+    return config;
+}
+
+/**
+ * 根据包名选择 registry：scoped 包优先使用 @scope:registry
+ */
+export function resolveRegistry(config: NpmrcConfig, packageName: string): string {
+    if (packageName.startsWith('@')) {
+        const scope = packageName.split('/')[0];
+        if (config.scopes[scope]) {
+            return config.scopes[scope];
+        }
+    }
+    return config.registry;
+}
+
+/**
+ * 获取 registry 对应的 Authorization 头，按 npm 的规则从最长路径开始匹配
+ * 支持 :_authToken（Bearer）、:_auth 和 :username + :_password（Basic）
+ */
+export function getAuthorizationHeader(config: NpmrcConfig, registryUrl: string): string | undefined {
+    for (let key = toNerfDart(registryUrl); key && key !== '//'; key = parentNerfDart(key)) {
+        const token = config.credentials[`${key}:_authToken`];
+        if (token) {
+            return `Bearer ${token}`;
+        }
+
+        const auth = config.credentials[`${key}:_auth`];
+        if (auth) {
+            return `Basic ${auth}`;
+        }
+
+        const username = config.credentials[`${key}:username`];
+        const password = config.credentials[`${key}:_password`];
+        if (username && password) {
+            const decoded = Buffer.from(password, 'base64').toString('utf8');
+            return `Basic ${Buffer.from(`${username}:${decoded}`).toString('base64')}`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 将 registry 地址转换为 .npmrc 中认证项使用的 //host/path/ 形式
+ */
+export function toNerfDart(registryUrl: string): string {
+    try {
+        const url = new URL(registryUrl);
+        return `//${url.host}${withTrailingSlash(url.pathname)}`;
+    } catch {
+        return '';
+    }
+}
+
+function parentNerfDart(key: string): string {
+    const trimmed = key.replace(/\/$/, '');
+    const index = trimmed.lastIndexOf('/');
+    return index > 1 ? trimmed.slice(0, index + 1) : '//';
+}
+
+/**
+ * 从 package.json 所在目录向上查找最近的 .npmrc（monorepo 中通常位于仓库根目录）
+ * 到达 git 仓库根目录或用户主目录时停止，主目录下的 .npmrc 属于用户级配置
+ */
+function findProjectNpmrc(startDir: string): string | null {
+    const home = os.homedir();
+    let dir = startDir;
+    while (dir !== home) {
+        const candidate = path.join(dir, '.npmrc');
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir || fs.existsSync(path.join(dir, '.git'))) {
+            return null;
+        }
+        dir = parent;
+    }
+    return null;
+}
+
+function interpolate(value: string, env: Env): string {
+    return value.replace(/\$\{([^}?]+)(\?)?\}/g, (_, name) => env[name] || '');
+}
+
+function withTrailingSlash(url: string): string {
+    return url.endsWith('/') ? url : `${url}/`;
+}
@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AxiosInstance } from 'axios';
+import { comparePep440 } from './pep440';
+import { compareSemver } from './semver';
+import { normalizePackageName } from './utils';
+
+export const OSV_API = 'https://api.osv.dev';
+const BATCH_SIZE = 1000; // querybatch 接口单次最多 1000 个查询
+
+export type OsvEcosystem = 'PyPI' | 'npm';
+
+export interface OsvEvent {
+    introduced?: string;
+    fixed?: string;
+    last_affected?: string;
+    limit?: string;
+}
+
+export interface OsvRange {
+    type: 'ECOSYSTEM' | 'SEMVER' | 'GIT';
+    events: OsvEvent[];
+}
+
+export interface OsvAffected {
+    package: { ecosystem: string; name: string };
+    ranges?: OsvRange[];
+    versions?: string[];
+    ecosystem_specific?: { severity?: string };
+    database_specific?: { severity?: string };
+}
+
+/**
+ * OSV 漏洞记录（https://ossf.github.io/osv-schema/），只保留用到的字段
+ */
+export interface OsvVulnerability {
+    id: string;
+    summary?: string;
+    aliases?: string[];
+    modified?: string;
+    severity?: { type: string; score: string }[];
+    affected?: OsvAffected[];
+    database_specific?: { severity?: string };
+}
+
+export interface OsvQuery {
+    ecosystem: OsvEcosystem;
+    name: string;
+    version: string;
+}
+
+/**
+ * 查询的唯一标识，PyPI 包名按 PEP 503 规范化
+ */
+export function getQueryKey(query: OsvQuery): string {
+    return `${query.ecosystem}|${normalizeName(query.ecosystem, query.name)}|${query.version}`;
+}
+
+/**
+ * 按生态系统的版本规则比较，无法解析时返回 null
+ */
+export function compareEcosystemVersions(ecosystem: OsvEcosystem, a: string, b: string): number | null {
+    return ecosystem === 'npm' ? compareSemver(a, b) : comparePep440(a, b);
+}
+
+/**
+ * 指定版本是否受该漏洞影响
+ */
+export function isVersionAffected(vuln: OsvVulnerability, query: OsvQuery): boolean {
+    return getAffectedEntries(vuln, query).some(affected =>
+        affected.versions?.includes(query.version) ||
+        (affected.ranges || []).some(range => isInRange(range, query))
+    );
+}
+
+/**
+ * 修复该漏洞的最小版本：当前版本所在范围中大于当前版本的最小 fixed 事件
+ */
+export function getMinimalFixedVersion(vuln: OsvVulnerability, query: OsvQuery): string | null {
+    let minimal: string | null = null;
+
+    getAffectedEntries(vuln, query).forEach(affected => {
+        (affected.ranges || [])
+            .filter(range => isInRange(range, query))
+            .forEach(range => range.events.forEach(event => {
+                if (!event.fixed || (compareEcosystemVersions(query.ecosystem, event.fixed, query.version) ?? 0) <= 0) {
+                    return;
+                }
+                if (!minimal || (compareEcosystemVersions(query.ecosystem, event.fixed, minimal) ?? 0) < 0) {
+                    minimal = event.fixed;
+                }
+            }));
+    });
+
+    return minimal;
+}
+
+/**
+ * 同时修复所有漏洞的最小版本（各漏洞最小修复版本中的最大值），没有任何修复版本时返回 null
+ */
+export function getCombinedFixedVersion(vulns: OsvVulnerability[], query: OsvQuery): string | null {
+    return vulns
+        .map(vuln => getMinimalFixedVersion(vuln, query))
+        .reduce<string | null>((highest, fixed) => {
+            if (!fixed) {
+                return highest;
+            }
+            if (!highest) {
+                return fixed;
+            }
+            return (compareEcosystemVersions(query.ecosystem, fixed, highest) ?? 0) > 0 ? fixed : highest;
+        }, null);
+}
+
+/**
+ * 漏洞严重程度：优先使用 GHSA 等数据库给出的等级，其次是生态系统自定义的等级
+ */
+export function getSeverity(vuln: OsvVulnerability): string {
+    const severity = vuln.database_specific?.severity ||
+        vuln.affected?.map(affected => affected.ecosystem_specific?.severity || affected.database_specific?.severity)
+            .find(Boolean);
+    return severity ? severity.toUpperCase() : 'UNKNOWN';
+}
+
+/**
+ * 本地 OSV 数据库导出（https://osv-vulnerabilities.storage.googleapis.com/<ecosystem>/all.zip 解压后的目录），
+ * 也支持包含漏洞记录数组的单个 JSON 文件，用于无法访问 api.osv.dev 的环境
+ */
+export class OsvDatabase {
+    private index = new Map<string, OsvVulnerability[]>(); // ecosystem|name -> 漏洞记录
+
+    constructor(vulns: OsvVulnerability[]) {
+        vulns.forEach(vuln => {
+            const keys = new Set((vuln.affected || [])
+                .filter(affected => isSupportedEcosystem(affected.package.ecosystem))
+                .map(affected => packageKey(affected.package.ecosystem as OsvEcosystem, affected.package.name)));
+            keys.forEach(key => {
+                const list = this.index.get(key) || [];
+                list.push(vuln);
+                this.index.set(key, list);
+            });
+        });
+    }
+
+    /**
+     * 从 JSON 文件或目录加载，无法解析的文件会被跳过
+     */
+    static async load(databasePath: string): Promise<OsvDatabase> {
+        const files = (await fs.promises.stat(databasePath)).isDirectory()
+            ? await listJsonFiles(databasePath)
+            : [databasePath];
+
+        const vulns: OsvVulnerability[] = [];
+        for (const file of files) {
+            try {
+                const data = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+                const records = Array.isArray(data) ? data : Array.isArray(data?.vulns) ? data.vulns : [data];
+                vulns.push(...records.filter((record: any) => typeof record?.id === 'string'));
+            } catch (error) {
+                console.warn(`Skipping unreadable OSV record ${file}: ${(error as Error).message}`);
+            }
+        }
+        return new OsvDatabase(vulns);
+    }
+
+    query(query: OsvQuery): OsvVulnerability[] {
+        return (this.index.get(packageKey(query.ecosystem, query.name)) || [])
+            .filter(vuln => isVersionAffected(vuln, query));
+    }
+}
+
+/**
+ * api.osv.dev 客户端：先用 querybatch 批量查询漏洞 ID，再获取每个漏洞的完整记录
+ */
+export class OsvClient {
+    constructor(private readonly client: AxiosInstance, private readonly apiBase: string = OSV_API) {}
+
+    /**
+     * 批量查询，返回与 queries 顺序一致的漏洞 ID 列表
+     */
+    async queryBatch(queries: OsvQuery[]): Promise<string[][]> {
+        const results: string[][] = [];
+
+        for (let start = 0; start < queries.length; start += BATCH_SIZE) {
+            const chunk = queries.slice(start, start + BATCH_SIZE);
+            const response = await this.client.post(`${this.apiBase}/v1/querybatch`, {
+                queries: chunk.map(toApiQuery)
+            });
+            const chunkResults: any[] = response.data?.results || [];
+
+            for (let i = 0; i < chunk.length; i++) {
+                const ids: string[] = (chunkResults[i]?.vulns || []).map((vuln: { id: string }) => vuln.id);
+                // 单个包的漏洞过多时结果会分页
+                let pageToken: string | undefined = chunkResults[i]?.next_page_token;
+                while (pageToken) {
+                    const page = await this.client.post(`${this.apiBase}/v1/query`, {
+                        ...toApiQuery(chunk[i]),
+                        page_token: pageToken
+                    });
+                    ids.push(...(page.data?.vulns || []).map((vuln: { id: string }) => vuln.id));
+                    pageToken = page.data?.next_page_token;
+                }
+                results.push(ids);
+            }
+        }
+
+        return results;
+    }
+
+    async getVulnerability(id: string): Promise<OsvVulnerability> {
+        const response = await this.client.get(`${this.apiBase}/v1/vulns/${encodeURIComponent(id)}`);
+        return response.data;
+    }
+}
+
+function toApiQuery(query: OsvQuery) {
+    return {
+        package: { ecosystem: query.ecosystem, name: query.name },
+        version: query.version
+    };
+}
+
+function getAffectedEntries(vuln: OsvVulnerability, query: OsvQuery): OsvAffected[] {
+    const key = packageKey(query.ecosystem, query.name);
+    return (vuln.affected || []).filter(affected =>
+        isSupportedEcosystem(affected.package.ecosystem) &&
+        packageKey(affected.package.ecosystem as OsvEcosystem, affected.package.name) === key
+    );
+}
+
+/**
+ * 按 OSV 规范计算版本是否落在范围内：事件按版本排序后依次处理 introduced / fixed / last_affected
+ */
+function isInRange(range: OsvRange, query: OsvQuery): boolean {
+    if (range.type === 'GIT') {
+        return false;
+    }
+
+    const compare = (a: string, b: string) => a === '0'
+        ? (b === '0' ? 0 : -1)
+        : b === '0' ? 1 : compareEcosystemVersions(query.ecosystem, a, b);
+    const eventVersion = (event: OsvEvent) => event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '0';
+    const events = range.events
+        .filter(event => event.limit === undefined)
+        .sort((a, b) => compare(eventVersion(a), eventVersion(b)) ?? 0);
+
+    let affected = false;
+    for (const event of events) {
+        if (event.introduced !== undefined && (compare(query.version, event.introduced) ?? -1) >= 0) {
+            affected = true;
+        } else if (event.fixed !== undefined && (compare(query.version, event.fixed) ?? -1) >= 0) {
+            affected = false;
+        } else if (event.last_affected !== undefined && (compare(query.version, event.last_affected) ?? -1) > 0) {
+            affected = false;
+        }
+    }
+    return affected;
+}
+
+async function listJsonFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await listJsonFiles(fullPath));
+        } else if (entry.name.endsWith('.json')) {
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+
+function isSupportedEcosystem(ecosystem: string): boolean {
+    return ecosystem === 'PyPI' || ecosystem === 'npm';
+}
+
+function normalizeName(ecosystem: OsvEcosystem, name: string): string {
+    return ecosystem === 'PyPI' ? normalizePackageName(name) : name;
+}
+
+function packageKey(ecosystem: OsvEcosystem, name: string): string {
+    return `${ecosystem}|${normalizeName(ecosystem, name)}`;
+}
@@ -0,0 +1,270 @@
+import { PyPIPackageInfo, ReleaseWarning } from './types';
+import { NpmPackageInfo } from './npmVersionService';
+import { DEFAULT_NPM_REGISTRY } from './npmrc';
+import { comparePep440, isPep440Prerelease, isValidPep440 } from './pep440';
+import { compareSemver, isSemverPrerelease, parseSemver } from './semver';
+
+export interface PackageLink {
+    label: string;
+    url: string;
+}
+
+/**
+ * 悬停提示中展示的包信息，当前版本和最新版本各自的发布日期与运行环境要求
+ */
+export interface PackageMetadata {
+    name: string;
+    summary: string;
+    license: string;
+    requiresLabel: string; // requires-python 或 engines
+    current: ReleaseMetadata | null;
+    latest: ReleaseMetadata;
+    links: PackageLink[];
+}
+
+export interface ReleaseMetadata {
+    version: string;
+    releaseDate: string | null; // ISO 8601
+    requires: string | null;
+}
+
+/**
+ * 单个已发布版本的概要，用于版本补全
+ */
+export interface ReleaseSummary {
+    version: string;
+    releaseDate: string | null; // ISO 8601
+    prerelease: boolean;
+    yanked: boolean;       // PyPI：该版本的所有分发文件都已撤回
+    yankedReason?: string;
+    deprecated?: string;   // npm：deprecated 说明
+}
+
+const CHANGELOG_LABEL = /change\s*log|changes|release\s*notes|releases|history|what'?s\s*new|news/i;
+const REPOSITORY_LABEL = /^(?!.*conduct)(source|repository|repo\b|code|github|gitlab|bitbucket)/i;
+const HOMEPAGE_LABEL = /^home\s*page$|^homepage$|^home$/i;
+
+/**
+ * 从 PyPI JSON API 的数据中提取展示信息
+ */
+export function getPyPIMetadata(info: PyPIPackageInfo, currentVersion: string | null): PackageMetadata {
+    const projectUrls = Object.entries(info.info.project_urls || {});
+    const findUrl = (pattern: RegExp) => projectUrls.find(([label]) => pattern.test(label.trim()))?.[1];
+
+    const homepage = info.info.home_page || findUrl(HOMEPAGE_LABEL);
+    const repository = findUrl(REPOSITORY_LABEL) || (homepage && isRepositoryHost(homepage) ? homepage : undefined);
+    const changelog = findUrl(CHANGELOG_LABEL) || getReleasesUrl(repository);
+    const registryPage = info.info.package_url ||
+        (!info.indexUrl || /^https:\/\/pypi\.org\/?$/.test(info.indexUrl) ? `https://pypi.org/project/${info.name}/` : undefined);
+
+    const release = (version: string): ReleaseMetadata => {
+        const files: any[] = findRelease(info.releases, version) || [];
+        const uploadTimes = files
+            .map(file => file?.upload_time_iso_8601 || file?.upload_time)
+            .filter(Boolean)
+            .sort();
+        const requires = files.map(file => file?.requires_python).find(Boolean) ||
+            (version === info.version ? info.info.requires_python : null) || null;
+        return { version, releaseDate: uploadTimes[0] || null, requires };
+    };
+
+    return {
+        name: info.name,
+        summary: info.info.summary || '',
+        license: info.info.license || '',
+        requiresLabel: 'requires-python',
+        current: currentVersion ? release(currentVersion) : null,
+        latest: release(info.version),
+        links: buildLinks([
+            ['Homepage', homepage],
+            ['Repository', repository],
+            ['Changelog', changelog],
+            [getRegistryLabel(registryPage, 'PyPI', 'pypi.org'), registryPage]
+        ])
+    };
+}
+
+/**
+ * 从 npm registry 的数据中提取展示信息
+ */
+export function getNpmMetadata(info: NpmPackageInfo, currentVersion: string | null): PackageMetadata {
+    const repository = normalizeRepositoryUrl(info.repository || '') || undefined;
+    const isDefaultRegistry = !info.registry || info.registry.replace(/\/+$/, '') === DEFAULT_NPM_REGISTRY.replace(/\/+$/, '');
+    const registryPage = isDefaultRegistry ? `https://www.npmjs.com/package/${info.name}` : undefined;
+
+    const release = (version: string): ReleaseMetadata => {
+        const engines = info.versions?.[version]?.engines;
+        const requires = engines && typeof engines === 'object'
+            ? Object.entries(engines).map(([engine, range]) => `${engine} ${range}`).join(', ')
+            : null;
+        return { version, releaseDate: info.time?.[version] || null, requires: requires || null };
+    };
+
+    return {
+        name: info.name,
+        summary: info.description || '',
+        license: info.license || '',
+        requiresLabel: 'engines',
+        current: currentVersion ? release(currentVersion) : null,
+        latest: release(info.version),
+        links: buildLinks([
+            ['Homepage', info.homepage],
+            ['Repository', repository],
+            ['Changelog', getReleasesUrl(repository)],
+            ['npm', registryPage]
+        ])
+    };
+}
+
+/**
+ * PyPI 上的所有版本，按降序排列
+ */
+export function getPyPIReleases(info: PyPIPackageInfo): ReleaseSummary[] {
+    return Object.entries(info.releases || {})
+        .filter(([version]) => isValidPep440(version))
+        .map(([version, files]) => {
+            const uploads: any[] = Array.isArray(files) ? files : [];
+            const uploadTimes = uploads
+                .map(file => file?.upload_time_iso_8601 || file?.upload_time)
+                .filter(Boolean)
+                .sort();
+            const release: ReleaseSummary = {
+                version,
+                releaseDate: uploadTimes[0] || null,
+                prerelease: isPep440Prerelease(version),
+                yanked: isYankedRelease(uploads)
+            };
+            const reason = getYankedReason(uploads);
+            if (release.yanked && reason) {
+                release.yankedReason = reason;
+            }
+            return release;
+        })
+        .sort((a, b) => comparePep440(b.version, a.version) || 0);
+}
+
+/**
+ * npm registry 上的所有版本，按降序排列
+ */
+export function getNpmReleases(info: NpmPackageInfo): ReleaseSummary[] {
+    return Object.entries(info.versions || {})
+        .filter(([version]) => parseSemver(version) !== null)
+        .map(([version, manifest]) => {
+            const release: ReleaseSummary = {
+                version,
+                releaseDate: info.time?.[version] || null,
+                prerelease: isSemverPrerelease(version),
+                yanked: false
+            };
+            if (manifest?.deprecated) {
+                release.deprecated = String(manifest.deprecated);
+            }
+            return release;
+        })
+        .sort((a, b) => compareSemver(b.version, a.version) || 0);
+}
+
+/**
+ * PEP 592：版本的所有分发文件都被撤回时，该版本视为已撤回
+ */
+export function isYankedRelease(files: any[] | undefined): boolean {
+    return Array.isArray(files) && files.length > 0 && files.every(file => file?.yanked);
+}
+
+/**
+ * 固定的 PyPI 版本已撤回时返回撤回原因
+ */
+export function getPyPIReleaseWarning(info: PyPIPackageInfo, version: string): ReleaseWarning | null {
+    const files = findRelease(info.releases, version);
+    return isYankedRelease(files) ? { kind: 'yanked', reason: getYankedReason(files!) } : null;
+}
+
+/**
+ * 固定的 npm 版本已弃用时返回弃用说明
+ */
+export function getNpmReleaseWarning(info: NpmPackageInfo, version: string): ReleaseWarning | null {
+    const deprecated = info.versions?.[version]?.deprecated;
+    return deprecated ? { kind: 'deprecated', reason: typeof deprecated === 'string' ? deprecated : null } : null;
+}
+
+/**
+ * 规范化 package.json 中的 repository 字段，例如
+ * git+https://github.com/a/b.git、git@github.com:a/b.git、github:a/b、a/b -> https://github.com/a/b
+ */
+export function normalizeRepositoryUrl(repository: string): string | null {
+    const value = repository.trim();
+    if (!value) {
+        return null;
+    }
+
+    const shorthand = value.match(/^(?:(github|gitlab|bitbucket):)?([\w.-]+\/[\w.-]+)$/);
+    if (shorthand) {
+        const host = shorthand[1] === 'bitbucket' ? 'bitbucket.org' : `${shorthand[1] || 'github'}.com`;
+        return `https://${host}/${shorthand[2].replace(/\.git$/, '')}`;
+    }
+
+    const scp = value.match(/^(?:git\+)?(?:ssh:\/\/)?git@([^:/]+)[:/](.+?)(?:\.git)?\/?$/);
+    if (scp) {
+        return `https://${scp[1]}/${scp[2]}`;
+    }
+
+    const url = value.match(/^(?:git\+)?(?:https?|git|ssh):\/\/(?:[^@/]+@)?([^/]+)\/(.+?)(?:\.git)?\/?(?:#.*)?$/);
+    return url ? `https://${url[1]}/${url[2]}` : null;
+}
+
+function findRelease(releases: { [version: string]: any }, version: string): any[] | undefined {
+    if (releases?.[version]) {
+        return releases[version];
+    }
+    // 声明的版本与发布版本写法不同时（2.0 与 2.0.0）按 PEP 440 比较
+    const key = Object.keys(releases || {}).find(candidate => comparePep440(candidate, version) === 0);
+    return key ? releases[key] : undefined;
+}
+
+function getYankedReason(files: any[]): string | null {
+    // JSON API 使用 yanked_reason，PEP 691 中 yanked 本身可以是原因字符串
+    const file = files.find(f => f?.yanked_reason || typeof f?.yanked === 'string');
+    return file ? file.yanked_reason || file.yanked : null;
+}
+
+function isRepositoryHost(url: string): boolean {
+    return /^https?:\/\/(www\.)?(github\.com|gitlab\.com|bitbucket\.org)\//.test(url);
+}
+
+function getReleasesUrl(repository: string | undefined): string | undefined {
+    if (!repository) {
+        return undefined;
+    }
+    const match = repository.match(/^https?:\/\/(?:www\.)?(github\.com|gitlab\.com)\/([^/]+\/[^/#?]+)/);
+    if (!match) {
+        return undefined;
+    }
+    return match[1] === 'github.com'
+        ? `https://github.com/${match[2]}/releases`
+        : `https://gitlab.com/${match[2]}/-/releases`;
+}
+
+function getRegistryLabel(url: string | undefined, defaultLabel: string, defaultHost: string): string {
+    if (!url) {
+        return defaultLabel;
+    }
+    try {
+        const host = new URL(url).host;
+        return host === defaultHost ? defaultLabel : host;
+    } catch {
+        return defaultLabel;
+    }
+}
+
+function buildLinks(candidates: [string, string | undefined][]): PackageLink[] {
+    const seen = new Set<string>();
+    const links: PackageLink[] = [];
+    candidates.forEach(([label, url]) => {
+        if (!url || !/^https?:\/\//.test(url) || seen.has(url)) {
+            return;
+        }
+        seen.add(url);
+        links.push({ label, url });
+    });
+    return links;
+}
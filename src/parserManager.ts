@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { IParserManager, IPackageParser, PackageInfo } from './types';
 import { RequirementsParser } from './parsers/requirementsParser';
 import { PyprojectParser } from './parsers/pyprojectParser';
@@ -7,6 +8,7 @@ import { PipfileParser } from './parsers/pipfileParser';
 import { PackageJsonParser } from './parsers/packageJsonParser';
 import { shouldExcludePackage } from './utils';
 import { ConfigManager } from './config';
+import { applyInstalledVersions } from './installedVersions';
 
 export class ParserManager implements IParserManager {
     private static instance: ParserManager;
@@ -33,8 +35,35 @@ export class ParserManager implements IParserManager {
         const parser = this.parsers.find(p => p.canParse(document));
         if (!parser) return [];
 
-        const packages = parser.parse(document);
-        return this.filterPackages(packages);
+        // 锁文件和本地环境只在文档所在的工作区目录内查找，避免用到工作区外无关的 ~/venv、/opt/.venv 等
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath || path.dirname(document.fileName);
+        const packages = this.filterPackages(parser.parse(document, workspaceFolder));
+        // 本地环境中安装的版本，只读取本地磁盘上的文件
+        if (document.uri.scheme === 'file') {
+            const isPackageJson = document.fileName.toLowerCase().endsWith('package.json');
+            applyInstalledVersions(packages, document.fileName, isPackageJson, this.getInterpreterPath(document), workspaceFolder);
+        }
+        return packages;
+    }
+
+    /**
+     * 查找工作区中所有匹配 supportedFiles 的依赖文件
+     */
+    async findWorkspaceManifests(): Promise<vscode.Uri[]> {
+        const seen = new Set<string>();
+        const uris: vscode.Uri[] = [];
+
+        for (const pattern of this.getSupportedFileTypes()) {
+            const found = await vscode.workspace.findFiles(`**/${pattern}`, '**/{node_modules,.venv,venv,.git}/**');
+            found.forEach(uri => {
+                if (!seen.has(uri.toString())) {
+                    seen.add(uri.toString());
+                    uris.push(uri);
+                }
+            });
+        }
+
+        return uris;
     }
 
     getSupportedFileTypes(): string[] {
@@ -42,6 +71,18 @@ export class ParserManager implements IParserManager {
         return config.supportedFiles;
     }
 
+    /**
+     * 配置的 Python 解释器路径，相对路径和 ${workspaceFolder} 按文档所在的工作区目录解析
+     */
+    private getInterpreterPath(document: vscode.TextDocument): string | undefined {
+        const configured = ConfigManager.getInstance().getConfig().pythonInterpreterPath.trim();
+        if (!configured) return undefined;
+
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath || path.dirname(document.fileName);
+        const resolved = configured.replace(/\$\{workspaceFolder\}/g, workspaceFolder);
+        return path.isAbsolute(resolved) ? resolved : path.join(workspaceFolder, resolved);
+    }
+
     private filterPackages(packages: PackageInfo[]): PackageInfo[] {
         const config = ConfigManager.getInstance().getConfig();
         return packages.filter(pkg => !shouldExcludePackage(pkg.name, config.excludePatterns));
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import { IPackageParser, PackageInfo } from '../types';
+import { parseSemver } from '../semver';
+import { NpmLockfile, readNpmLockfile } from '../npmLockfile';
 
 export class PackageJsonParser implements IPackageParser {
     canParse(document: vscode.TextDocument): boolean {
@@ -7,7 +9,7 @@ export class PackageJsonParser implements IPackageParser {
         return fileName.endsWith('package.json');
     }
 
-    parse(document: vscode.TextDocument): PackageInfo[] {
+    parse(document: vscode.TextDocument, workspaceFolder?: string): PackageInfo[] {
         const packages: PackageInfo[] = [];
         const content = document.getText();
         
@@ -15,20 +17,22 @@ export class PackageJsonParser implements IPackageParser {
         
         try {
             const parsed = JSON.parse(content);
+            // 旁边的锁文件（package-lock.json、yarn.lock、pnpm-lock.yaml）中记录了实际安装的版本
+            const lockfile = document.uri.scheme === 'file' ? readNpmLockfile(document.fileName, workspaceFolder) : null;
             
             // 解析 dependencies
             if (parsed.dependencies) {
-                this.parseDependencies(parsed.dependencies, packages, document, 'dependencies');
+                this.parseDependencies(parsed.dependencies, packages, document, 'dependencies', lockfile);
             }
             
             // 解析 devDependencies
             if (parsed.devDependencies) {
-                this.parseDependencies(parsed.devDependencies, packages, document, 'devDependencies');
+                this.parseDependencies(parsed.devDependencies, packages, document, 'devDependencies', lockfile);
             }
             
-            // 解析 peerDependencies
+            // 解析 peerDependencies（不会被安装到锁文件中）
             if (parsed.peerDependencies) {
-                this.parseDependencies(parsed.peerDependencies, packages, document, 'peerDependencies');
+                this.parseDependencies(parsed.peerDependencies, packages, document, 'peerDependencies', null);
             }
             
         } catch (error) {
@@ -39,10 +43,23 @@ export class PackageJsonParser implements IPackageParser {
         return packages;
     }
 
-    private parseDependencies(deps: any, packages: PackageInfo[], document: vscode.TextDocument, section: string): void {
+    private parseDependencies(
+        deps: any,
+        packages: PackageInfo[],
+        document: vscode.TextDocument,
+        section: string,
+        lockfile: NpmLockfile | null
+    ): void {
         Object.entries(deps).forEach(([name, version]) => {
             const pkg = this.parsePackage(name, version as string, document, section);
-            if (pkg) packages.push(pkg);
+            if (!pkg) return;
+
+            const lockedVersion = lockfile?.getVersion(name, version as string);
+            if (lockfile && lockedVersion) {
+                pkg.lockedVersion = lockedVersion;
+                pkg.lockfilePath = lockfile.path;
+            }
+            packages.push(pkg);
         });
     }
 
@@ -69,6 +86,7 @@ export class PackageJsonParser implements IPackageParser {
             endChar: lineInfo.endChar,
             isOutdated: false,
             versionConstraint: operator,
+            versionSpec: version.trim(), // 原始范围（如 ">= 1.0.0"、">=1 <2"），更新时按原有写法改写
             filePath: document.fileName
         };
     }
@@ -80,20 +98,21 @@ export class PackageJsonParser implements IPackageParser {
     }
 
     private parseNpmVersion(version: string): { operator: string; cleanVersion: string } {
-        // 处理npm版本格式：^1.0.0, ~1.0.0, >=1.0.0, 1.0.0, latest等
-        const versionRegex = /^([~^>=<]*)(.+)$/;
-        const match = version.match(versionRegex);
+        // 简单范围：单个操作符加完整版本号，如 ^1.0.0, ~1.0.0, >=1.0.0, 1.0.0
+        const trimmed = version.trim();
+        const match = trimmed.match(/^(\^|~>?|[<>]=?|=)?\s*(.+)$/);
         
-        if (match) {
+        if (match && parseSemver(match[2])) {
             return {
                 operator: match[1] || '',
                 cleanVersion: match[2]
             };
         }
         
+        // 复合范围（1.2 - 2.3、>=1 <2、^1 || ^2、1.x、*）和标签（latest）保留完整字符串
         return {
             operator: '',
-            cleanVersion: version
+            cleanVersion: trimmed
         };
     }
 
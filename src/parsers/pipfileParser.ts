@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as TOML from '@iarna/toml';
 import { IPackageParser, PackageInfo } from '../types';
 import { parseVersionSpec } from '../utils';
+import { applyPythonLockfile, readPythonLockfile } from '../pythonLockfile';
 
 export class PipfileParser implements IPackageParser {
     canParse(document: vscode.TextDocument): boolean {
@@ -18,6 +19,11 @@ export class PipfileParser implements IPackageParser {
             // 解析 [packages] 和 [dev-packages]
             this.parsePackageSection(parsed.packages, packages, document);
             this.parsePackageSection(parsed['dev-packages'], packages, document);
+
+            // Pipfile.lock 中记录了实际安装的版本
+            if (document.uri.scheme === 'file') {
+                applyPythonLockfile(packages, readPythonLockfile(document.fileName));
+            }
             
         } catch (error) {
             console.error('Failed to parse Pipfile:', error);
@@ -71,6 +77,7 @@ export class PipfileParser implements IPackageParser {
             endChar: startChar + name.length + versionStr.length,
             isOutdated: false,
             versionConstraint: operator,
+            versionSpec: versionStr && versionStr !== '*' ? versionStr : undefined,
             filePath: document.fileName
         };
     }
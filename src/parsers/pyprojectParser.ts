@@ -2,26 +2,53 @@ import * as vscode from 'vscode';
 import * as TOML from '@iarna/toml';
 import { IPackageParser, PackageInfo } from '../types';
 import { parseVersionSpec, parsePEP508PackageSpec, isValidPythonPackageName } from '../utils';
+import { applyPythonLockfile, readPythonLockfile } from '../pythonLockfile';
+
+/**
+ * 依赖在 pyproject.toml 中的位置，用于定位所在行和标注分组
+ */
+interface DependencyLocation {
+    table: string;  // 所在的表，如 project.optional-dependencies
+    key?: string;   // 表中的数组键，如 test；Poetry 的依赖表由键值对组成，没有数组键
+    group?: string; // 显示在 CodeLens 上的分组标签，主依赖没有分组
+}
+
+// @iarna/toml 实现的是 TOML 0.5，不允许数组中混合内联表和字符串，
+// 解析前把 PEP 735 的 { include-group = "..." } 改写为带前缀的字符串（不改变行号）
+const INCLUDE_GROUP_PATTERN = /\{\s*include-group\s*=\s*("[^"]*"|'[^']*')\s*\}/g;
+const INCLUDE_GROUP_PREFIX = 'include-group:';
 
 export class PyprojectParser implements IPackageParser {
     canParse(document: vscode.TextDocument): boolean {
         return document.fileName.toLowerCase().endsWith('pyproject.toml');
     }
 
-    parse(document: vscode.TextDocument): PackageInfo[] {
+    parse(document: vscode.TextDocument, workspaceFolder?: string): PackageInfo[] {
         const packages: PackageInfo[] = [];
         const content = document.getText();
         
         console.log(`Parsing pyproject.toml: ${document.fileName}`);
         
         try {
-            const parsed = TOML.parse(content);
+            const parsed = TOML.parse(content.replace(INCLUDE_GROUP_PATTERN, (_, name: string) => JSON.stringify(INCLUDE_GROUP_PREFIX + name.slice(1, -1))));
             
-            // 解析PEP 621格式 [project.dependencies]
+            // 解析PEP 621格式 [project.dependencies]、[project.optional-dependencies]
             this.parsePEP621Dependencies(parsed, packages, document);
+
+            // 解析 PEP 735 [dependency-groups] 和 [build-system] requires
+            this.parseDependencyGroups(parsed, packages, document);
+            this.parseBuildSystemRequires(parsed, packages, document);
             
             // 解析Poetry格式 [tool.poetry.dependencies]
             this.parsePoetryDependencies(parsed, packages, document);
+
+            // 解析 uv、PDM、Hatch 的依赖表
+            this.parseToolDependencies(parsed, packages, document);
+
+            // 旁边的锁文件（poetry.lock、pdm.lock、uv.lock）中记录了实际安装的版本
+            if (document.uri.scheme === 'file') {
+                applyPythonLockfile(packages, readPythonLockfile(document.fileName, workspaceFolder));
+            }
             
         } catch (error) {
             console.error('Failed to parse pyproject.toml:', error);
@@ -36,57 +63,147 @@ export class PyprojectParser implements IPackageParser {
         if (!project) return;
 
         // 解析标准依赖
-        const deps = project.dependencies;
-        if (Array.isArray(deps)) {
-            deps.forEach((dep: string) => {
-                const pkg = this.parseDepString(dep, document);
-                if (pkg) packages.push(pkg);
+        this.parseDepArray(project.dependencies, { table: 'project', key: 'dependencies' }, packages, document);
+
+        // 解析 optional-dependencies，每个 extra 一个分组
+        const optionalDeps = project['optional-dependencies'];
+        if (optionalDeps && typeof optionalDeps === 'object') {
+            Object.entries(optionalDeps).forEach(([extra, deps]) => {
+                this.parseDepArray(deps, { table: 'project.optional-dependencies', key: extra, group: `extra: ${extra}` }, packages, document);
             });
         }
 
         // 解析 override-dependencies
-        const overrideDeps = project['override-dependencies'];
-        if (Array.isArray(overrideDeps)) {
-            overrideDeps.forEach((dep: string) => {
-                const pkg = this.parseDepString(dep, document);
-                if (pkg) packages.push(pkg);
-            });
-        }
+        this.parseDepArray(project['override-dependencies'], { table: 'project', key: 'override-dependencies', group: 'override' }, packages, document);
 
         // 解析 dev-dependencies
-        const devDeps = project['dev-dependencies'];
-        if (Array.isArray(devDeps)) {
-            devDeps.forEach((dep: string) => {
-                const pkg = this.parseDepString(dep, document);
-                if (pkg) packages.push(pkg);
-            });
+        this.parseDepArray(project['dev-dependencies'], { table: 'project', key: 'dev-dependencies', group: 'dev' }, packages, document);
+    }
+
+    /**
+     * PEP 735 依赖组：组中的 { include-group = "..." } 引用其他组，被引用组中的依赖在标签中注明被哪些组包含
+     */
+    private parseDependencyGroups(parsed: any, packages: PackageInfo[], document: vscode.TextDocument): void {
+        const groups = parsed['dependency-groups'];
+        if (!groups || typeof groups !== 'object') {
+            return;
         }
+
+        const includedBy = new Map<string, string[]>();
+        Object.entries<any>(groups).forEach(([group, entries]) => {
+            (Array.isArray(entries) ? entries : []).forEach(entry => {
+                if (typeof entry === 'string' && entry.startsWith(INCLUDE_GROUP_PREFIX)) {
+                    const included = entry.slice(INCLUDE_GROUP_PREFIX.length);
+                    includedBy.set(included, [...(includedBy.get(included) || []), group]);
+                }
+            });
+        });
+
+        // 包含关系可以传递（all 包含 dev，dev 包含 test），循环引用时停止
+        const collectIncluders = (group: string, visited: Set<string>): string[] => {
+            return (includedBy.get(group) || []).flatMap(includer => {
+                if (visited.has(includer)) {
+                    return [];
+                }
+                visited.add(includer);
+                return [includer, ...collectIncluders(includer, visited)];
+            });
+        };
+
+        Object.entries<any>(groups).forEach(([group, entries]) => {
+            const includers = collectIncluders(group, new Set([group]));
+            const label = `group: ${group}` + (includers.length ? ` (included in ${includers.join(', ')})` : '');
+            const requirements = Array.isArray(entries)
+                ? entries.filter(entry => typeof entry === 'string' && !entry.startsWith(INCLUDE_GROUP_PREFIX))
+                : [];
+            this.parseDepArray(requirements, { table: 'dependency-groups', key: group, group: label }, packages, document);
+        });
+    }
+
+    private parseBuildSystemRequires(parsed: any, packages: PackageInfo[], document: vscode.TextDocument): void {
+        this.parseDepArray(parsed['build-system']?.requires, { table: 'build-system', key: 'requires', group: 'build-system' }, packages, document);
     }
 
     private parsePoetryDependencies(parsed: any, packages: PackageInfo[], document: vscode.TextDocument): void {
+        const poetry = parsed.tool?.poetry;
+        if (!poetry) {
+            return;
+        }
+
         // 解析 Poetry 主依赖
-        const mainDeps = parsed.tool?.poetry?.dependencies;
-        if (mainDeps && typeof mainDeps === 'object') {
-            this.parsePoetrySection(mainDeps, packages, document);
+        this.parsePoetrySection(poetry.dependencies, { table: 'tool.poetry.dependencies' }, packages, document);
+
+        // 解析旧版开发依赖 [tool.poetry.dev-dependencies]（Poetry 1.2 起等同于 dev 组）
+        this.parsePoetrySection(poetry['dev-dependencies'], { table: 'tool.poetry.dev-dependencies', group: 'group: dev' }, packages, document);
+
+        // 解析所有依赖组 [tool.poetry.group.<组名>.dependencies]
+        const groups = poetry.group;
+        if (groups && typeof groups === 'object') {
+            Object.entries<any>(groups).forEach(([group, settings]) => {
+                this.parsePoetrySection(settings?.dependencies, { table: `tool.poetry.group.${group}.dependencies`, group: `group: ${group}` }, packages, document);
+            });
         }
-        
-        // 解析 Poetry 开发依赖
-        const devDeps = parsed.tool?.poetry?.group?.dev?.dependencies;
-        if (devDeps && typeof devDeps === 'object') {
-            this.parsePoetrySection(devDeps, packages, document);
+    }
+
+    /**
+     * uv 的 dev/override/constraint-dependencies、PDM 的 dev-dependencies 分组和 Hatch 环境的依赖
+     */
+    private parseToolDependencies(parsed: any, packages: PackageInfo[], document: vscode.TextDocument): void {
+        const uv = parsed.tool?.uv;
+        if (uv) {
+            ['dev', 'override', 'constraint'].forEach(kind => {
+                this.parseDepArray(uv[`${kind}-dependencies`], { table: 'tool.uv', key: `${kind}-dependencies`, group: `uv: ${kind}` }, packages, document);
+            });
+        }
+
+        const pdmGroups = parsed.tool?.pdm?.['dev-dependencies'];
+        if (pdmGroups && typeof pdmGroups === 'object') {
+            Object.entries(pdmGroups).forEach(([group, deps]) => {
+                this.parseDepArray(deps, { table: 'tool.pdm.dev-dependencies', key: group, group: `pdm dev: ${group}` }, packages, document);
+            });
+        }
+
+        const hatchEnvs = parsed.tool?.hatch?.envs;
+        if (hatchEnvs && typeof hatchEnvs === 'object') {
+            Object.entries<any>(hatchEnvs).forEach(([env, settings]) => {
+                ['dependencies', 'extra-dependencies'].forEach(key => {
+                    this.parseDepArray(settings?.[key], { table: `tool.hatch.envs.${env}`, key, group: `hatch env: ${env}` }, packages, document);
+                });
+            });
         }
     }
 
-    private parsePoetrySection(deps: any, packages: PackageInfo[], document: vscode.TextDocument): void {
+    /**
+     * 解析 PEP 508 字符串数组，忽略非字符串项
+     */
+    private parseDepArray(deps: any, location: DependencyLocation, packages: PackageInfo[], document: vscode.TextDocument): void {
+        if (!Array.isArray(deps)) {
+            return;
+        }
+        deps.forEach(dep => {
+            if (typeof dep !== 'string') {
+                return;
+            }
+            const pkg = this.parseDepString(dep, document, location);
+            if (pkg) {
+                packages.push(pkg);
+            }
+        });
+    }
+
+    private parsePoetrySection(deps: any, location: DependencyLocation, packages: PackageInfo[], document: vscode.TextDocument): void {
+        if (!deps || typeof deps !== 'object') {
+            return;
+        }
         Object.entries(deps).forEach(([name, version]) => {
             if (name === 'python') return;
             
-            const pkg = this.parsePoetryDep(name, version as any, document);
+            const pkg = this.parsePoetryDep(name, version as any, document, location);
             if (pkg) packages.push(pkg);
         });
     }
 
-    private parseDepString(depString: string, document: vscode.TextDocument): PackageInfo | null {
+    private parseDepString(depString: string, document: vscode.TextDocument, location: DependencyLocation): PackageInfo | null {
         const parsed = parsePEP508PackageSpec(depString);
         if (!parsed) return null;
 
@@ -99,10 +216,10 @@ export class PyprojectParser implements IPackageParser {
         }
         
         const { operator, version } = parseVersionSpec(versionPart);
-        return this.createPackageInfo(fullName, version, operator, document, depString, baseName);
+        return this.createPackageInfo(fullName, version, operator, document, depString, location, baseName, versionPart);
     }
 
-    private parsePoetryDep(name: string, version: any, document: vscode.TextDocument): PackageInfo | null {
+    private parsePoetryDep(name: string, version: any, document: vscode.TextDocument, location: DependencyLocation): PackageInfo | null {
         const basePackageName = name.split('[')[0]; // 提取基础包名
         
         // 验证基础包名格式，过滤掉无效的包名
@@ -124,6 +241,13 @@ export class PyprojectParser implements IPackageParser {
                 // 标准对象格式: package = { version = "^1.0.0", extras = ["extra"] }
                 versionStr = version.version;
                 searchText = `${name} = {`;
+
+                // 展开写法: [tool.poetry.dependencies.package] 表中的 version = "^1.0.0"
+                const subTable = `${location.table}.${name}`;
+                if (document.getText().split('\n').some(line => this.getTableName(line) === subTable)) {
+                    location = { ...location, table: subTable, key: 'version' };
+                    searchText = 'version';
+                }
             } else {
                 // 其他对象格式（如git、path等），无法提取版本信息
                 console.log(`Skipping non-version dependency ${name}: ${JSON.stringify(version)}`);
@@ -136,12 +260,23 @@ export class PyprojectParser implements IPackageParser {
         }
 
         const { operator, version: cleanVersion } = parseVersionSpec(versionStr);
-        return this.createPackageInfo(name, cleanVersion, operator, document, searchText, basePackageName);
+        const pkg = this.createPackageInfo(name, cleanVersion, operator, document, searchText, location, basePackageName, versionStr);
+        pkg.isPoetry = true;
+        return pkg;
     }
 
-    private createPackageInfo(name: string, version: string | null, operator: string, document: vscode.TextDocument, searchText: string, basePackageName?: string): PackageInfo {
+    private createPackageInfo(
+        name: string,
+        version: string | null,
+        operator: string,
+        document: vscode.TextDocument,
+        searchText: string,
+        location: DependencyLocation,
+        basePackageName?: string,
+        versionSpec?: string
+    ): PackageInfo {
         const content = document.getText();
-        const lineIndex = this.findLineIndex(content, searchText);
+        const lineIndex = this.findLineIndex(content, searchText, location);
         const line = content.split('\n')[lineIndex] || '';
         const startChar = line.indexOf(name);
         
@@ -155,13 +290,24 @@ export class PyprojectParser implements IPackageParser {
             endChar: startChar + name.length + (version ? version.length + operator.length : 0),
             isOutdated: false,
             versionConstraint: operator,
+            versionSpec: versionSpec || undefined,
+            group: location.group,
             filePath: document.fileName
         };
     }
 
-    private findLineIndex(content: string, searchText: string): number {
+    /**
+     * 在依赖所在的表（和数组）中查找声明所在行，找不到时在整个文件中查找
+     */
+    private findLineIndex(content: string, searchText: string, location: DependencyLocation): number {
         const lines = content.split('\n');
-        
+        const { start, end } = this.findLocationRange(lines, location);
+        const scopedIndex = this.findLineInLines(lines.slice(start, end), searchText);
+
+        return scopedIndex !== -1 ? start + scopedIndex : Math.max(0, this.findLineInLines(lines, searchText));
+    }
+
+    private findLineInLines(lines: string[], searchText: string): number {
         // 首先尝试精确匹配
         let lineIndex = lines.findIndex(line => line.includes(searchText));
         
@@ -175,8 +321,55 @@ export class PyprojectParser implements IPackageParser {
             });
         }
         
-        return Math.max(0, lineIndex);
+        return lineIndex;
     }
 
+    /**
+     * 依赖所在的行范围：表头之后到下一个表头，指定数组键时为该键所在行到数组闭合的行
+     * 表写成内联形式（如 [project] 中的 optional-dependencies = { ... }）时找不到表头，返回整个文件
+     */
+    private findLocationRange(lines: string[], location: DependencyLocation): { start: number; end: number } {
+        const headerIndex = lines.findIndex(line => this.getTableName(line) === location.table);
+        if (headerIndex === -1) {
+            return { start: 0, end: lines.length };
+        }
+
+        let end = lines.length;
+        for (let i = headerIndex + 1; i < lines.length; i++) {
+            if (this.getTableName(lines[i]) !== null) {
+                end = i;
+                break;
+            }
+        }
+        if (!location.key) {
+            return { start: headerIndex + 1, end };
+        }
 
-}
\ No newline at end of file
+        const escapedKey = location.key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const keyPattern = new RegExp(`^\\s*["']?${escapedKey}["']?\\s*=`);
+        const keyIndex = lines.slice(headerIndex + 1, end).findIndex(line => keyPattern.test(line));
+        if (keyIndex === -1) {
+            return { start: headerIndex + 1, end };
+        }
+
+        // 忽略字符串和注释中的方括号，计算数组的嵌套深度
+        const start = headerIndex + 1 + keyIndex;
+        let depth = 0;
+        for (let i = start; i < end; i++) {
+            const text = lines[i].replace(/"(?:[^"\\]|\\.)*"|'[^']*'/g, '""').replace(/#.*$/, '');
+            depth += (text.match(/\[/g) || []).length - (text.match(/\]/g) || []).length;
+            if (depth <= 0) {
+                return { start, end: i + 1 };
+            }
+        }
+        return { start, end };
+    }
+
+    /**
+     * 表头行对应的表名（去掉方括号、引号和空白），不是表头时返回 null
+     */
+    private getTableName(line: string): string | null {
+        const header = line.match(/^\s*\[\[?\s*([A-Za-z0-9_".-][^\]]*?)\s*\]\]?\s*(#.*)?$/);
+        return header ? header[1].replace(/["'\s]/g, '') : null;
+    }
+}
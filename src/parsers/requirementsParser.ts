@@ -1,6 +1,23 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { IPackageParser, PackageInfo } from '../types';
-import { parseVersionSpec, parsePEP508PackageSpec, isValidPythonPackageName } from '../utils';
+import { parseVersionSpec, parsePEP508PackageSpec, isValidPythonPackageName, normalizePackageName } from '../utils';
+
+/**
+ * requirements 文件中引用的其他文件（-r 包含文件、-c 约束文件）
+ */
+export interface RequirementsReference {
+    kind: 'requirement' | 'constraint';
+    target: string;      // 文件中书写的路径
+    resolvedPath: string; // 相对当前文件解析后的绝对路径
+    line: number;
+    startChar: number;
+    endChar: number;
+}
+
+const REFERENCE_PATTERN = /^(-r|--requirement|-c|--constraint)(?:\s*=\s*|\s+)(\S+)/;
+const INDEX_PATTERN = /^(-i|--index-url|--extra-index-url)(?:\s*=\s*|\s+)(\S+)/;
 
 export class RequirementsParser implements IPackageParser {
     canParse(document: vscode.TextDocument): boolean {
@@ -9,11 +26,39 @@ export class RequirementsParser implements IPackageParser {
     }
 
     parse(document: vscode.TextDocument): PackageInfo[] {
+        const content = document.getText();
+        const packages = this.parseContent(content, document.fileName);
+
+        // 文件中声明的索引按顺序用于查询版本，找不到时回退到默认索引
+        const indexUrls = this.parseIndexUrls(content);
+        if (indexUrls.length > 0) {
+            packages.forEach(pkg => {
+                pkg.indexUrls = indexUrls;
+            });
+        }
+
+        // 应用 -c 约束文件中的版本约束，用于计算 satisfies 版本
+        // 与 pip 一致，-r 包含的文件中的 -c 同样作用于所有依赖
+        const visited = new Set([path.resolve(document.fileName)]);
+        const constraints = new Map<string, string>();
+        this.loadConstraints(content, document.fileName, visited, constraints);
+        this.parseReferences(content, document.fileName)
+            .filter(ref => ref.kind === 'requirement')
+            .forEach(ref => this.collectFile(ref.resolvedPath, visited, [], constraints));
+        this.applyConstraints(packages, constraints);
+
+        return packages;
+    }
+
+    /**
+     * 解析文件内容中的依赖（不跟随 -r/-c 引用）
+     */
+    parseContent(content: string, filePath: string): PackageInfo[] {
         const packages: PackageInfo[] = [];
-        const lines = document.getText().split('\n');
+        const lines = content.split('\n');
 
         lines.forEach((line, lineIndex) => {
-            const packageInfo = this.parseLine(line, lineIndex, document.fileName);
+            const packageInfo = this.parseLine(line, lineIndex, filePath);
             if (packageInfo) {
                 packages.push(packageInfo);
             }
@@ -22,6 +67,141 @@ export class RequirementsParser implements IPackageParser {
         return packages;
     }
 
+    /**
+     * 解析文件中的 -r/--requirement 和 -c/--constraint 引用
+     */
+    parseReferences(content: string, filePath: string): RequirementsReference[] {
+        const references: RequirementsReference[] = [];
+
+        content.split('\n').forEach((line, lineIndex) => {
+            const match = line.trim().match(REFERENCE_PATTERN);
+            if (!match) return;
+
+            const target = match[2];
+            const startChar = line.indexOf(target);
+            references.push({
+                kind: match[1] === '-c' || match[1] === '--constraint' ? 'constraint' : 'requirement',
+                target,
+                resolvedPath: path.resolve(path.dirname(filePath), target),
+                line: lineIndex,
+                startChar,
+                endChar: startChar + target.length
+            });
+        });
+
+        return references;
+    }
+
+    /**
+     * 解析 --index-url / --extra-index-url 选项，--index-url 排在最前面
+     * 支持 pip 的 ${ENV_VAR} 环境变量替换
+     */
+    parseIndexUrls(content: string): string[] {
+        let indexUrl: string | null = null;
+        const extraIndexUrls: string[] = [];
+
+        content.split('\n').forEach(line => {
+            const match = line.trim().match(INDEX_PATTERN);
+            if (!match) return;
+
+            const url = match[2].replace(/\$\{([A-Za-z0-9_]+)\}/g, (_, name) => process.env[name] || '');
+            if (match[1] === '--extra-index-url') {
+                extraIndexUrls.push(url);
+            } else {
+                indexUrl = url;
+            }
+        });
+
+        return indexUrl ? [indexUrl, ...extraIndexUrls] : extraIndexUrls;
+    }
+
+    /**
+     * 读取磁盘上的 requirements 文件，递归跟随 -r 引用，并应用沿途所有 -c 约束文件中的约束
+     * @param visited 已访问的文件（包括约束文件），避免循环引用
+     * @param inheritedIndexUrls 引用方声明的索引，文件自身没有声明索引时使用
+     * @param constraints 引用方已收集的约束，递归时收集到的约束也会加入其中
+     */
+    parseFile(
+        filePath: string,
+        visited: Set<string> = new Set(),
+        inheritedIndexUrls: string[] = [],
+        constraints: Map<string, string> = new Map()
+    ): PackageInfo[] {
+        const packages = this.collectFile(filePath, visited, inheritedIndexUrls, constraints);
+        this.applyConstraints(packages, constraints);
+        return packages;
+    }
+
+    private collectFile(filePath: string, visited: Set<string>, inheritedIndexUrls: string[], constraints: Map<string, string>): PackageInfo[] {
+        const resolved = path.resolve(filePath);
+        if (visited.has(resolved)) return [];
+        visited.add(resolved);
+
+        const content = this.readFile(resolved);
+        if (content === null) return [];
+
+        const declaredIndexUrls = this.parseIndexUrls(content);
+        const indexUrls = declaredIndexUrls.length > 0 ? declaredIndexUrls : inheritedIndexUrls;
+        const packages = this.parseContent(content, resolved);
+        if (indexUrls.length > 0) {
+            packages.forEach(pkg => {
+                pkg.indexUrls = indexUrls;
+            });
+        }
+
+        this.loadConstraints(content, resolved, visited, constraints);
+        this.parseReferences(content, resolved)
+            .filter(ref => ref.kind === 'requirement')
+            .forEach(ref => packages.push(...this.collectFile(ref.resolvedPath, visited, indexUrls, constraints)));
+
+        return packages;
+    }
+
+    /**
+     * 读取文件中 -c 引用的约束文件，同一约束文件只读取一次
+     */
+    private loadConstraints(content: string, filePath: string, visited: Set<string>, constraints: Map<string, string>): void {
+        this.parseReferences(content, filePath)
+            .filter(ref => ref.kind === 'constraint' && !visited.has(ref.resolvedPath))
+            .forEach(ref => {
+                visited.add(ref.resolvedPath);
+                const constraintContent = this.readFile(ref.resolvedPath);
+                if (constraintContent === null) {
+                    return;
+                }
+
+                this.parseContent(constraintContent, ref.resolvedPath).forEach(pkg => {
+                    if (!pkg.versionSpec) {
+                        return;
+                    }
+                    const key = normalizePackageName(pkg.basePackageName || pkg.name);
+                    const existing = constraints.get(key);
+                    constraints.set(key, existing ? `${existing},${pkg.versionSpec}` : pkg.versionSpec);
+                });
+            });
+    }
+
+    private applyConstraints(packages: PackageInfo[], constraints: Map<string, string>): void {
+        if (constraints.size === 0) {
+            return;
+        }
+        packages.forEach(pkg => {
+            const constraint = constraints.get(normalizePackageName(pkg.basePackageName || pkg.name));
+            if (constraint) {
+                pkg.constraintSpec = constraint;
+            }
+        });
+    }
+
+    private readFile(filePath: string): string | null {
+        try {
+            return fs.readFileSync(filePath, 'utf8');
+        } catch (error) {
+            console.log(`Failed to read requirements file ${filePath}:`, error);
+            return null;
+        }
+    }
+
     private parseLine(line: string, lineIndex: number, filePath: string): PackageInfo | null {
         // 清理行内容
         const cleanLine = line.trim();
@@ -60,6 +240,7 @@ export class RequirementsParser implements IPackageParser {
             endChar,
             isOutdated: false,
             versionConstraint: operator,
+            versionSpec: versionPart || undefined,
             filePath
         };
     }
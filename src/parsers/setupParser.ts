@@ -87,6 +87,7 @@ export class SetupParser implements IPackageParser {
             endChar: startChar + packageName.length + versionPart.length,
             isOutdated: false,
             versionConstraint: operator,
+            versionSpec: versionPart || undefined,
             filePath: document.fileName
         };
     }
@@ -0,0 +1,513 @@
+/**
+ * PEP 440 版本解析、规范化、比较与版本说明符匹配
+ * 参考: https://peps.python.org/pep-0440/
+ */
+
+export type PrereleaseLabel = 'a' | 'b' | 'rc';
+
+export interface Pep440Version {
+  epoch: number;
+  release: number[];
+  pre: { label: PrereleaseLabel; number: number } | null;
+  post: number | null;
+  dev: number | null;
+  local: (string | number)[] | null;
+}
+
+// PEP 440 附录中给出的宽松匹配正则（允许 v 前缀、分隔符变体、隐式编号等）
+const VERSION_PATTERN = new RegExp(
+  '^\\s*v?' +
+  '(?:(\\d+)!)?' +                                                    // epoch
+  '(\\d+(?:\\.\\d+)*)' +                                              // release
+  '(?:[-_.]?(alpha|a|beta|b|preview|pre|c|rc)[-_.]?(\\d+)?)?' +       // pre-release
+  '(?:-(\\d+)|[-_.]?(post|rev|r)[-_.]?(\\d+)?)?' +                    // post-release
+  '(?:[-_.]?(dev)[-_.]?(\\d+)?)?' +                                   // dev release
+  '(?:\\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?' +                          // local version
+  '\\s*$',
+  'i'
+);
+
+const PRE_LABELS: { [label: string]: PrereleaseLabel } = {
+  alpha: 'a',
+  a: 'a',
+  beta: 'b',
+  b: 'b',
+  c: 'rc',
+  pre: 'rc',
+  preview: 'rc',
+  rc: 'rc'
+};
+
+const PRE_ORDER: { [label in PrereleaseLabel]: number } = { a: 0, b: 1, rc: 2 };
+
+/**
+ * 解析 PEP 440 版本号
+ * @returns 解析结果，无法解析时返回 null
+ */
+export function parsePep440(version: string): Pep440Version | null {
+  if (!version) {
+    return null;
+  }
+
+  const match = version.match(VERSION_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, epoch, release, preLabel, preNumber, implicitPost, postLabel, postNumber, devLabel, devNumber, local] = match;
+
+  let post: number | null = null;
+  if (implicitPost !== undefined) {
+    post = Number(implicitPost);
+  } else if (postLabel) {
+    post = Number(postNumber || 0);
+  }
+
+  return {
+    epoch: Number(epoch || 0),
+    release: release.split('.').map(Number),
+    pre: preLabel ? { label: PRE_LABELS[preLabel.toLowerCase()], number: Number(preNumber || 0) } : null,
+    post,
+    dev: devLabel ? Number(devNumber || 0) : null,
+    local: local
+      ? local.toLowerCase().split(/[-_.]/).map(part => /^\d+$/.test(part) ? Number(part) : part)
+      : null
+  };
+}
+
+/**
+ * 检查字符串是否为合法的 PEP 440 版本
+ */
+export function isValidPep440(version: string): boolean {
+  return parsePep440(version) !== null;
+}
+
+/**
+ * 将版本号转换为规范形式，例如 "1.0-RC.1" -> "1.0rc1"
+ */
+export function normalizePep440(version: string | Pep440Version): string | null {
+  const parsed = typeof version === 'string' ? parsePep440(version) : version;
+  if (!parsed) {
+    return null;
+  }
+
+  let result = parsed.epoch ? `${parsed.epoch}!` : '';
+  result += parsed.release.join('.');
+  if (parsed.pre) {
+    result += `${parsed.pre.label}${parsed.pre.number}`;
+  }
+  if (parsed.post !== null) {
+    result += `.post${parsed.post}`;
+  }
+  if (parsed.dev !== null) {
+    result += `.dev${parsed.dev}`;
+  }
+  if (parsed.local) {
+    result += `+${parsed.local.join('.')}`;
+  }
+  return result;
+}
+
+/**
+ * 是否为预发布版本（包含 a/b/rc 或 dev 段）
+ */
+export function isPep440Prerelease(version: string | Pep440Version): boolean {
+  const parsed = typeof version === 'string' ? parsePep440(version) : version;
+  return !!parsed && (parsed.pre !== null || parsed.dev !== null);
+}
+
+/**
+ * 是否为后发布版本（包含 post 段）
+ */
+export function isPep440Postrelease(version: string | Pep440Version): boolean {
+  const parsed = typeof version === 'string' ? parsePep440(version) : version;
+  return !!parsed && parsed.post !== null;
+}
+
+/**
+ * 去掉本地版本标签后的公开版本
+ */
+export function publicVersion(version: Pep440Version): Pep440Version {
+  return { ...version, local: null };
+}
+
+/**
+ * 去掉 pre/post/dev/local 后只保留 epoch 和 release 的基础版本
+ */
+export function baseVersion(version: Pep440Version): Pep440Version {
+  return { epoch: version.epoch, release: version.release, pre: null, post: null, dev: null, local: null };
+}
+
+/**
+ * 按 PEP 440 规则比较两个版本
+ * @returns -1 if a < b, 0 if equal, 1 if a > b；任一版本无法解析时返回 null
+ */
+export function comparePep440(a: string | Pep440Version, b: string | Pep440Version): number | null {
+  const left = typeof a === 'string' ? parsePep440(a) : a;
+  const right = typeof b === 'string' ? parsePep440(b) : b;
+  if (!left || !right) {
+    return null;
+  }
+
+  return compareParsed(left, right);
+}
+
+function compareParsed(a: Pep440Version, b: Pep440Version): number {
+  if (a.epoch !== b.epoch) {
+    return a.epoch < b.epoch ? -1 : 1;
+  }
+
+  // release 段比较时忽略末尾的 0（1.0 == 1.0.0）
+  const releaseCmp = compareNumberArrays(a.release, b.release);
+  if (releaseCmp !== 0) {
+    return releaseCmp;
+  }
+
+  const preCmp = compareNumbers(preKey(a), preKey(b));
+  if (preCmp !== 0) {
+    return preCmp;
+  }
+
+  const postCmp = compareNumbers(a.post ?? -Infinity, b.post ?? -Infinity);
+  if (postCmp !== 0) {
+    return postCmp;
+  }
+
+  const devCmp = compareNumbers(a.dev ?? Infinity, b.dev ?? Infinity);
+  if (devCmp !== 0) {
+    return devCmp;
+  }
+
+  return compareLocal(a.local, b.local);
+}
+
+function preKey(version: Pep440Version): number {
+  // 只有 dev 段的版本（1.0.dev1）排在所有预发布版本之前
+  if (!version.pre && version.post === null && version.dev !== null) {
+    return -Infinity;
+  }
+  // 没有预发布段的版本排在所有预发布版本之后
+  if (!version.pre) {
+    return Infinity;
+  }
+  // 预发布编号不会超过这个量级，合并成一个可比较的数字
+  return PRE_ORDER[version.pre.label] * 1e9 + version.pre.number;
+}
+
+function compareNumbers(a: number, b: number): number {
+  if (a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+}
+
+function compareNumberArrays(a: number[], b: number[]): number {
+  const maxLength = Math.max(a.length, b.length);
+  for (let i = 0; i < maxLength; i++) {
+    const cmp = compareNumbers(a[i] || 0, b[i] || 0);
+    if (cmp !== 0) {
+      return cmp;
+    }
+  }
+  return 0;
+}
+
+function compareLocal(a: (string | number)[] | null, b: (string | number)[] | null): number {
+  if (!a && !b) {
+    return 0;
+  }
+  if (!a) {
+    return -1;
+  }
+  if (!b) {
+    return 1;
+  }
+
+  const minLength = Math.min(a.length, b.length);
+  for (let i = 0; i < minLength; i++) {
+    const left = a[i];
+    const right = b[i];
+    if (left === right) {
+      continue;
+    }
+
+    // 数字段大于字母段，字母段按字典序比较
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left < right ? -1 : 1;
+    }
+    if (typeof left === 'number') {
+      return 1;
+    }
+    if (typeof right === 'number') {
+      return -1;
+    }
+    return left < right ? -1 : 1;
+  }
+  return compareNumbers(a.length, b.length);
+}
+
+/**
+ * 检查版本是否满足单个 PEP 440 版本说明符子句
+ * @param version 候选版本
+ * @param operator 比较操作符（==, !=, <=, >=, <, >, ~=, ===）
+ * @param specVersion 说明符中的版本，== 和 != 可带 .* 通配后缀
+ */
+export function matchesPep440Specifier(version: string, operator: string, specVersion: string): boolean {
+  if (operator === '===') {
+    return version.trim().toLowerCase() === specVersion.trim().toLowerCase();
+  }
+
+  const candidate = parsePep440(version);
+  if (!candidate) {
+    return false;
+  }
+
+  const spec = specVersion.trim();
+  const isWildcard = spec.endsWith('.*');
+
+  switch (operator) {
+    case '':
+    case '==':
+      return isWildcard ? matchesPrefix(candidate, spec.slice(0, -2)) : matchesExact(candidate, spec);
+    case '!=':
+      return isWildcard ? !matchesPrefix(candidate, spec.slice(0, -2)) : !matchesExact(candidate, spec);
+    case '~=':
+      return matchesCompatible(candidate, spec);
+  }
+
+  const target = parsePep440(spec);
+  if (!target) {
+    return false;
+  }
+
+  const cmp = compareParsed(publicVersion(candidate), target);
+  switch (operator) {
+    case '<=':
+      return cmp <= 0;
+    case '>=':
+      return cmp >= 0;
+    case '<':
+      // <V 不允许匹配 V 自身的预发布版本，除非 V 本身是预发布版本
+      if (cmp >= 0) {
+        return false;
+      }
+      if (!isPep440Prerelease(target) && isPep440Prerelease(candidate) &&
+          compareParsed(baseVersion(candidate), baseVersion(target)) === 0) {
+        return false;
+      }
+      return true;
+    case '>':
+      // >V 不允许匹配 V 的后发布版本，除非 V 本身是后发布版本
+      if (cmp <= 0) {
+        return false;
+      }
+      if (target.post === null && candidate.post !== null &&
+          compareParsed(baseVersion(candidate), baseVersion(target)) === 0) {
+        return false;
+      }
+      return true;
+    default:
+      return false;
+  }
+}
+
+function matchesExact(candidate: Pep440Version, spec: string): boolean {
+  const target = parsePep440(spec);
+  if (!target) {
+    return false;
+  }
+
+  // 说明符不带本地版本时，忽略候选版本的本地版本标签
+  const left = target.local ? candidate : publicVersion(candidate);
+  return compareParsed(left, target) === 0;
+}
+
+function matchesPrefix(candidate: Pep440Version, prefix: string): boolean {
+  const target = parsePep440(prefix);
+  if (!target) {
+    return false;
+  }
+  if (candidate.epoch !== target.epoch) {
+    return false;
+  }
+
+  if (!target.pre && target.post === null && target.dev === null) {
+    // 只有 release 段的前缀：候选版本补零后逐段比较
+    return target.release.every((segment, i) => (candidate.release[i] || 0) === segment);
+  }
+
+  // 带 pre/post/dev 的前缀：按规范化字符串比较
+  const normalizedCandidate = normalizePep440(publicVersion(candidate)) || '';
+  const normalizedPrefix = normalizePep440(target) || '';
+  return normalizedCandidate === normalizedPrefix ||
+    normalizedCandidate.startsWith(`${normalizedPrefix}.`);
+}
+
+function matchesCompatible(candidate: Pep440Version, spec: string): boolean {
+  const target = parsePep440(spec);
+  if (!target || target.release.length < 2) {
+    return false;
+  }
+
+  // ~=V.N 等价于 >=V.N, ==V.*
+  if (compareParsed(publicVersion(candidate), target) < 0) {
+    return false;
+  }
+  const prefix = target.release.slice(0, -1);
+  if (candidate.epoch !== target.epoch) {
+    return false;
+  }
+  return prefix.every((segment, i) => (candidate.release[i] || 0) === segment);
+}
+
+export interface Pep440Specifier {
+  operator: string;
+  version: string;
+}
+
+const SPECIFIER_PATTERN = /^\s*(~=|===|==|!=|<=|>=|<|>)\s*([^\s,;]+)\s*$/;
+
+/**
+ * 解析逗号分隔的版本说明符集合，例如 ">=1.4,<2.0,!=1.5.1"
+ * @returns 子句列表，空字符串返回空数组，任一子句无法解析时返回 null
+ */
+export function parsePep440SpecifierSet(spec: string): Pep440Specifier[] | null {
+  // 兼容旧式写法 "name (>=1.0,<2.0)"
+  const trimmed = spec.trim().replace(/^\((.*)\)$/, '$1').trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  const specifiers: Pep440Specifier[] = [];
+  for (const clause of trimmed.split(',')) {
+    const match = clause.match(SPECIFIER_PATTERN);
+    if (!match) {
+      return null;
+    }
+    specifiers.push({ operator: match[1], version: match[2] });
+  }
+
+  return specifiers;
+}
+
+/**
+ * 检查版本是否满足说明符集合中的所有子句
+ * @param includePrereleases 为 false 时，只有说明符本身提到预发布版本才允许匹配预发布版本
+ */
+export function matchesPep440SpecifierSet(
+  version: string,
+  specifiers: Pep440Specifier[],
+  includePrereleases: boolean = false
+): boolean {
+  if (!isValidPep440(version)) {
+    return false;
+  }
+
+  if (!includePrereleases && isPep440Prerelease(version) &&
+      !specifiers.some(s => isPep440Prerelease(s.version.replace(/\.\*$/, '')))) {
+    return false;
+  }
+
+  return specifiers.every(s => matchesPep440Specifier(version, s.operator, s.version));
+}
+
+/**
+ * 解析 Poetry 版本约束并转换为 PEP 440 说明符
+ * 支持 ^1.2.3、~1.2、*、1.2.*、1.2.3（等同于 ==1.2.3）、逗号或空格分隔的子句，以及 || 连接的多个备选约束
+ * 参考: https://python-poetry.org/docs/dependency-specification/
+ * @returns 备选约束列表，满足任一备选中的所有子句即满足约束；无法解析时返回 null
+ */
+export function parsePoetryConstraint(constraint: string): Pep440Specifier[][] | null {
+  const alternatives: Pep440Specifier[][] = [];
+
+  for (const alternative of constraint.split('||')) {
+    const clauses = splitPoetryClauses(alternative);
+    if (!clauses.length) {
+      return null;
+    }
+
+    const specifiers: Pep440Specifier[] = [];
+    for (const clause of clauses) {
+      const converted = convertPoetryClause(clause);
+      if (!converted) {
+        return null;
+      }
+      specifiers.push(...converted);
+    }
+    alternatives.push(specifiers);
+  }
+
+  return alternatives;
+}
+
+/**
+ * 拆分 Poetry 约束中的子句：逗号或空格分隔，操作符与版本之间可以有空格（">= 1.2"）
+ */
+export function splitPoetryClauses(constraint: string): string[] {
+  return constraint.trim().split(/\s*,\s*|\s+(?![\d*])/).filter(Boolean);
+}
+
+function convertPoetryClause(clause: string): Pep440Specifier[] | null {
+  const match = clause.match(/^(\^|~=|~|===|==|!=|>=|<=|>|<)?\s*(\S+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const operator = match[1] || '';
+  const version = match[2];
+  if (version === '*') {
+    return ['', '=='].includes(operator) ? [] : null;
+  }
+  if (operator === '===') {
+    return [{ operator, version }];
+  }
+
+  // 1.2.* 只能用于 == 和 !=，不带操作符时按 == 处理
+  if (version.endsWith('.*')) {
+    return ['', '==', '!='].includes(operator) && isValidPep440(version.slice(0, -2))
+      ? [{ operator: operator || '==', version }]
+      : null;
+  }
+
+  const parsed = parsePep440(version);
+  if (!parsed) {
+    return null;
+  }
+
+  switch (operator) {
+    case '^':
+      return [{ operator: '>=', version }, { operator: '<', version: getPoetryCaretUpperBound(parsed.release) }];
+    case '~':
+      // ~1 允许次版本变化，~1.2 和 ~1.2.3 只允许修订版本变化
+      return [{ operator: '>=', version }, { operator: '<', version: bumpRelease(parsed.release, parsed.release.length === 1 ? 0 : 1) }];
+    case '':
+      return [{ operator: '==', version }];
+    default:
+      return [{ operator, version }];
+  }
+}
+
+/**
+ * Poetry ^ 约束的上限：不改变最左边的非零版本段
+ * ^1.2.3 -> <2.0.0、^0.2.3 -> <0.3.0、^0.0.3 -> <0.0.4、^0.0 -> <0.1、^0 -> <1
+ */
+function getPoetryCaretUpperBound(release: number[]): string {
+  const [major, minor, patch] = release;
+  if (major > 0 || minor === undefined) {
+    return bumpRelease(release, 0);
+  }
+  if (minor > 0 || patch === undefined) {
+    return bumpRelease(release, 1);
+  }
+  return bumpRelease(release, 2);
+}
+
+function bumpRelease(release: number[], index: number): string {
+  const length = Math.max(release.length, index + 1);
+  return Array.from({ length }, (_, i) => {
+    if (i < index) {
+      return release[i];
+    }
+    return i === index ? (release[i] || 0) + 1 : 0;
+  }).join('.');
+}
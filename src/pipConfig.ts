@@ -0,0 +1,189 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * pip 配置中与索引相关的字段
+ */
+export interface PipIndexConfig {
+    indexUrl?: string;
+    extraIndexUrls: string[];
+}
+
+/**
+ * 索引认证信息：token 使用 Bearer，其余使用 Basic
+ */
+export interface IndexCredentials {
+    username?: string;
+    password?: string;
+    token?: string;
+}
+
+type Env = { [name: string]: string | undefined };
+
+/**
+ * 解析 pip.conf / pip.ini，[install] 中的配置覆盖 [global]
+ * extra-index-url 支持以空白或缩进续行分隔的多个地址
+ */
+export function parsePipConfig(content: string): PipIndexConfig {
+    const sections: { [section: string]: { [key: string]: string } } = {};
+    let section = '';
+    let lastKey: string | null = null;
+
+    content.split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#') || line.startsWith(';')) {
+            return;
+        }
+
+        const sectionMatch = line.match(/^\[([^\]]+)\]$/);
+        if (sectionMatch) {
+            section = sectionMatch[1].trim().toLowerCase();
+            lastKey = null;
+            return;
+        }
+
+        const values = sections[section] = sections[section] || {};
+        // 缩进的行是上一个键的续行
+        if (/^\s/.test(rawLine) && lastKey) {
+            values[lastKey] = `${values[lastKey]} ${line}`.trim();
+            return;
+        }
+
+        const match = line.match(/^([^=:]+?)\s*[=:]\s*(.*)$/);
+        if (!match) {
+            return;
+        }
+        lastKey = match[1].toLowerCase().replace(/_/g, '-');
+        values[lastKey] = match[2];
+    });
+
+    const merged = { ...sections.global, ...sections.install };
+    return {
+        indexUrl: merged['index-url'] || undefined,
+        extraIndexUrls: splitUrls(merged['extra-index-url'])
+    };
+}
+
+/**
+ * 按 pip 的加载顺序（全局、用户、virtualenv）返回配置文件路径，后面的覆盖前面的
+ * 设置了 PIP_CONFIG_FILE 时最后加载该文件
+ */
+export function getPipConfigPaths(env: Env = process.env): string[] {
+    const home = os.homedir();
+    const paths: string[] = [];
+
+    if (process.platform === 'win32') {
+        paths.push(path.join(env.PROGRAMDATA || 'C:\\ProgramData', 'pip', 'pip.ini'));
+        paths.push(path.join(home, 'pip', 'pip.ini'));
+        if (env.APPDATA) {
+            paths.push(path.join(env.APPDATA, 'pip', 'pip.ini'));
+        }
+    } else {
+        (env.XDG_CONFIG_DIRS || '/etc/xdg').split(':').forEach(dir => paths.push(path.join(dir, 'pip', 'pip.conf')));
+        paths.push('/etc/pip.conf');
+        paths.push(path.join(home, '.pip', 'pip.conf'));
+        if (process.platform === 'darwin') {
+            paths.push(path.join(home, 'Library', 'Application Support', 'pip', 'pip.conf'));
+        }
+        paths.push(path.join(env.XDG_CONFIG_HOME || path.join(home, '.config'), 'pip', 'pip.conf'));
+    }
+
+    if (env.VIRTUAL_ENV) {
+        paths.push(path.join(env.VIRTUAL_ENV, process.platform === 'win32' ? 'pip.ini' : 'pip.conf'));
+    }
+    if (env.PIP_CONFIG_FILE && env.PIP_CONFIG_FILE !== os.devNull) {
+        paths.push(env.PIP_CONFIG_FILE);
+    }
+
+    return paths;
+}
+
+/**
+ * 读取并合并 pip 配置，PIP_INDEX_URL / PIP_EXTRA_INDEX_URL 环境变量优先级最高
+ */
+export function loadPipConfig(env: Env = process.env): PipIndexConfig {
+    const result: PipIndexConfig = { extraIndexUrls: [] };
+
+    getPipConfigPaths(env).forEach(filePath => {
+        const content = readFile(filePath);
+        if (content === null) {
+            return;
+        }
+
+        const config = parsePipConfig(content);
+        if (config.indexUrl) {
+            result.indexUrl = config.indexUrl;
+        }
+        if (config.extraIndexUrls.length) {
+            result.extraIndexUrls = config.extraIndexUrls;
+        }
+    });
+
+    if (env.PIP_INDEX_URL) {
+        result.indexUrl = env.PIP_INDEX_URL;
+    }
+    if (env.PIP_EXTRA_INDEX_URL) {
+        result.extraIndexUrls = splitUrls(env.PIP_EXTRA_INDEX_URL);
+    }
+
+    return result;
+}
+
+/**
+ * 解析 netrc 文件，返回 machine -> 认证信息，default 条目使用空字符串作为键
+ */
+export function parseNetrc(content: string): Map<string, IndexCredentials> {
+    const machines = new Map<string, IndexCredentials>();
+    const tokens = content
+        .split(/\r?\n/)
+        .filter(line => !line.trim().startsWith('#'))
+        .join(' ')
+        .split(/\s+/)
+        .filter(Boolean);
+
+    let current: IndexCredentials | null = null;
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token === 'machine' || token === 'default') {
+            current = {};
+            machines.set(token === 'machine' ? tokens[++i] || '' : '', current);
+        } else if (token === 'macdef') {
+            // 宏定义不影响认证，直接忽略后续内容
+            break;
+        } else if (current && (token === 'login' || token === 'password')) {
+            current[token === 'login' ? 'username' : 'password'] = tokens[++i];
+        }
+    }
+
+    return machines;
+}
+
+/**
+ * 读取 NETRC 环境变量指定的文件或用户主目录下的 .netrc（Windows 上为 _netrc）
+ */
+export function loadNetrc(env: Env = process.env): Map<string, IndexCredentials> {
+    const candidates = env.NETRC
+        ? [env.NETRC]
+        : [path.join(os.homedir(), '.netrc'), path.join(os.homedir(), '_netrc')];
+
+    for (const filePath of candidates) {
+        const content = readFile(filePath);
+        if (content !== null) {
+            return parseNetrc(content);
+        }
+    }
+    return new Map();
+}
+
+function splitUrls(value: string | undefined): string[] {
+    return (value || '').split(/\s+/).filter(Boolean);
+}
+
+function readFile(filePath: string): string | null {
+    try {
+        return fs.readFileSync(filePath, 'utf8');
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,286 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as TOML from '@iarna/toml';
+import { PackageInfo } from './types';
+import { getAncestorDirs, normalizePackageName } from './utils';
+
+export type PythonLockfileKind = 'poetry' | 'pdm' | 'uv' | 'pipenv';
+
+/**
+ * 按优先级排列的 Python 锁文件名，前三个对应 pyproject.toml，Pipfile.lock 对应 Pipfile
+ */
+export const PYTHON_LOCKFILE_NAMES: { fileName: string; kind: PythonLockfileKind }[] = [
+    { fileName: 'poetry.lock', kind: 'poetry' },
+    { fileName: 'pdm.lock', kind: 'pdm' },
+    { fileName: 'uv.lock', kind: 'uv' },
+    { fileName: 'Pipfile.lock', kind: 'pipenv' }
+];
+
+export interface PythonLockfile {
+    kind: PythonLockfileKind;
+    path: string;
+    versions: Map<string, string>; // 规范化包名 -> 锁定的版本
+    contentHash: string | null;    // 锁文件记录的清单内容哈希（uv.lock 没有）
+}
+
+const DEFAULT_PIPENV_SOURCE = { name: 'pypi', url: 'https://pypi.org/simple', verify_ssl: true };
+const PIPFILE_SECTIONS = new Set(['source', 'packages', 'dev-packages', 'requires', 'scripts', 'pipenv', 'pipfile']);
+
+const cache = new Map<string, { mtimeMs: number; lockfile: PythonLockfile | null }>();
+
+// 按清单文件缓存锁文件的查找结果，锁文件创建或删除时由 FileWatcher 清除
+const locations = new Map<string, { path: string; kind: PythonLockfileKind } | null>();
+
+/**
+ * 清除锁文件查找结果的缓存
+ */
+export function clearPythonLockfileLocations(): void {
+    locations.clear();
+}
+
+/**
+ * 查找并解析清单文件对应的锁文件，按锁文件的修改时间缓存解析结果
+ * pyproject.toml 依次查找同目录的 poetry.lock、pdm.lock、uv.lock（uv workspace 的锁文件在上级目录）
+ * @param stopDirectory 向上查找 uv.lock 到此目录（通常是工作区目录）为止
+ */
+export function readPythonLockfile(manifestPath: string, stopDirectory?: string): PythonLockfile | null {
+    const locationKey = `${manifestPath}|${stopDirectory || ''}`;
+    if (!locations.has(locationKey)) {
+        locations.set(locationKey, findPythonLockfile(manifestPath, stopDirectory));
+    }
+    const located = locations.get(locationKey);
+    if (!located) {
+        return null;
+    }
+
+    let stat: fs.Stats;
+    try {
+        stat = fs.statSync(located.path);
+    } catch {
+        return null;
+    }
+
+    const cached = cache.get(located.path);
+    if (cached && cached.mtimeMs === stat.mtimeMs) {
+        return cached.lockfile;
+    }
+
+    let lockfile: PythonLockfile | null = null;
+    try {
+        lockfile = parsePythonLockfile(located.kind, located.path, fs.readFileSync(located.path, 'utf8'));
+    } catch (error) {
+        console.error(`Failed to parse lockfile ${located.path}:`, (error as Error).message);
+    }
+    cache.set(located.path, { mtimeMs: stat.mtimeMs, lockfile });
+    return lockfile;
+}
+
+/**
+ * 为解析出的依赖填入锁文件中的版本
+ */
+export function applyPythonLockfile(packages: PackageInfo[], lockfile: PythonLockfile | null): void {
+    if (!lockfile) {
+        return;
+    }
+    packages.forEach(pkg => {
+        const lockedVersion = lockfile.versions.get(normalizePackageName(pkg.basePackageName || pkg.name.split('[')[0]));
+        if (lockedVersion) {
+            pkg.lockedVersion = lockedVersion;
+            pkg.lockfilePath = lockfile.path;
+        }
+    });
+}
+
+export function parsePythonLockfile(kind: PythonLockfileKind, lockfilePath: string, content: string): PythonLockfile {
+    const versions = new Map<string, string>();
+
+    if (kind === 'pipenv') {
+        const data = JSON.parse(content);
+        // develop 在前，default 中的版本覆盖 develop
+        ['develop', 'default'].forEach(section => {
+            Object.entries<any>(data[section] || {}).forEach(([name, entry]) => {
+                const version = typeof entry?.version === 'string' ? entry.version.replace(/^===?/, '') : '';
+                if (version) {
+                    versions.set(normalizePackageName(name), version);
+                }
+            });
+        });
+        return { kind, path: lockfilePath, versions, contentHash: data._meta?.hash?.sha256 || null };
+    }
+
+    const data: any = TOML.parse(content);
+    (Array.isArray(data.package) ? data.package : []).forEach((entry: any) => {
+        const key = typeof entry?.name === 'string' ? normalizePackageName(entry.name) : '';
+        // 同一个包因环境标记被锁定为多个版本时保留第一个
+        if (key && typeof entry.version === 'string' && !versions.has(key)) {
+            versions.set(key, entry.version);
+        }
+    });
+
+    let contentHash: string | null = null;
+    if (kind === 'poetry') {
+        contentHash = data.metadata?.['content-hash'] || null;
+    } else if (kind === 'pdm') {
+        // 形如 sha256:<hex>
+        const hash = data.metadata?.content_hash;
+        contentHash = typeof hash === 'string' && hash.startsWith('sha256:') ? hash.slice('sha256:'.length) : null;
+    }
+    return { kind, path: lockfilePath, versions, contentHash };
+}
+
+/**
+ * 清单内容与锁文件记录的哈希不一致（清单修改后没有重新锁定）
+ * 无法计算时（uv.lock、清单解析失败）返回 false
+ */
+export function isLockfileOutdated(lockfile: PythonLockfile, manifestContent: string): boolean {
+    if (!lockfile.contentHash) {
+        return false;
+    }
+    const hash = computeContentHash(lockfile.kind, manifestContent);
+    return hash !== null && hash !== lockfile.contentHash;
+}
+
+/**
+ * 按各工具的算法计算清单的内容哈希：对相关字段做 Python json.dumps(sort_keys=True) 后取 sha256
+ */
+export function computeContentHash(kind: PythonLockfileKind, manifestContent: string): string | null {
+    let manifest: any;
+    try {
+        manifest = TOML.parse(manifestContent);
+    } catch {
+        return null;
+    }
+
+    switch (kind) {
+        case 'poetry':
+            return sha256(toPythonJson(getPoetryHashContent(manifest), ', ', ': '));
+        case 'pdm':
+            return sha256(toPythonJson(getPdmHashContent(manifest), ', ', ': '));
+        case 'pipenv':
+            return sha256(toPythonJson(getPipenvHashContent(manifest), ',', ':'));
+        default:
+            return null;
+    }
+}
+
+function findPythonLockfile(manifestPath: string, stopDirectory?: string): { path: string; kind: PythonLockfileKind } | null {
+    const directory = path.dirname(manifestPath);
+    if (path.basename(manifestPath).toLowerCase() === 'pipfile') {
+        const candidate = path.join(directory, 'Pipfile.lock');
+        return fs.existsSync(candidate) ? { path: candidate, kind: 'pipenv' } : null;
+    }
+
+    for (const { fileName, kind } of PYTHON_LOCKFILE_NAMES.filter(lockfile => lockfile.kind !== 'pipenv')) {
+        const candidate = path.join(directory, fileName);
+        if (fs.existsSync(candidate)) {
+            return { path: candidate, kind };
+        }
+    }
+
+    for (const dir of getAncestorDirs(directory, stopDirectory).slice(1)) {
+        const candidate = path.join(dir, 'uv.lock');
+        if (fs.existsSync(candidate)) {
+            return { path: candidate, kind: 'uv' };
+        }
+    }
+    return null;
+}
+
+/**
+ * Poetry：[tool.poetry] 中的 dependencies、source、extras、dev-dependencies、group，
+ * Poetry 2 使用 [project] 声明依赖时还包括 requires-python、dependencies、optional-dependencies
+ */
+function getPoetryHashContent(manifest: any): any {
+    const legacyKeys = ['dependencies', 'source', 'extras', 'dev-dependencies'];
+    const relevantKeys = [...legacyKeys, 'group'];
+    const project = manifest.project || {};
+    const poetry = manifest.tool?.poetry || {};
+
+    const projectContent: { [key: string]: any } = {};
+    ['requires-python', 'dependencies', 'optional-dependencies'].forEach(key => {
+        if (project[key] !== undefined) {
+            projectContent[key] = project[key];
+        }
+    });
+    const hasProjectContent = Object.keys(projectContent).length > 0;
+
+    const poetryContent: { [key: string]: any } = {};
+    relevantKeys.forEach(key => {
+        const value = poetry[key];
+        if (value === undefined && (!legacyKeys.includes(key) || hasProjectContent)) {
+            return;
+        }
+        poetryContent[key] = value === undefined ? null : value;
+    });
+
+    return hasProjectContent ? { project: projectContent, tool: { poetry: poetryContent } } : poetryContent;
+}
+
+/**
+ * PDM：sources、dependencies、dev-dependencies、optional-dependencies、requires-python、resolution
+ */
+function getPdmHashContent(manifest: any): any {
+    const project = manifest.project || {};
+    const settings = manifest.tool?.pdm || {};
+    return {
+        'sources': settings.source || [],
+        'dependencies': project.dependencies || [],
+        'dev-dependencies': { ...(settings['dev-dependencies'] || {}), ...(manifest['dependency-groups'] || {}) },
+        'optional-dependencies': project['optional-dependencies'] || {},
+        'requires-python': project['requires-python'] || '',
+        'resolution': settings.resolution || {}
+    };
+}
+
+/**
+ * Pipenv：sources 和 requires 放在 _meta 中，packages/dev-packages 对应 default/develop，以及自定义的依赖分类
+ */
+function getPipenvHashContent(manifest: any): any {
+    const content: { [key: string]: any } = {
+        _meta: {
+            sources: manifest.source || [DEFAULT_PIPENV_SOURCE],
+            requires: manifest.requires || {}
+        },
+        default: manifest.packages || {},
+        develop: manifest['dev-packages'] || {}
+    };
+    Object.keys(manifest).forEach(key => {
+        if (!PIPFILE_SECTIONS.has(key) && !['default', 'develop'].includes(key)) {
+            content[key] = manifest[key];
+        }
+    });
+    return content;
+}
+
+/**
+ * 与 Python 的 json.dumps(value, sort_keys=True, separators=...) 输出一致（ensure_ascii）
+ */
+export function toPythonJson(value: any, itemSeparator: string, keySeparator: string): string {
+    if (value === null || value === undefined) {
+        return 'null';
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'true' : 'false';
+    }
+    if (typeof value === 'number' || typeof value === 'bigint') {
+        return String(value);
+    }
+    if (typeof value === 'string') {
+        return JSON.stringify(value).replace(/[\u0080-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+    }
+    if (value instanceof Date) {
+        return toPythonJson(value.toISOString(), itemSeparator, keySeparator);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(item => toPythonJson(item, itemSeparator, keySeparator)).join(itemSeparator)}]`;
+    }
+    const entries = Object.keys(value).sort().map(key =>
+        `${toPythonJson(key, itemSeparator, keySeparator)}${keySeparator}${toPythonJson(value[key], itemSeparator, keySeparator)}`
+    );
+    return `{${entries.join(itemSeparator)}}`;
+}
+
+function sha256(content: string): string {
+    return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
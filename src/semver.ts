@@ -0,0 +1,448 @@
+/**
+ * npm (node-semver) 版本解析与范围匹配
+ * 参考: https://github.com/npm/node-semver#ranges
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+  build: string[];
+}
+
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '=' | '';
+  version: SemVer | null; // null 表示任意版本 (*)
+}
+
+interface PartialVersion {
+  major: number | null;
+  minor: number | null;
+  patch: number | null;
+  prerelease: (string | number)[];
+}
+
+const IDENTIFIERS = '[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*';
+const FULL_PATTERN = new RegExp(`^\\s*[=v]*\\s*(\\d+)\\.(\\d+)\\.(\\d+)(?:-?(${IDENTIFIERS}))?(?:\\+(${IDENTIFIERS}))?\\s*$`);
+const XR = '[xX*]|\\d+';
+const PARTIAL_PATTERN = new RegExp(
+  `^[=v]*(${XR})(?:\\.(${XR})(?:\\.(${XR})(?:-?(${IDENTIFIERS}))?(?:\\+${IDENTIFIERS})?)?)?$`
+);
+const HYPHEN_PATTERN = /^\s*(\S+)\s+-\s+(\S+)\s*$/;
+
+/**
+ * 解析完整的 semver 版本号（允许 v/= 前缀）
+ */
+export function parseSemver(version: string): SemVer | null {
+  if (!version) {
+    return null;
+  }
+
+  const match = version.match(FULL_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? parseIdentifiers(match[4]) : [],
+    build: match[5] ? match[5].split('.') : []
+  };
+}
+
+/**
+ * 是否为预发布版本（例如 1.0.0-beta.1）
+ */
+export function isSemverPrerelease(version: string | SemVer): boolean {
+  const parsed = typeof version === 'string' ? parseSemver(version) : version;
+  return !!parsed && parsed.prerelease.length > 0;
+}
+
+/**
+ * 按 semver 规则比较两个版本，build 元数据不参与比较
+ * @returns -1 if a < b, 0 if equal, 1 if a > b；任一版本无法解析时返回 null
+ */
+export function compareSemver(a: string | SemVer, b: string | SemVer): number | null {
+  const left = typeof a === 'string' ? parseSemver(a) : a;
+  const right = typeof b === 'string' ? parseSemver(b) : b;
+  if (!left || !right) {
+    return null;
+  }
+
+  return compareParsed(left, right);
+}
+
+/**
+ * 检查范围字符串是否合法
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * 检查版本是否满足 npm 范围
+ * @param includePrerelease 为 true 时预发布版本与普通版本同等对待
+ */
+export function satisfiesRange(version: string | SemVer, range: string, includePrerelease: boolean = false): boolean {
+  const parsed = typeof version === 'string' ? parseSemver(version) : version;
+  const sets = parseRange(range);
+  if (!parsed || !sets) {
+    return false;
+  }
+
+  return sets.some(set => testSet(set, parsed, includePrerelease));
+}
+
+/**
+ * 返回满足范围的最高版本
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  let best: string | null = null;
+  let bestParsed: SemVer | null = null;
+
+  for (const version of versions) {
+    const parsed = parseSemver(version);
+    if (!parsed || !satisfiesRange(parsed, range)) {
+      continue;
+    }
+
+    if (!bestParsed || compareParsed(parsed, bestParsed) > 0) {
+      best = version;
+      bestParsed = parsed;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * 返回可能满足范围的最低版本（即范围的下限）
+ */
+export function minVersion(range: string): SemVer | null {
+  const sets = parseRange(range);
+  if (!sets) {
+    return null;
+  }
+
+  let result: SemVer | null = null;
+  for (const set of sets) {
+    let lowest: SemVer | null = null;
+
+    for (const comparator of set) {
+      if (!comparator.version) {
+        continue;
+      }
+
+      let candidate: SemVer | null = null;
+      switch (comparator.operator) {
+        case '>':
+          candidate = comparator.version.prerelease.length
+            ? { ...comparator.version, prerelease: [...comparator.version.prerelease, 0], build: [] }
+            : { ...comparator.version, patch: comparator.version.patch + 1, prerelease: [], build: [] };
+          break;
+        case '':
+        case '=':
+        case '>=':
+          candidate = comparator.version;
+          break;
+      }
+
+      if (candidate && (!lowest || compareParsed(candidate, lowest) > 0)) {
+        lowest = candidate;
+      }
+    }
+
+    const floor = lowest || { major: 0, minor: 0, patch: 0, prerelease: [], build: [] };
+    if (testSet(set, floor, true) && (!result || compareParsed(floor, result) < 0)) {
+      result = floor;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 将 semver 对象格式化为字符串
+ */
+export function formatSemver(version: SemVer): string {
+  const base = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length ? `${base}-${version.prerelease.join('.')}` : base;
+}
+
+function parseIdentifiers(value: string): (string | number)[] {
+  return value.split('.').map(id => /^\d+$/.test(id) ? Number(id) : id);
+}
+
+function compareParsed(a: SemVer, b: SemVer): number {
+  if (a.major !== b.major) {
+    return a.major < b.major ? -1 : 1;
+  }
+  if (a.minor !== b.minor) {
+    return a.minor < b.minor ? -1 : 1;
+  }
+  if (a.patch !== b.patch) {
+    return a.patch < b.patch ? -1 : 1;
+  }
+
+  // 没有预发布标签的版本更高
+  if (!a.prerelease.length && !b.prerelease.length) {
+    return 0;
+  }
+  if (!a.prerelease.length) {
+    return 1;
+  }
+  if (!b.prerelease.length) {
+    return -1;
+  }
+
+  const length = Math.max(a.prerelease.length, b.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined) {
+      return -1;
+    }
+    if (right === undefined) {
+      return 1;
+    }
+    if (left === right) {
+      continue;
+    }
+
+    // 数字标识符低于字母标识符
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left < right ? -1 : 1;
+    }
+    if (typeof left === 'number') {
+      return -1;
+    }
+    if (typeof right === 'number') {
+      return 1;
+    }
+    return left < right ? -1 : 1;
+  }
+  return 0;
+}
+
+function testSet(set: Comparator[], version: SemVer, includePrerelease: boolean): boolean {
+  if (!set.every(comparator => testComparator(comparator, version))) {
+    return false;
+  }
+
+  if (version.prerelease.length && !includePrerelease) {
+    // 预发布版本只有在同一 major.minor.patch 的比较器也带预发布标签时才匹配
+    return set.some(comparator =>
+      comparator.version !== null &&
+      comparator.version.prerelease.length > 0 &&
+      comparator.version.major === version.major &&
+      comparator.version.minor === version.minor &&
+      comparator.version.patch === version.patch
+    );
+  }
+
+  return true;
+}
+
+function testComparator(comparator: Comparator, version: SemVer): boolean {
+  if (!comparator.version) {
+    return true;
+  }
+
+  const cmp = compareParsed(version, comparator.version);
+  switch (comparator.operator) {
+    case '<': return cmp < 0;
+    case '<=': return cmp <= 0;
+    case '>': return cmp > 0;
+    case '>=': return cmp >= 0;
+    default: return cmp === 0;
+  }
+}
+
+/**
+ * 将范围解析为比较器集合：外层为 || 并集，内层为交集
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const part of range.split('||')) {
+    const set = parseComparatorSet(part.trim());
+    if (!set) {
+      return null;
+    }
+    sets.push(set);
+  }
+
+  return sets;
+}
+
+function parseComparatorSet(value: string): Comparator[] | null {
+  if (!value) {
+    return [any()];
+  }
+
+  const hyphen = value.match(HYPHEN_PATTERN);
+  if (hyphen) {
+    return parseHyphenRange(hyphen[1], hyphen[2]);
+  }
+
+  // 合并操作符与版本之间的空格，例如 ">= 1.2.3" -> ">=1.2.3"
+  const tokens = value.replace(/(\^|~>?|[<>]=?|=)\s+/g, '$1').split(/\s+/);
+  const comparators: Comparator[] = [];
+
+  for (const token of tokens) {
+    const expanded = parseComparatorToken(token);
+    if (!expanded) {
+      return null;
+    }
+    comparators.push(...expanded);
+  }
+
+  return comparators;
+}
+
+function parsePartial(value: string): PartialVersion | null {
+  const match = value.match(PARTIAL_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const toNumber = (part: string | undefined): number | null =>
+    part === undefined || /^[xX*]$/.test(part) ? null : Number(part);
+
+  const major = toNumber(match[1]);
+  const minor = major === null ? null : toNumber(match[2]);
+  const patch = minor === null ? null : toNumber(match[3]);
+
+  return {
+    major,
+    minor,
+    patch,
+    prerelease: patch !== null && match[4] ? parseIdentifiers(match[4]) : []
+  };
+}
+
+function parseComparatorToken(token: string): Comparator[] | null {
+  const match = token.match(/^(\^|~>?|[<>]=?|=)?(.*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const operator = match[1] || '';
+  const partial = parsePartial(match[2] || '*');
+  if (!partial) {
+    return null;
+  }
+
+  if (operator === '^') {
+    return caret(partial);
+  }
+  if (operator.startsWith('~')) {
+    return tilde(partial);
+  }
+  return xRange(operator as Comparator['operator'], partial);
+}
+
+function caret(p: PartialVersion): Comparator[] {
+  if (p.major === null) {
+    return [any()];
+  }
+  if (p.minor === null) {
+    return [gte(p.major, 0, 0), lt(p.major + 1, 0, 0)];
+  }
+  if (p.patch === null) {
+    return p.major === 0
+      ? [gte(0, p.minor, 0), lt(0, p.minor + 1, 0)]
+      : [gte(p.major, p.minor, 0), lt(p.major + 1, 0, 0)];
+  }
+
+  const lower = gte(p.major, p.minor, p.patch, p.prerelease);
+  if (p.major !== 0) {
+    return [lower, lt(p.major + 1, 0, 0)];
+  }
+  if (p.minor !== 0) {
+    return [lower, lt(0, p.minor + 1, 0)];
+  }
+  return [lower, lt(0, 0, p.patch + 1)];
+}
+
+function tilde(p: PartialVersion): Comparator[] {
+  if (p.major === null) {
+    return [any()];
+  }
+  if (p.minor === null) {
+    return [gte(p.major, 0, 0), lt(p.major + 1, 0, 0)];
+  }
+  return [gte(p.major, p.minor, p.patch || 0, p.prerelease), lt(p.major, p.minor + 1, 0)];
+}
+
+function xRange(operator: Comparator['operator'], p: PartialVersion): Comparator[] {
+  if (p.major === null) {
+    // <* 和 >* 不匹配任何版本
+    return operator === '<' || operator === '>' ? [lt(0, 0, 0)] : [any()];
+  }
+
+  if (p.minor !== null && p.patch !== null) {
+    return [{ operator: operator || '=', version: semver(p.major, p.minor, p.patch, p.prerelease) }];
+  }
+
+  const minor = p.minor || 0;
+  switch (operator) {
+    case '>':
+      return p.minor === null ? [gte(p.major + 1, 0, 0)] : [gte(p.major, minor + 1, 0)];
+    case '>=':
+      return [gte(p.major, minor, 0)];
+    case '<':
+      return [lt(p.major, minor, 0)];
+    case '<=':
+      return p.minor === null ? [lt(p.major + 1, 0, 0)] : [lt(p.major, minor + 1, 0)];
+    default:
+      return p.minor === null
+        ? [gte(p.major, 0, 0), lt(p.major + 1, 0, 0)]
+        : [gte(p.major, minor, 0), lt(p.major, minor + 1, 0)];
+  }
+}
+
+function parseHyphenRange(from: string, to: string): Comparator[] | null {
+  const lower = parsePartial(from);
+  const upper = parsePartial(to);
+  if (!lower || !upper) {
+    return null;
+  }
+
+  const comparators: Comparator[] = [];
+  if (lower.major !== null) {
+    comparators.push(gte(lower.major, lower.minor || 0, lower.patch || 0, lower.prerelease));
+  }
+
+  if (upper.major !== null) {
+    if (upper.minor === null) {
+      comparators.push(lt(upper.major + 1, 0, 0));
+    } else if (upper.patch === null) {
+      comparators.push(lt(upper.major, upper.minor + 1, 0));
+    } else {
+      comparators.push({ operator: '<=', version: semver(upper.major, upper.minor, upper.patch, upper.prerelease) });
+    }
+  }
+
+  return comparators.length ? comparators : [any()];
+}
+
+function semver(major: number, minor: number, patch: number, prerelease: (string | number)[] = []): SemVer {
+  return { major, minor, patch, prerelease, build: [] };
+}
+
+function any(): Comparator {
+  return { operator: '', version: null };
+}
+
+function gte(major: number, minor: number, patch: number, prerelease: (string | number)[] = []): Comparator {
+  return { operator: '>=', version: semver(major, minor, patch, prerelease) };
+}
+
+// 上限使用 -0 预发布标签，避免匹配上限版本自身的预发布版本
+function lt(major: number, minor: number, patch: number): Comparator {
+  return { operator: '<', version: semver(major, minor, patch, [0]) };
+}
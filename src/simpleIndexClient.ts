@@ -0,0 +1,206 @@
+import { AxiosInstance } from 'axios';
+import { PyPIPackageInfo } from './types';
+import { comparePep440, isPep440Prerelease, isValidPep440 } from './pep440';
+import { normalizePackageName } from './utils';
+
+/**
+ * Simple API 中的单个分发文件，字段与 PyPI JSON API 的 releases 条目保持一致
+ */
+export interface SimpleIndexFile {
+    filename: string;
+    url: string;
+    yanked: boolean;
+    yanked_reason: string | null;
+    requires_python: string | null;
+}
+
+const ACCEPT_HEADER = [
+    'application/vnd.pypi.simple.v1+json',
+    'application/vnd.pypi.simple.v1+html;q=0.2',
+    'text/html;q=0.01'
+].join(', ');
+
+const ARCHIVE_EXTENSIONS = ['.tar.gz', '.tar.bz2', '.tar.xz', '.tgz', '.zip', '.tar'];
+
+/**
+ * PEP 503 (HTML) / PEP 691 (JSON) Simple Repository API 客户端
+ * 用于不提供 /pypi/{name}/json 接口的私有索引（devpi、Artifactory、Nexus、静态文件镜像等）
+ */
+export class SimpleIndexClient {
+    constructor(private readonly client: AxiosInstance) {}
+
+    /**
+     * 从 Simple API 获取项目的所有版本
+     * @returns 与 JSON API 相同结构的包信息，项目不存在时抛出 404 错误
+     */
+    async fetchProject(indexUrl: string, packageName: string): Promise<PyPIPackageInfo | null> {
+        const projectUrl = `${toSimpleBase(indexUrl)}/${normalizePackageName(packageName)}/`;
+        const response = await this.client.get(projectUrl, {
+            headers: { Accept: ACCEPT_HEADER },
+            responseType: 'text',
+            transformResponse: [(data: unknown) => data]
+        });
+
+        const contentType = String(response.headers['content-type'] || '');
+        const body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+        const files = /json/i.test(contentType) || body.trimStart().startsWith('{')
+            ? parseSimpleJson(body, projectUrl)
+            : parseSimpleHtml(body, projectUrl);
+
+        return buildPackageInfo(packageName, files, indexUrl);
+    }
+}
+
+/**
+ * 将索引地址转换为 Simple API 的根地址
+ * 已经指向 simple 根目录的地址（.../simple、.../+simple）保持不变，公共 PyPI 补上 /simple
+ */
+export function toSimpleBase(indexUrl: string): string {
+    const trimmed = indexUrl.replace(/\/+$/, '');
+    if (/\+?simple$/.test(trimmed)) {
+        return trimmed;
+    }
+    return /^https?:\/\/pypi\.org$/.test(trimmed) ? `${trimmed}/simple` : trimmed;
+}
+
+/**
+ * 解析 PEP 503 HTML 页面中的分发文件链接
+ */
+export function parseSimpleHtml(html: string, baseUrl: string): SimpleIndexFile[] {
+    const files: SimpleIndexFile[] = [];
+    const anchorPattern = /<a\s+([^>]*)>([\s\S]*?)<\/a>/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = anchorPattern.exec(html)) !== null) {
+        const attributes = parseAttributes(match[1]);
+        const href = attributes.href;
+        if (!href) {
+            continue;
+        }
+
+        const url = resolveUrl(href, baseUrl);
+        const text = decodeEntities(match[2].replace(/<[^>]*>/g, '').trim());
+        const filename = text || decodeURIComponent(url.split('/').pop() || '');
+        const yanked = 'data-yanked' in attributes;
+
+        files.push({
+            filename,
+            url,
+            yanked,
+            yanked_reason: yanked ? attributes['data-yanked'] || null : null,
+            requires_python: attributes['data-requires-python'] || null
+        });
+    }
+
+    return files;
+}
+
+/**
+ * 解析 PEP 691 JSON 响应中的分发文件
+ */
+export function parseSimpleJson(body: string, baseUrl: string): SimpleIndexFile[] {
+    const data = JSON.parse(body);
+    const files: any[] = Array.isArray(data.files) ? data.files : [];
+
+    return files.map(file => ({
+        filename: file.filename,
+        url: resolveUrl(file.url || file.filename, baseUrl),
+        yanked: !!file.yanked,
+        yanked_reason: typeof file.yanked === 'string' ? file.yanked : null,
+        requires_python: file['requires-python'] || null
+    }));
+}
+
+/**
+ * 从分发文件名中提取版本号（wheel、sdist、egg）
+ * @returns 无法识别时返回 null
+ */
+export function extractVersionFromFilename(filename: string, packageName: string): string | null {
+    // 包名中的 -_. 可以互相替换，且不区分大小写
+    const namePattern = normalizePackageName(packageName)
+        .split('-')
+        .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[-_.]+');
+
+    let base: string | null = null;
+    if (filename.endsWith('.whl') || filename.endsWith('.egg')) {
+        // wheel: {name}-{version}(-{build})?-{python}-{abi}-{platform}.whl，egg: {name}-{version}-py{x.y}.egg
+        const match = filename.match(new RegExp(`^${namePattern}-([^-]+)-`, 'i'));
+        base = match ? match[1] : null;
+    } else {
+        const extension = ARCHIVE_EXTENSIONS.find(ext => filename.toLowerCase().endsWith(ext));
+        if (extension) {
+            const stem = filename.slice(0, -extension.length);
+            const match = stem.match(new RegExp(`^${namePattern}-(.+)$`, 'i'));
+            base = match ? match[1] : null;
+        }
+    }
+
+    return base && isValidPep440(base) ? base : null;
+}
+
+function buildPackageInfo(packageName: string, files: SimpleIndexFile[], indexUrl: string): PyPIPackageInfo | null {
+    const releases: { [version: string]: SimpleIndexFile[] } = {};
+
+    files.forEach(file => {
+        const version = extractVersionFromFilename(file.filename, packageName);
+        if (!version) {
+            return;
+        }
+        (releases[version] = releases[version] || []).push(file);
+    });
+
+    const versions = Object.keys(releases);
+    if (!versions.length) {
+        return null;
+    }
+
+    // 最新版本：优先取未被撤回的稳定版本
+    const available = versions.filter(v => releases[v].some(file => !file.yanked));
+    const stable = available.filter(v => !isPep440Prerelease(v));
+    const pool = stable.length ? stable : (available.length ? available : versions);
+    const latest = pool.reduce((a, b) => (comparePep440(a, b) || 0) >= 0 ? a : b);
+
+    return {
+        name: packageName,
+        version: latest,
+        indexUrl,
+        releases,
+        info: {
+            summary: '',
+            description: '',
+            home_page: ''
+        }
+    };
+}
+
+function parseAttributes(source: string): { [name: string]: string } {
+    const attributes: { [name: string]: string } = {};
+    const attributePattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = attributePattern.exec(source)) !== null) {
+        attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+
+    return attributes;
+}
+
+function resolveUrl(href: string, baseUrl: string): string {
+    try {
+        const url = new URL(href, baseUrl);
+        url.hash = ''; // 去掉 #sha256=... 哈希片段
+        return url.toString();
+    } catch {
+        return href.split('#')[0];
+    }
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+}
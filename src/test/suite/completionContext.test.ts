@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { getCompletionContext, getDependencyFileType } from '../../completionContext';
+import { getNpmReleases, getPyPIReleases } from '../../packageMetadata';
+
+suite('Completion Context Test Suite', () => {
+    test('Should detect file types', () => {
+        assert.strictEqual(getDependencyFileType('/p/requirements-dev.txt'), 'requirements');
+        assert.strictEqual(getDependencyFileType('/p/pyproject.toml'), 'pyproject');
+        assert.strictEqual(getDependencyFileType('/p/Pipfile'), 'pipfile');
+        assert.strictEqual(getDependencyFileType('/p/package.json'), 'packageJson');
+        assert.strictEqual(getDependencyFileType('/p/README.md'), null);
+    });
+
+    test('Should complete versions and names in requirements files', () => {
+        assert.deepStrictEqual(getCompletionContext('requirements', 'requests=='), { kind: 'version', packageName: 'requests', prefix: '' });
+        assert.deepStrictEqual(getCompletionContext('requirements', 'flask\nrequests[socks] >=2.0, <2.3'), { kind: 'version', packageName: 'requests', prefix: '2.3' });
+        assert.deepStrictEqual(getCompletionContext('requirements', 'reque'), { kind: 'name', prefix: 'reque' });
+        assert.strictEqual(getCompletionContext('requirements', '--index-url https://'), null);
+        assert.strictEqual(getCompletionContext('requirements', 'requests==2.0; python_version >= "3'), null);
+    });
+
+    test('Should only complete inside dependency sections of pyproject.toml', () => {
+        assert.deepStrictEqual(
+            getCompletionContext('pyproject', '[project]\nname = "demo"\ndependencies = [\n    "requests>=2",\n    "flask~=2.'),
+            { kind: 'version', packageName: 'flask', prefix: '2.' }
+        );
+        assert.deepStrictEqual(getCompletionContext('pyproject', '[project]\ndependencies = ["fla'), { kind: 'name', prefix: 'fla' });
+        assert.strictEqual(getCompletionContext('pyproject', '[project]\nclassifiers = [\n    "Progr'), null);
+        assert.strictEqual(getCompletionContext('pyproject', '[project]\ndependencies = ["a"]\nkeywords = [\n    "we'), null);
+        assert.deepStrictEqual(
+            getCompletionContext('pyproject', '[tool.poetry.group.dev.dependencies]\npytest = { version = "^7.'),
+            { kind: 'version', packageName: 'pytest', prefix: '7.' }
+        );
+        assert.strictEqual(getCompletionContext('pyproject', '[tool.poetry]\nversion = "1.'), null);
+        assert.deepStrictEqual(getCompletionContext('pipfile', '[packages]\nrequests = "=='), { kind: 'version', packageName: 'requests', prefix: '' });
+    });
+
+    test('Should only complete inside package.json dependency objects', () => {
+        const head = '{\n  "name": "demo",\n  "version": "1.0.0",\n  "dependencies": {\n    "lodash": "^4.17.21",\n';
+        assert.deepStrictEqual(getCompletionContext('packageJson', `${head}    "react": "^18.`), { kind: 'version', packageName: 'react', prefix: '18.' });
+        assert.deepStrictEqual(getCompletionContext('packageJson', `${head}    "@types/re`), { kind: 'name', prefix: '@types/re' });
+        assert.strictEqual(getCompletionContext('packageJson', '{\n  "version": "1.'), null);
+        assert.strictEqual(getCompletionContext('packageJson', `${head}  },\n  "scripts": {\n    "build": "tsc`), null);
+    });
+
+    test('Should list releases newest first with markers', () => {
+        const pypi = getPyPIReleases({
+            name: 'demo',
+            version: '1.1.0',
+            releases: {
+                '1.0.0': [{ upload_time_iso_8601: '2023-01-01T00:00:00Z', yanked: false }],
+                '1.1.0': [{ upload_time_iso_8601: '2023-02-01T00:00:00Z', yanked: true }],
+                '1.2.0rc1': [],
+                'not-a-version': []
+            },
+            info: { summary: '', description: '', home_page: '' }
+        });
+        assert.deepStrictEqual(pypi.map(release => [release.version, release.prerelease, release.yanked]), [
+            ['1.2.0rc1', true, false],
+            ['1.1.0', false, true],
+            ['1.0.0', false, false]
+        ]);
+
+        const npm = getNpmReleases({
+            name: 'demo',
+            version: '2.0.0',
+            versions: { '1.0.0': { deprecated: 'use 2.x' }, '2.0.0': {}, '2.1.0-beta.1': {} },
+            time: { '2.0.0': '2023-03-01T00:00:00.000Z' }
+        });
+        assert.deepStrictEqual(npm.map(release => release.version), ['2.1.0-beta.1', '2.0.0', '1.0.0']);
+        assert.strictEqual(npm[1].releaseDate, '2023-03-01T00:00:00.000Z');
+        assert.strictEqual(npm[2].deprecated, 'use 2.x');
+    });
+});
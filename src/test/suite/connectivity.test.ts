@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ConnectivityMonitor, OfflineError } from '../../connectivity';
+
+suite('ConnectivityMonitor Test Suite', () => {
+    const monitor = ConnectivityMonitor.getInstance();
+
+    test('Should fail fast for unreachable hosts only', () => {
+        monitor.reportFailure('https://offline.example.com/pypi/requests/json');
+
+        assert.ok(monitor.hasUnreachableHosts());
+        assert.ok(!monitor.isReachable('https://offline.example.com/simple/'));
+        assert.ok(monitor.isReachable('https://registry.npmjs.org/'));
+        assert.throws(() => monitor.assertReachable('https://offline.example.com/'), OfflineError);
+
+        monitor.reportSuccess('https://offline.example.com/');
+        assert.ok(!monitor.hasUnreachableHosts());
+    });
+
+    test('Should resume when a probe gets any HTTP response', async () => {
+        const server = http.createServer((req, res) => {
+            res.writeHead(404);
+            res.end();
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/pypi/demo/json`;
+
+        try {
+            let changes = 0;
+            const listener = monitor.onDidChange(() => changes++);
+            monitor.reportFailure(url);
+            assert.ok(!monitor.isReachable(url));
+
+            await monitor.probe();
+
+            assert.ok(monitor.isReachable(url));
+            assert.strictEqual(changes, 2);
+            listener.dispose();
+        } finally {
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CancelledError, FetchScheduler } from '../../fetchScheduler';
+
+/**
+ * 不依赖 VS Code 运行时的最小 CancellationTokenSource
+ */
+function createTokenSource() {
+    const listeners: (() => void)[] = [];
+    const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: (listener: () => void) => {
+            listeners.push(listener);
+            return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+        }
+    } as unknown as vscode.CancellationToken;
+
+    return {
+        token,
+        cancel: () => {
+            (token as any).isCancellationRequested = true;
+            listeners.slice().forEach(listener => listener());
+        }
+    };
+}
+
+function deferred<T>() {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(r => resolve = r);
+    return { promise, resolve };
+}
+
+suite('FetchScheduler Test Suite', () => {
+    const scheduler = FetchScheduler.getInstance();
+
+    teardown(() => {
+        scheduler.configure({ concurrency: 8, requestsPerSecond: 10 });
+    });
+
+    test('Should coalesce duplicate in-flight requests', async () => {
+        scheduler.configure({ requestsPerSecond: 0 });
+        let calls = 0;
+        const task = async () => {
+            calls++;
+            return 'result';
+        };
+
+        const results = await Promise.all([
+            scheduler.schedule('npm|lodash', 'https://registry.npmjs.org/', task),
+            scheduler.schedule('npm|lodash', 'https://registry.npmjs.org/', task)
+        ]);
+
+        assert.deepStrictEqual(results, ['result', 'result']);
+        assert.strictEqual(calls, 1);
+    });
+
+    test('Should limit concurrency', async () => {
+        scheduler.configure({ concurrency: 2, requestsPerSecond: 0 });
+        let running = 0;
+        let maxRunning = 0;
+        const gates = [deferred<void>(), deferred<void>(), deferred<void>()];
+
+        const promises = gates.map((gate, i) => scheduler.schedule(`pypi|pkg-${i}`, 'https://pypi.org', async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await gate.promise;
+            running--;
+            return i;
+        }));
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+        assert.strictEqual(running, 2);
+        assert.strictEqual(scheduler.getPendingCount(), 1);
+
+        gates.forEach(gate => gate.resolve());
+        assert.deepStrictEqual(await Promise.all(promises), [0, 1, 2]);
+        assert.strictEqual(maxRunning, 2);
+    });
+
+    test('Should rate limit requests per host', async () => {
+        scheduler.configure({ concurrency: 8, requestsPerSecond: 20 });
+        const starts: number[] = [];
+        const task = async () => {
+            starts.push(Date.now());
+        };
+
+        await Promise.all([0, 1, 2].map(i => scheduler.schedule(`npm|rate-${i}`, 'https://rate.example.com/', task)));
+
+        // 每秒 20 个请求，即两次请求之间至少间隔约 50ms
+        assert.ok(starts[2] - starts[0] >= 90, `requests started too fast: ${starts.map(t => t - starts[0])}`);
+    });
+
+    test('Should cancel queued requests', async () => {
+        scheduler.configure({ concurrency: 1, requestsPerSecond: 0 });
+        const gate = deferred<void>();
+        const source = createTokenSource();
+        let cancelledTaskRan = false;
+
+        const running = scheduler.schedule('pypi|running', 'https://pypi.org', async () => {
+            await gate.promise;
+            return 'done';
+        }, source.token);
+        const queued = scheduler.schedule('pypi|queued', 'https://pypi.org', async () => {
+            cancelledTaskRan = true;
+        }, source.token);
+
+        source.cancel();
+        gate.resolve();
+
+        await assert.rejects(running, CancelledError);
+        await assert.rejects(queued, CancelledError);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        assert.strictEqual(cancelledTaskRan, false);
+        assert.strictEqual(scheduler.getPendingCount(), 0);
+    });
+
+    test('Should re-schedule the same key right after it resolves', async () => {
+        scheduler.configure({ concurrency: 8, requestsPerSecond: 0 });
+        let runs = 0;
+        const task = async () => ++runs;
+
+        assert.strictEqual(await scheduler.schedule('pypi|again', 'https://pypi.org', task), 1);
+        const again = scheduler.schedule('pypi|again', 'https://pypi.org', task);
+        const timeout = new Promise(resolve => setTimeout(() => resolve('timeout'), 500));
+        assert.strictEqual(await Promise.race([again, timeout]), 2);
+
+        // 失败的请求同样可以立即重试
+        await assert.rejects(scheduler.schedule('pypi|again-error', 'https://pypi.org', async () => {
+            throw new Error('boom');
+        }));
+        const retry = scheduler.schedule('pypi|again-error', 'https://pypi.org', async () => 'ok');
+        assert.strictEqual(await Promise.race([retry, timeout]), 'ok');
+    });
+});
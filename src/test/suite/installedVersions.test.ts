@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyInstalledVersions, clearInstalledEnvironmentCache, findVirtualEnvironment, getEnvironmentFromInterpreter } from '../../installedVersions';
+import { PackageInfo } from '../../types';
+import { satisfiesVersionSpec } from '../../utils';
+
+suite('Installed Versions Test Suite', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'installed-versions-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    function writeFile(relativePath: string, content: string): string {
+        const filePath = path.join(root, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    }
+
+    function createPackage(name: string, filePath: string): PackageInfo {
+        return {
+            name,
+            currentVersion: null,
+            latestVersion: '',
+            line: 0,
+            startChar: 0,
+            endChar: 0,
+            isOutdated: false,
+            filePath
+        };
+    }
+
+    test('Should read dist-info METADATA from the project virtualenv', () => {
+        writeFile('.venv/pyvenv.cfg', 'home = /usr/bin\n');
+        const sitePackages = '.venv/lib/python3.11/site-packages';
+        writeFile(`${sitePackages}/Requests-2.31.0.dist-info/METADATA`, 'Metadata-Version: 2.1\nName: requests\nVersion: 2.31.0\n\nVersion: 0.0.0 in the description\n');
+        writeFile(`${sitePackages}/zope.interface-6.1.dist-info/METADATA`, 'Metadata-Version: 2.1\nName: zope.interface\nVersion: 6.1\n');
+        // METADATA 缺失时使用目录名中的版本
+        fs.mkdirSync(path.join(root, `${sitePackages}/typing_extensions-4.9.0.dist-info`), { recursive: true });
+        const manifest = writeFile('services/api/requirements.txt', '');
+
+        assert.strictEqual(findVirtualEnvironment(path.dirname(manifest)), path.join(root, '.venv'));
+
+        const packages = ['requests[socks]', 'Zope-Interface', 'typing-extensions', 'flask'].map(name => createPackage(name, manifest));
+        applyInstalledVersions(packages, manifest, false);
+        assert.deepStrictEqual(packages.map(pkg => pkg.installedVersion), ['2.31.0', '6.1', '4.9.0', undefined]);
+        assert.strictEqual(packages[0].installedPath, path.join(root, sitePackages, 'Requests-2.31.0.dist-info'));
+    });
+
+    test('Should use the configured interpreter environment', () => {
+        writeFile('envs/app/Lib/site-packages/rich-13.7.0.dist-info/METADATA', 'Name: rich\nVersion: 13.7.0\n');
+        const python = writeFile('envs/app/Scripts/python.exe', '');
+        const manifest = writeFile('project/pyproject.toml', '');
+
+        assert.strictEqual(getEnvironmentFromInterpreter(python), path.join(root, 'envs/app'));
+        assert.strictEqual(findVirtualEnvironment(path.dirname(manifest)), null);
+
+        const packages = [createPackage('rich', manifest)];
+        applyInstalledVersions(packages, manifest, false, python);
+        assert.strictEqual(packages[0].installedVersion, '13.7.0');
+    });
+
+    test('Should resolve node_modules like Node, including hoisted workspace packages', () => {
+        writeFile('node_modules/lodash/package.json', JSON.stringify({ name: 'lodash', version: '4.17.21' }));
+        writeFile('node_modules/@types/node/package.json', JSON.stringify({ name: '@types/node', version: '20.11.5' }));
+        writeFile('packages/app/node_modules/lodash/package.json', JSON.stringify({ name: 'lodash', version: '4.17.15' }));
+        const manifest = writeFile('packages/app/package.json', '{}');
+
+        const packages = ['lodash', '@types/node', 'react'].map(name => createPackage(name, manifest));
+        applyInstalledVersions(packages, manifest, true);
+        assert.deepStrictEqual(packages.map(pkg => pkg.installedVersion), ['4.17.15', '20.11.5', undefined]);
+    });
+
+    test('Should cache node_modules reads until the directory changes', () => {
+        const packageJson = writeFile('node_modules/lodash/package.json', JSON.stringify({ name: 'lodash', version: '4.17.20' }));
+        const manifest = writeFile('package.json', '{}');
+        const nodeModules = path.join(root, 'node_modules');
+        const mtime = new Date(Date.now() - 60000);
+        fs.utimesSync(nodeModules, mtime, mtime);
+
+        const read = () => {
+            const packages = [createPackage('lodash', manifest)];
+            applyInstalledVersions(packages, manifest, true);
+            return packages[0].installedVersion;
+        };
+        assert.strictEqual(read(), '4.17.20');
+
+        // 目录未变化时使用缓存
+        fs.writeFileSync(packageJson, JSON.stringify({ name: 'lodash', version: '4.17.21' }));
+        fs.utimesSync(nodeModules, mtime, mtime);
+        assert.strictEqual(read(), '4.17.20');
+
+        // 重新安装会改变 node_modules 的修改时间
+        fs.utimesSync(nodeModules, new Date(), new Date());
+        assert.strictEqual(read(), '4.17.21');
+    });
+
+    test('Should stop the environment search at the workspace folder and cache it until cleared', () => {
+        writeFile('.venv/pyvenv.cfg', 'home = /usr/bin\n');
+        writeFile('.venv/lib/python3.11/site-packages/rich-13.7.0.dist-info/METADATA', 'Name: rich\nVersion: 13.7.0\n');
+        const workspace = path.join(root, 'workspace');
+        const manifest = writeFile('workspace/app/requirements.txt', '');
+
+        // 工作区外的 .venv 不是项目的环境
+        assert.strictEqual(findVirtualEnvironment(path.dirname(manifest), workspace), null);
+        const read = () => {
+            const packages = [createPackage('rich', manifest)];
+            applyInstalledVersions(packages, manifest, false, undefined, workspace);
+            return packages[0].installedVersion;
+        };
+        assert.strictEqual(read(), undefined);
+
+        // 在工作区中创建环境后，清除缓存前仍使用之前的查找结果
+        writeFile('workspace/.venv/pyvenv.cfg', 'home = /usr/bin\n');
+        writeFile('workspace/.venv/lib/python3.11/site-packages/rich-13.6.0.dist-info/METADATA', 'Name: rich\nVersion: 13.6.0\n');
+        assert.strictEqual(read(), undefined);
+        clearInstalledEnvironmentCache();
+        assert.strictEqual(read(), '13.6.0');
+    });
+
+    test('Should check installed versions against declared specifiers', () => {
+        assert.strictEqual(satisfiesVersionSpec('2.31.0', '>=2.28,<3'), true);
+        assert.strictEqual(satisfiesVersionSpec('2.27.1', '>=2.28,<3'), false);
+        assert.strictEqual(satisfiesVersionSpec('1.0.0', ''), true);
+        assert.strictEqual(satisfiesVersionSpec('1.0.0', '@ https://example.com/pkg.whl'), null);
+        assert.strictEqual(satisfiesVersionSpec('2.1.0rc1', '>=2.0'), true);
+
+        assert.strictEqual(satisfiesVersionSpec('1.4.2', '^1.2', false, true), true);
+        assert.strictEqual(satisfiesVersionSpec('2.0.0', '^1.2', false, true), false);
+        assert.strictEqual(satisfiesVersionSpec('3.1.0', '^2.0 || ^3.0', false, true), true);
+        assert.strictEqual(satisfiesVersionSpec('1.2.0', '1.2', false, true), true);
+        assert.strictEqual(satisfiesVersionSpec('1.4.2', '^1.2'), null);
+
+        assert.strictEqual(satisfiesVersionSpec('4.17.21', '^4.17.0', true), true);
+        assert.strictEqual(satisfiesVersionSpec('5.0.0', '^4.17.0', true), false);
+        assert.strictEqual(satisfiesVersionSpec('18.3.0-canary.1', '^18.2.0', true), true);
+        assert.strictEqual(satisfiesVersionSpec('1.0.0', 'workspace:*', true), null);
+    });
+});
@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { clearNpmLockfileLocations, parseNpmLockfile, parsePackageLock, parsePnpmLock, parseYarnLock, readNpmLockfile } from '../../npmLockfile';
+
+suite('npm Lockfile Test Suite', () => {
+    test('Should read package-lock.json v3 including workspace packages', () => {
+        const content = JSON.stringify({
+            lockfileVersion: 3,
+            packages: {
+                '': { name: 'root' },
+                'node_modules/lodash': { version: '4.17.21' },
+                'node_modules/@types/node': { version: '20.11.5' },
+                'node_modules/lodash/node_modules/nested': { version: '1.0.0' },
+                'packages/app/node_modules/lodash': { version: '4.17.15' }
+            }
+        });
+
+        const root = parsePackageLock(content);
+        assert.strictEqual(root.get('lodash'), '4.17.21');
+        assert.strictEqual(root.get('@types/node'), '20.11.5');
+        assert.strictEqual(root.has('lodash/node_modules/nested'), false);
+
+        // workspace 自己的 node_modules 优先，其余使用提升到根目录的版本
+        const app = parsePackageLock(content, 'packages/app');
+        assert.strictEqual(app.get('lodash'), '4.17.15');
+        assert.strictEqual(app.get('@types/node'), '20.11.5');
+    });
+
+    test('Should read package-lock.json v1', () => {
+        const versions = parsePackageLock(JSON.stringify({
+            lockfileVersion: 1,
+            dependencies: { express: { version: '4.18.2' } }
+        }));
+        assert.strictEqual(versions.get('express'), '4.18.2');
+    });
+
+    test('Should read yarn.lock v1 and berry by descriptor', () => {
+        const classic = [
+            '# yarn lockfile v1',
+            '',
+            '"@babel/core@^7.0.0", "@babel/core@^7.12.3":',
+            '  version "7.23.7"',
+            '  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.23.7.tgz"',
+            '',
+            'lodash@^4.17.0:',
+            '  version "4.17.21"',
+            ''
+        ].join('\n');
+        const lockfile = parseNpmLockfile('yarn', '/p/yarn.lock', classic);
+        assert.strictEqual(lockfile.getVersion('@babel/core', '^7.12.3'), '7.23.7');
+        assert.strictEqual(lockfile.getVersion('lodash', '^4.17.0'), '4.17.21');
+        assert.strictEqual(lockfile.getVersion('lodash', '^3.0.0'), null);
+
+        const berry = [
+            '__metadata:',
+            '  version: 6',
+            '',
+            '"react@npm:^18.0.0, react@npm:^18.2.0":',
+            '  version: 18.2.0',
+            '  resolution: "react@npm:18.2.0"',
+            ''
+        ].join('\n');
+        const descriptors = parseYarnLock(berry);
+        assert.strictEqual(descriptors.get('react@npm:^18.0.0'), '18.2.0');
+        assert.strictEqual(parseNpmLockfile('yarn', '/p/yarn.lock', berry).getVersion('react', '^18.2.0'), '18.2.0');
+    });
+
+    test('Should read pnpm-lock.yaml v6 and v9 importers', () => {
+        const v6 = [
+            "lockfileVersion: '6.0'",
+            '',
+            'dependencies:',
+            '  react-dom:',
+            '    specifier: ^18.0.0',
+            '    version: 18.2.0(react@18.2.0)',
+            '',
+            'devDependencies:',
+            '  typescript:',
+            '    specifier: ~5.3.0',
+            '    version: 5.3.3',
+            '',
+            'packages:',
+            '  /react-dom@18.2.0(react@18.2.0):',
+            '    resolution: {integrity: sha512-abc}',
+            '    peerDependencies:',
+            '      react: ^18.2.0',
+            ''
+        ].join('\n');
+        const versions = parsePnpmLock(v6);
+        assert.strictEqual(versions.get('react-dom'), '18.2.0');
+        assert.strictEqual(versions.get('typescript'), '5.3.3');
+        assert.strictEqual(versions.size, 2);
+
+        const v9 = [
+            "lockfileVersion: '9.0'",
+            '',
+            'importers:',
+            '',
+            '  .:',
+            '    devDependencies:',
+            '      eslint:',
+            '        specifier: ^8.0.0',
+            '        version: 8.56.0',
+            '',
+            '  packages/web:',
+            '    dependencies:',
+            "      '@scope/shared':",
+            '        specifier: workspace:*',
+            '        version: link:../shared',
+            '      vue:',
+            '        specifier: ^3.4.0',
+            '        version: 3.4.15(typescript@5.3.3)',
+            ''
+        ].join('\n');
+        assert.strictEqual(parsePnpmLock(v9).get('eslint'), '8.56.0');
+        const web = parsePnpmLock(v9, 'packages/web');
+        assert.strictEqual(web.get('vue'), '3.4.15');
+        assert.strictEqual(web.has('@scope/shared'), false);
+    });
+
+    test('Should locate the lockfile within the workspace folder and cache the location', () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'npm-lockfile-'));
+        try {
+            const lockContent = JSON.stringify({ lockfileVersion: 3, packages: { 'node_modules/lodash': { version: '4.17.21' } } });
+            fs.writeFileSync(path.join(root, 'package-lock.json'), lockContent);
+            const workspace = path.join(root, 'workspace');
+            const manifest = path.join(workspace, 'package.json');
+            fs.mkdirSync(workspace);
+
+            // 工作区外的锁文件不属于这个项目
+            assert.strictEqual(readNpmLockfile(manifest, workspace), null);
+
+            // 新建的锁文件在清除查找结果的缓存后才会被找到
+            fs.writeFileSync(path.join(workspace, 'package-lock.json'), lockContent);
+            assert.strictEqual(readNpmLockfile(manifest, workspace), null);
+            clearNpmLockfileLocations();
+            assert.strictEqual(readNpmLockfile(manifest, workspace)?.getVersion('lodash', '^4.17.0'), '4.17.21');
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getAuthorizationHeader, loadNpmrc, parseNpmrc, resolveRegistry } from '../../npmrc';
+
+suite('Npmrc Test Suite', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'npmrc-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    function writeFile(relativePath: string, content: string): string {
+        const filePath = path.join(root, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    }
+
+    test('Should parse entries with environment interpolation', () => {
+        const entries = parseNpmrc([
+            '# comment',
+            '; another comment',
+            'registry = "https://npm.example.com/"',
+            '//npm.example.com/:_authToken=${NPM_TOKEN}',
+            '//other.example.com/:_authToken=${MISSING?}'
+        ].join('\n'), { NPM_TOKEN: 'secret' });
+
+        assert.strictEqual(entries.registry, 'https://npm.example.com/');
+        assert.strictEqual(entries['//npm.example.com/:_authToken'], 'secret');
+        assert.strictEqual(entries['//other.example.com/:_authToken'], '');
+    });
+
+    test('Should merge global, user and project configs in order', () => {
+        const globalConfig = writeFile('global/npmrc', 'registry=https://global.example.com\n@company:registry=https://global.example.com/company');
+        const userConfig = writeFile('home/.npmrc', '@company:registry=https://npm.company.com/\n//npm.company.com/:_authToken=${TOKEN}');
+        fs.mkdirSync(path.join(root, 'project', '.git'), { recursive: true });
+        writeFile('.npmrc', 'registry=https://outside.example.com/');
+        writeFile('project/.npmrc', 'registry=https://project.example.com/');
+        const manifestPath = writeFile('project/packages/app/package.json', '{}');
+
+        const config = loadNpmrc(manifestPath, {
+            npm_config_globalconfig: globalConfig,
+            npm_config_userconfig: userConfig,
+            TOKEN: 'abc'
+        });
+
+        assert.strictEqual(config.registry, 'https://project.example.com/');
+        assert.strictEqual(resolveRegistry(config, '@company/ui'), 'https://npm.company.com/');
+        assert.strictEqual(resolveRegistry(config, 'lodash'), 'https://project.example.com/');
+        assert.strictEqual(getAuthorizationHeader(config, 'https://npm.company.com/'), 'Bearer abc');
+        assert.strictEqual(getAuthorizationHeader(config, 'https://project.example.com/'), undefined);
+    });
+
+    test('Should match credentials by the longest registry path', () => {
+        const config = {
+            registry: 'https://repo.example.com/api/npm/npm-remote/',
+            scopes: {},
+            credentials: {
+                '//repo.example.com/:_auth': 'dXNlcjpwYXNz',
+                '//repo.example.com/api/npm/:_authToken': 'scoped'
+            }
+        };
+
+        assert.strictEqual(getAuthorizationHeader(config, config.registry), 'Bearer scoped');
+        assert.strictEqual(getAuthorizationHeader(config, 'https://repo.example.com/other/'), 'Basic dXNlcjpwYXNz');
+        assert.strictEqual(getAuthorizationHeader(config, 'https://evil.example.com/api/npm/'), undefined);
+    });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as path from 'path';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { getCombinedFixedVersion, getMinimalFixedVersion, getSeverity, OsvClient, OsvDatabase } from '../../osv';
+
+const FIXTURE = path.resolve(__dirname, '../../../test-files/osv-fixture.json');
+
+suite('OSV Test Suite', () => {
+    let database: OsvDatabase;
+
+    suiteSetup(async () => {
+        database = await OsvDatabase.load(FIXTURE);
+    });
+
+    test('Should match PyPI advisories by range and explicit versions', () => {
+        const query = { ecosystem: 'PyPI' as const, name: 'requests', version: '2.19.1' };
+        const vulns = database.query(query);
+
+        assert.deepStrictEqual(vulns.map(vuln => vuln.id).sort(), ['GHSA-j8r2-6x86-q33q', 'PYSEC-0000-0001']);
+        assert.strictEqual(getMinimalFixedVersion(vulns[0], query), '2.31.0');
+        assert.strictEqual(getCombinedFixedVersion(vulns, query), '2.31.0');
+        assert.deepStrictEqual(database.query({ ecosystem: 'PyPI', name: 'requests', version: '2.31.0' }), []);
+        assert.deepStrictEqual(database.query({ ecosystem: 'PyPI', name: 'requests', version: '2.2.0' }).map(vuln => vuln.id), ['PYSEC-0000-0001']);
+    });
+
+    test('Should pick the minimal version that fixes every npm advisory', () => {
+        const query = { ecosystem: 'npm' as const, name: 'lodash', version: '4.17.15' };
+        const vulns = database.query(query);
+
+        assert.strictEqual(vulns.length, 2);
+        assert.strictEqual(getCombinedFixedVersion(vulns, query), '4.17.21');
+        assert.deepStrictEqual(database.query({ ecosystem: 'npm', name: 'lodash', version: '4.17.20' }).map(vuln => vuln.id), ['GHSA-35jh-r3h4-6jhm']);
+        assert.deepStrictEqual(database.query({ ecosystem: 'npm', name: 'left-pad', version: '1.0.0' }), []);
+    });
+
+    test('Should handle last_affected and severity fallbacks', () => {
+        const query = { ecosystem: 'PyPI' as const, name: 'Demo-Pkg', version: '1.4.2' };
+        const vulns = database.query(query);
+
+        assert.strictEqual(vulns.length, 1);
+        assert.strictEqual(getSeverity(vulns[0]), 'LOW');
+        assert.strictEqual(getCombinedFixedVersion(vulns, query), null);
+        assert.deepStrictEqual(database.query({ ...query, version: '1.4.3' }), []);
+        assert.strictEqual(getSeverity({ id: 'X' }), 'UNKNOWN');
+    });
+
+    test('Should query the batch API and fetch full records', async () => {
+        const requests: string[] = [];
+        const server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                requests.push(`${req.method} ${req.url}`);
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                if (req.url === '/v1/querybatch') {
+                    const { queries } = JSON.parse(body);
+                    res.end(JSON.stringify({
+                        results: queries.map((query: any) => query.package.name === 'lodash'
+                            ? { vulns: [{ id: 'GHSA-35jh-r3h4-6jhm' }], next_page_token: 'page-2' }
+                            : {})
+                    }));
+                } else if (req.url === '/v1/query') {
+                    res.end(JSON.stringify({ vulns: [{ id: 'GHSA-p6mc-m468-83gw' }] }));
+                } else {
+                    res.end(JSON.stringify({ id: decodeURIComponent(req.url!.split('/').pop()!) }));
+                }
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+        try {
+            const client = new OsvClient(axios.create({ timeout: 5000 }), `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+            const ids = await client.queryBatch([
+                { ecosystem: 'npm', name: 'lodash', version: '4.17.15' },
+                { ecosystem: 'PyPI', name: 'flask', version: '3.0.0' }
+            ]);
+
+            assert.deepStrictEqual(ids, [['GHSA-35jh-r3h4-6jhm', 'GHSA-p6mc-m468-83gw'], []]);
+            assert.strictEqual((await client.getVulnerability('GHSA-35jh-r3h4-6jhm')).id, 'GHSA-35jh-r3h4-6jhm');
+            assert.deepStrictEqual(requests.slice(0, 2), ['POST /v1/querybatch', 'POST /v1/query']);
+        } finally {
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+});
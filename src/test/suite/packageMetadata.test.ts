@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import {
+    getNpmMetadata,
+    getNpmReleaseWarning,
+    getPyPIMetadata,
+    getPyPIReleaseWarning,
+    isYankedRelease,
+    normalizeRepositoryUrl
+} from '../../packageMetadata';
+
+// 注册表响应中的 snake_case 字段名和版本号键写成计算属性名，不受 naming-convention 规则约束
+suite('Package Metadata Test Suite', () => {
+    test('Should extract PyPI release dates, requires-python and links', () => {
+        const metadata = getPyPIMetadata({
+            name: 'requests',
+            version: '2.31.0',
+            indexUrl: 'https://pypi.org',
+            releases: {
+                ['2.28.0']: [
+                    { ['upload_time_iso_8601']: '2022-06-09T14:44:44Z', ['requires_python']: '>=3.7, <4' },
+                    { ['upload_time_iso_8601']: '2022-06-09T14:44:42Z', ['requires_python']: '>=3.7, <4' }
+                ],
+                ['2.31.0']: [{ ['upload_time_iso_8601']: '2023-05-22T15:12:42Z', ['requires_python']: null }]
+            },
+            info: {
+                summary: 'Python HTTP for Humans.',
+                description: '',
+                ['home_page']: 'https://requests.readthedocs.io',
+                license: 'Apache 2.0',
+                ['requires_python']: '>=3.7',
+                ['project_urls']: {
+                    ['Documentation']: 'https://requests.readthedocs.io',
+                    ['Source']: 'https://github.com/psf/requests',
+                    ['Code of Conduct']: 'https://example.com/conduct'
+                },
+                ['package_url']: 'https://pypi.org/project/requests/'
+            }
+        }, '2.28');
+
+        assert.deepStrictEqual(metadata.current, { version: '2.28', releaseDate: '2022-06-09T14:44:42Z', requires: '>=3.7, <4' });
+        assert.deepStrictEqual(metadata.latest, { version: '2.31.0', releaseDate: '2023-05-22T15:12:42Z', requires: '>=3.7' });
+        assert.deepStrictEqual(metadata.links, [
+            { label: 'Homepage', url: 'https://requests.readthedocs.io' },
+            { label: 'Repository', url: 'https://github.com/psf/requests' },
+            { label: 'Changelog', url: 'https://github.com/psf/requests/releases' },
+            { label: 'PyPI', url: 'https://pypi.org/project/requests/' }
+        ]);
+    });
+
+    test('Should extract npm engines and skip registry page for private registries', () => {
+        const metadata = getNpmMetadata({
+            name: '@corp/ui',
+            version: '2.0.0',
+            versions: { ['1.0.0']: { engines: { node: '>=14' } }, ['2.0.0']: { engines: { node: '>=18', npm: '>=9' } } },
+            description: 'UI kit',
+            license: 'MIT',
+            repository: 'git+ssh://git@github.com/corp/ui.git',
+            time: { ['1.0.0']: '2021-01-01T00:00:00.000Z', ['2.0.0']: '2023-01-01T00:00:00.000Z' },
+            registry: 'https://npm.corp.example/'
+        }, '1.0.0');
+
+        assert.strictEqual(metadata.current?.requires, 'node >=14');
+        assert.strictEqual(metadata.latest.requires, 'node >=18, npm >=9');
+        assert.strictEqual(metadata.current?.releaseDate, '2021-01-01T00:00:00.000Z');
+        assert.deepStrictEqual(metadata.links.map(link => link.label), ['Repository', 'Changelog']);
+    });
+
+    test('Should report yanked PyPI releases with their reason', () => {
+        const info = {
+            name: 'demo',
+            version: '1.2.0',
+            releases: {
+                ['1.0.0']: [{ yanked: true, ['yanked_reason']: null }, { yanked: false, ['yanked_reason']: null }],
+                ['1.1.0']: [{ yanked: true, ['yanked_reason']: 'Broken wheel' }, { yanked: true, ['yanked_reason']: null }],
+                ['1.2.0']: []
+            },
+            info: { summary: '', description: '', ['home_page']: '' }
+        };
+
+        // 只有部分文件被撤回时不算撤回，没有文件的版本也不算
+        assert.strictEqual(isYankedRelease(info.releases['1.0.0']), false);
+        assert.strictEqual(isYankedRelease(info.releases['1.2.0']), false);
+        assert.strictEqual(getPyPIReleaseWarning(info, '1.0.0'), null);
+        assert.deepStrictEqual(getPyPIReleaseWarning(info, '1.1'), { kind: 'yanked', reason: 'Broken wheel' });
+    });
+
+    test('Should report deprecated npm versions with their message', () => {
+        const info = {
+            name: 'request',
+            version: '2.88.2',
+            versions: { ['2.88.0']: {}, ['2.88.2']: { deprecated: 'request has been deprecated' } }
+        };
+        assert.deepStrictEqual(getNpmReleaseWarning(info, '2.88.2'), { kind: 'deprecated', reason: 'request has been deprecated' });
+        assert.strictEqual(getNpmReleaseWarning(info, '2.88.0'), null);
+        assert.strictEqual(getNpmReleaseWarning(info, '9.9.9'), null);
+    });
+
+    test('Should normalize repository URLs', () => {
+        assert.strictEqual(normalizeRepositoryUrl('git+https://github.com/lodash/lodash.git'), 'https://github.com/lodash/lodash');
+        assert.strictEqual(normalizeRepositoryUrl('git@gitlab.com:group/project.git'), 'https://gitlab.com/group/project');
+        assert.strictEqual(normalizeRepositoryUrl('github:facebook/react'), 'https://github.com/facebook/react');
+        assert.strictEqual(normalizeRepositoryUrl('expressjs/express'), 'https://github.com/expressjs/express');
+        assert.strictEqual(normalizeRepositoryUrl('https://github.com/vuejs/core#main'), 'https://github.com/vuejs/core');
+        assert.strictEqual(normalizeRepositoryUrl(''), null);
+    });
+});
@@ -0,0 +1,183 @@
+import * as assert from 'assert';
+import {
+    comparePep440,
+    matchesPep440Specifier,
+    matchesPep440SpecifierSet,
+    normalizePep440,
+    parsePep440,
+    parsePep440SpecifierSet,
+    parsePoetryConstraint
+} from '../../pep440';
+import {
+    compareVersions,
+    getLockfileDrift,
+    getVersionUpgradeOptions,
+    isValidVersionSpec,
+    isVersionOutdated,
+    parseVersionSpec,
+    rewritePoetryConstraint,
+    rewriteSpecifierSet
+} from '../../utils';
+
+suite('PEP 440 Test Suite', () => {
+    test('Should parse epochs, pre, post, dev and local segments', () => {
+        const parsed = parsePep440('1!2.0rc1.post2.dev3+cpu.1');
+
+        assert.ok(parsed);
+        assert.strictEqual(parsed!.epoch, 1);
+        assert.deepStrictEqual(parsed!.release, [2, 0]);
+        assert.deepStrictEqual(parsed!.pre, { label: 'rc', number: 1 });
+        assert.strictEqual(parsed!.post, 2);
+        assert.strictEqual(parsed!.dev, 3);
+        assert.deepStrictEqual(parsed!.local, ['cpu', 1]);
+    });
+
+    test('Should normalize alternative spellings', () => {
+        assert.strictEqual(normalizePep440('1.0-RC.1'), '1.0rc1');
+        assert.strictEqual(normalizePep440('v1.0-1'), '1.0.post1');
+        assert.strictEqual(normalizePep440('1.0.alpha'), '1.0a0');
+        assert.strictEqual(normalizePep440('not a version'), null);
+    });
+
+    test('Should order versions per PEP 440', () => {
+        const ordered = [
+            '1.0.dev1', '1.0a1', '1.0a2.dev1', '1.0a2', '1.0b1', '1.0rc1',
+            '1.0', '1.0+cpu', '1.0.post1.dev1', '1.0.post1', '1.1', '1!0.1'
+        ];
+        for (let i = 0; i < ordered.length - 1; i++) {
+            assert.strictEqual(comparePep440(ordered[i], ordered[i + 1]), -1, `${ordered[i]} < ${ordered[i + 1]}`);
+        }
+        assert.strictEqual(comparePep440('1.0', '1.0.0'), 0);
+    });
+
+    test('Should match specifiers', () => {
+        assert.ok(matchesPep440Specifier('1.4.5', '~=', '1.4.2'));
+        assert.ok(!matchesPep440Specifier('1.5.0', '~=', '1.4.2'));
+        assert.ok(matchesPep440Specifier('1.2.7', '==', '1.2.*'));
+        assert.ok(matchesPep440Specifier('1.0+cpu', '==', '1.0'));
+        assert.ok(!matchesPep440Specifier('1.0', '==', '1.0+cpu'));
+        assert.ok(!matchesPep440Specifier('2.0rc1', '<', '2.0'));
+        assert.ok(!matchesPep440Specifier('1.7.post1', '>', '1.7'));
+        assert.ok(matchesPep440Specifier('1.7.1', '>', '1.7'));
+    });
+
+    test('Utils should compare PEP 440 versions', () => {
+        assert.strictEqual(compareVersions('2.0.0rc1', '2.0.0'), -1);
+        assert.ok(isVersionOutdated('1.0', '1.0.post1'));
+        assert.ok(!isVersionOutdated('2.0.0', '2.0.0rc1'));
+    });
+
+    test('Should suggest post releases as patch upgrades', () => {
+        const options = getVersionUpgradeOptions('==1.0.0', ['1.0.0', '1.0.0.post1', '1.1.0', '2.0.0']);
+
+        assert.strictEqual(options.patch, '1.0.0.post1');
+        assert.strictEqual(options.minor, '1.1.0');
+        assert.strictEqual(options.major, '2.0.0');
+    });
+
+    test('Should parse and match specifier sets', () => {
+        const specifiers = parsePep440SpecifierSet('>=1.4, <2.0, !=1.5.1')!;
+
+        assert.strictEqual(specifiers.length, 3);
+        assert.ok(matchesPep440SpecifierSet('1.5.0', specifiers));
+        assert.ok(!matchesPep440SpecifierSet('1.5.1', specifiers));
+        assert.ok(!matchesPep440SpecifierSet('2.0', specifiers));
+        assert.ok(!matchesPep440SpecifierSet('1.6rc1', specifiers));
+        assert.strictEqual(parsePep440SpecifierSet('^1.0'), null);
+    });
+
+    test('Should pick the lower bound of compound specifiers', () => {
+        assert.deepStrictEqual(parseVersionSpec('>=3.2,<5'), { operator: '>=', version: '3.2' });
+        assert.deepStrictEqual(parseVersionSpec('<5,==4.1'), { operator: '==', version: '4.1' });
+    });
+
+    test('Should suggest upgrades within compound specifiers', () => {
+        const options = getVersionUpgradeOptions('>=3.2,<5', ['3.2.0', '4.2.1', '5.0.0']);
+
+        assert.strictEqual(options.satisfies, '4.2.1');
+        assert.strictEqual(options.major, '5.0.0');
+
+        const constrained = getVersionUpgradeOptions('>=3.2,<5', ['3.2.0', '4.1.0', '4.2.1', '5.0.0'], '<4.2');
+        assert.strictEqual(constrained.satisfies, '4.1.0');
+    });
+
+    test('Should rewrite only the required clauses', () => {
+        assert.strictEqual(rewriteSpecifierSet('>=3.2,<5', '4.2.1'), '>=4.2.1,<5');
+        assert.strictEqual(rewriteSpecifierSet('>=3.2,<5', '5.1.0'), '>=5.1.0,<6');
+        assert.strictEqual(rewriteSpecifierSet('>=3.2, <5.0.0', '5.1.0', 'upperBound'), '>=3.2, <6.0.0');
+        assert.strictEqual(rewriteSpecifierSet('==1.4.2,!=1.5.1', '1.6.0', 'pinned'), '==1.6.0,!=1.5.1');
+        assert.strictEqual(rewriteSpecifierSet('>=1.4,!=1.5.1', '1.5.1'), '>=1.5.1');
+    });
+
+    test('Should detect unparseable specifiers', () => {
+        assert.ok(isValidVersionSpec('>=3.2,<5'));
+        assert.ok(isValidVersionSpec('==1.2.*'));
+        assert.ok(isValidVersionSpec('@ https://example.com/pkg.whl'));
+        assert.ok(!isValidVersionSpec('>=3.2,<'));
+        assert.ok(!isValidVersionSpec('>=1.2.*'));
+        assert.ok(!isValidVersionSpec('^1.2'));
+
+        // Poetry 约束语法只在 pyproject.toml 中允许
+        assert.ok(isValidVersionSpec('^1.2', false, true));
+        assert.ok(isValidVersionSpec('>=1.2 <2.0 || ^3.0', false, true));
+        assert.ok(isValidVersionSpec('1.2.*', false, true));
+        assert.ok(!isValidVersionSpec('^1.2.x', false, true));
+    });
+
+    test('Should base upgrades and lockfile drift on the locked version', () => {
+        const versions = ['2.28.0', '2.29.0', '2.31.0', '2.32.3', '3.0.0'];
+        const options = getVersionUpgradeOptions('^2.28', versions, undefined, '2.31.0');
+
+        assert.strictEqual(options.satisfies, '2.32.3');
+        assert.strictEqual(options.patch, null);
+        assert.strictEqual(options.minor, '2.32.3');
+        assert.strictEqual(options.major, '3.0.0');
+
+        assert.strictEqual(getLockfileDrift('^2.28', '2.31.0', versions, false), '2.32.3');
+        assert.strictEqual(getLockfileDrift('>=2.28,<2.32', '2.31.0', versions, false), null);
+        assert.strictEqual(getLockfileDrift('==2.31.0', '2.31.0', versions, false), null);
+    });
+
+    test('Should convert Poetry constraints to PEP 440 specifiers', () => {
+        const bounds = (constraint: string) => parsePoetryConstraint(constraint)?.map(clauses =>
+            clauses.map(clause => `${clause.operator}${clause.version}`).join(',')
+        );
+
+        assert.deepStrictEqual(bounds('^1.2.3'), ['>=1.2.3,<2.0.0']);
+        assert.deepStrictEqual(bounds('^0.2.3'), ['>=0.2.3,<0.3.0']);
+        assert.deepStrictEqual(bounds('^0.0.3'), ['>=0.0.3,<0.0.4']);
+        assert.deepStrictEqual(bounds('^0.0'), ['>=0.0,<0.1']);
+        assert.deepStrictEqual(bounds('^0'), ['>=0,<1']);
+        assert.deepStrictEqual(bounds('~1.2.3'), ['>=1.2.3,<1.3.0']);
+        assert.deepStrictEqual(bounds('~1'), ['>=1,<2']);
+        assert.deepStrictEqual(bounds('*'), ['']);
+        assert.deepStrictEqual(bounds('1.2.*'), ['==1.2.*']);
+        assert.deepStrictEqual(bounds('1.2.3'), ['==1.2.3']);
+        assert.deepStrictEqual(bounds('>= 1.2 <2.0'), ['>=1.2,<2.0']);
+        assert.deepStrictEqual(bounds('^1.0 || ^2.0'), ['>=1.0,<2.0', '>=2.0,<3.0']);
+        assert.strictEqual(parsePoetryConstraint('^1.2.*'), null);
+        assert.strictEqual(parsePoetryConstraint('>=*'), null);
+    });
+
+    test('Should use Poetry caret and tilde semantics for upgrade options', () => {
+        const versions = ['0.2.3', '0.2.9', '0.3.0', '1.0.0'];
+        assert.strictEqual(getVersionUpgradeOptions('^0.2.3', versions).satisfies, '0.2.9');
+        assert.strictEqual(getVersionUpgradeOptions('~0.2.3', versions).satisfies, '0.2.9');
+        assert.strictEqual(getVersionUpgradeOptions('0.2.*', versions).satisfies, '0.2.9');
+        assert.strictEqual(getLockfileDrift('^0.2', '0.2.3', versions, false), '0.2.9');
+    });
+
+    test('Should rewrite Poetry constraints keeping the original style', () => {
+        assert.strictEqual(rewritePoetryConstraint('^2.28', '2.32.3'), '^2.32.3');
+        assert.strictEqual(rewritePoetryConstraint('~1.2.3', '1.4.0'), '~1.4.0');
+        assert.strictEqual(rewritePoetryConstraint('2.1.*', '2.3.4'), '2.3.*');
+        assert.strictEqual(rewritePoetryConstraint('1.2.3', '1.4.0'), '1.4.0');
+        assert.strictEqual(rewritePoetryConstraint('*', '1.4.0'), '^1.4.0');
+        assert.strictEqual(rewritePoetryConstraint('>=1.2 <2.0', '2.1.0'), '>=2.1.0 <3.0');
+        assert.strictEqual(rewritePoetryConstraint('>= 1.2, < 2', '1.5.0'), '>= 1.5.0, < 2');
+        assert.strictEqual(rewritePoetryConstraint('>=1.2,<2.0,!=2.1.0', '2.1.0'), '>=2.1.0,<3.0');
+        assert.strictEqual(rewritePoetryConstraint('>=1.2 <2.0', '2.1.0', 'upperBound'), '>=1.2 <3.0');
+        assert.strictEqual(rewritePoetryConstraint('^1.0 || ^2.0', '3.1.0'), '^1.0 || ^3.1.0');
+        assert.strictEqual(rewritePoetryConstraint('latest', '1.0.0'), null);
+    });
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadPipConfig, parseNetrc, parsePipConfig } from '../../pipConfig';
+
+suite('PipConfig Test Suite', () => {
+    test('Should read index options with install overriding global', () => {
+        const config = parsePipConfig([
+            '[global]',
+            'index-url = https://global.example.com/simple',
+            'extra-index-url =',
+            '    https://extra-1.example.com/simple',
+            '    https://extra-2.example.com/simple',
+            '',
+            '[install]',
+            'index_url = https://install.example.com/simple'
+        ].join('\n'));
+
+        assert.strictEqual(config.indexUrl, 'https://install.example.com/simple');
+        assert.deepStrictEqual(config.extraIndexUrls, [
+            'https://extra-1.example.com/simple',
+            'https://extra-2.example.com/simple'
+        ]);
+    });
+
+    test('Should let PIP_CONFIG_FILE and environment variables win', () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'pip-config-'));
+        try {
+            const configFile = path.join(root, 'pip.conf');
+            fs.writeFileSync(configFile, '[global]\nindex-url = https://file.example.com/simple\nextra-index-url = https://extra.example.com/simple');
+
+            const fromFile = loadPipConfig({ PIP_CONFIG_FILE: configFile, XDG_CONFIG_HOME: root, XDG_CONFIG_DIRS: root });
+            assert.strictEqual(fromFile.indexUrl, 'https://file.example.com/simple');
+
+            const fromEnv = loadPipConfig({ PIP_CONFIG_FILE: configFile, XDG_CONFIG_HOME: root, XDG_CONFIG_DIRS: root, PIP_INDEX_URL: 'https://env.example.com/simple' });
+            assert.strictEqual(fromEnv.indexUrl, 'https://env.example.com/simple');
+            assert.deepStrictEqual(fromEnv.extraIndexUrls, ['https://extra.example.com/simple']);
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+
+    test('Should parse netrc machines and default entry', () => {
+        const machines = parseNetrc([
+            '# private index',
+            'machine pypi.company.com login deploy password s3cret',
+            'machine other.example.com',
+            '  login alice',
+            '  password hunter2',
+            'default login anonymous password guest'
+        ].join('\n'));
+
+        assert.deepStrictEqual(machines.get('pypi.company.com'), { username: 'deploy', password: 's3cret' });
+        assert.deepStrictEqual(machines.get('other.example.com'), { username: 'alice', password: 'hunter2' });
+        assert.deepStrictEqual(machines.get(''), { username: 'anonymous', password: 'guest' });
+    });
+});
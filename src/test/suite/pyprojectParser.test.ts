@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { PyprojectParser } from '../../parsers/pyprojectParser';
+
+suite('PyprojectParser Test Suite', () => {
+    function parse(content: string) {
+        const mockDoc = {
+            fileName: '/project/pyproject.toml',
+            uri: { scheme: 'untitled' },
+            getText: () => content
+        } as unknown as vscode.TextDocument;
+        return new PyprojectParser().parse(mockDoc);
+    }
+
+    test('Should parse every PEP 621, PEP 735 and build-system table with its group', () => {
+        const content = [
+            '[build-system]',
+            'requires = ["setuptools>=61", "wheel"]',
+            '',
+            '[project]',
+            'name = "demo"',
+            'dependencies = [',
+            '    "requests>=2.28",',
+            ']',
+            '',
+            '[project.optional-dependencies]',
+            'test = ["pytest>=7"]',
+            'docs = [',
+            '    "sphinx>=7",',
+            ']',
+            '',
+            '[dependency-groups]',
+            'lint = ["ruff>=0.4"]',
+            'dev = [',
+            '    { include-group = "lint" },',
+            '    "pytest>=8",',
+            ']',
+            'all = [{ include-group = "dev" }]'
+        ].join('\n');
+
+        const packages = parse(content);
+        const summary = packages.map(pkg => `${pkg.name}@${pkg.line}:${pkg.group || ''}`);
+
+        assert.deepStrictEqual(summary, [
+            'requests@6:',
+            'pytest@10:extra: test',
+            'sphinx@12:extra: docs',
+            'ruff@16:group: lint (included in dev, all)',
+            'pytest@19:group: dev (included in all)',
+            'setuptools@1:build-system',
+            'wheel@1:build-system'
+        ]);
+    });
+
+    test('Should parse every Poetry group and uv, PDM and Hatch tables', () => {
+        const content = [
+            '[tool.poetry.dependencies]',
+            'python = "^3.10"',
+            'requests = "^2.28"',
+            '',
+            '[tool.poetry.dev-dependencies]',
+            'black = "^23.0"',
+            '',
+            '[tool.poetry.group.test.dependencies]',
+            'requests = { version = "^2.31", extras = ["socks"] }',
+            '',
+            '[tool.poetry.group."type-check".dependencies]',
+            'mypy = "^1.8"',
+            '',
+            '[tool.uv]',
+            'dev-dependencies = ["coverage>=7"]',
+            '',
+            '[tool.pdm.dev-dependencies]',
+            'test = ["pytest-cov>=4"]',
+            '',
+            '[tool.hatch.envs.lint]',
+            'dependencies = ["flake8>=7"]'
+        ].join('\n');
+
+        const packages = parse(content);
+        const summary = packages.map(pkg => `${pkg.name}@${pkg.line}:${pkg.group || ''}`);
+
+        assert.deepStrictEqual(summary, [
+            'requests@2:',
+            'black@5:group: dev',
+            'requests@8:group: test',
+            'mypy@11:group: type-check',
+            'coverage@14:uv: dev',
+            'pytest-cov@17:pdm dev: test',
+            'flake8@20:hatch env: lint'
+        ]);
+    });
+
+    test('Should locate Poetry dependencies written as expanded tables', () => {
+        const content = [
+            '[tool.poetry.dependencies]',
+            'python = "^3.10"',
+            'httpx = { version = "^0.27", extras = ["http2"] }',
+            '',
+            '[tool.poetry.dependencies.requests]',
+            'extras = ["socks"]',
+            'version = "^2.28"'
+        ].join('\n');
+
+        const packages = parse(content);
+        assert.deepStrictEqual(packages.map(pkg => `${pkg.name}@${pkg.line}:${pkg.versionSpec}`), ['httpx@2:^0.27', 'requests@6:^2.28']);
+        assert.ok(packages.every(pkg => pkg.isPoetry));
+    });
+});
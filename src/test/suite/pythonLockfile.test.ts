@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { clearPythonLockfileLocations, computeContentHash, isLockfileOutdated, parsePythonLockfile, readPythonLockfile } from '../../pythonLockfile';
+
+const POETRY_PYPROJECT = `[tool.poetry]
+name = "demo"
+version = "0.1.0"
+
+[tool.poetry.dependencies]
+python = "^3.10"
+requests = { version = "^2.28", extras = ["socks"] }
+"café-lib" = "1.0"
+
+[tool.poetry.group.dev.dependencies]
+pytest = "^7.4"
+`;
+
+const PIPFILE = `[[source]]
+url = "https://pypi.org/simple"
+verify_ssl = true
+name = "pypi"
+
+[packages]
+requests = "*"
+flask = {version = ">=2.0", extras = ["async"]}
+
+[dev-packages]
+pytest = "==7.4.0"
+
+[requires]
+python_version = "3.11"
+`;
+
+const PDM_PYPROJECT = `[project]
+name = "demo"
+requires-python = ">=3.9"
+dependencies = ["requests>=2.28", "rich"]
+
+[project.optional-dependencies]
+cli = ["click>=8"]
+
+[tool.pdm.dev-dependencies]
+test = ["pytest>=7"]
+`;
+
+suite('Python Lockfile Test Suite', () => {
+    // 期望值由对应工具的算法（Python json.dumps + sha256）计算得到
+    test('Should compute content hashes like Poetry, Pipenv and PDM', () => {
+        assert.strictEqual(computeContentHash('poetry', POETRY_PYPROJECT), 'ebda496476d5a0aefebfe579637b7239b05b536514fbe41cd3339d6d5ce33628');
+        assert.strictEqual(computeContentHash('pipenv', PIPFILE), '3fcfc2759e834d8f815465d0ba7a12472c62b30a0d469c947319aeafc54593db');
+        assert.strictEqual(computeContentHash('pdm', PDM_PYPROJECT), '38a4b50f8622a141675b574228f1cf733d43015fc32e9a6d6dc7cdc1fbaa370c');
+        assert.strictEqual(computeContentHash('uv', PDM_PYPROJECT), null);
+    });
+
+    test('Should read poetry.lock versions and detect a stale content hash', () => {
+        const lock = [
+            '[[package]]',
+            'name = "Requests"',
+            'version = "2.31.0"',
+            '',
+            '[[package]]',
+            'name = "pytest"',
+            'version = "7.4.4"',
+            '',
+            '[metadata]',
+            'lock-version = "2.0"',
+            'python-versions = "^3.10"',
+            'content-hash = "ebda496476d5a0aefebfe579637b7239b05b536514fbe41cd3339d6d5ce33628"',
+            ''
+        ].join('\n');
+        const lockfile = parsePythonLockfile('poetry', '/p/poetry.lock', lock);
+
+        assert.strictEqual(lockfile.versions.get('requests'), '2.31.0');
+        assert.strictEqual(lockfile.versions.get('pytest'), '7.4.4');
+        assert.strictEqual(isLockfileOutdated(lockfile, POETRY_PYPROJECT), false);
+        assert.strictEqual(isLockfileOutdated(lockfile, POETRY_PYPROJECT.replace('^7.4', '^8.0')), true);
+        // 与依赖无关的字段不影响哈希
+        assert.strictEqual(isLockfileOutdated(lockfile, POETRY_PYPROJECT.replace('0.1.0', '0.2.0')), false);
+    });
+
+    test('Should read Pipfile.lock, pdm.lock and uv.lock', () => {
+        const pipenv = parsePythonLockfile('pipenv', '/p/Pipfile.lock', JSON.stringify({
+            _meta: { hash: { sha256: 'abc' } },
+            default: { requests: { version: '==2.31.0' }, 'zope.interface': { version: '==6.1' } },
+            develop: { pytest: { version: '==7.4.0' } }
+        }));
+        assert.strictEqual(pipenv.versions.get('requests'), '2.31.0');
+        assert.strictEqual(pipenv.versions.get('zope-interface'), '6.1');
+        assert.strictEqual(pipenv.contentHash, 'abc');
+        assert.strictEqual(isLockfileOutdated(pipenv, PIPFILE), true);
+
+        const pdm = parsePythonLockfile('pdm', '/p/pdm.lock', [
+            '[metadata]',
+            'content_hash = "sha256:38a4b50f8622a141675b574228f1cf733d43015fc32e9a6d6dc7cdc1fbaa370c"',
+            '',
+            '[[package]]',
+            'name = "rich"',
+            'version = "13.7.0"',
+            ''
+        ].join('\n'));
+        assert.strictEqual(pdm.versions.get('rich'), '13.7.0');
+        assert.strictEqual(isLockfileOutdated(pdm, PDM_PYPROJECT), false);
+
+        const uv = parsePythonLockfile('uv', '/p/uv.lock', [
+            'version = 1',
+            'requires-python = ">=3.9"',
+            '',
+            '[[package]]',
+            'name = "charset-normalizer"',
+            'version = "3.3.2"',
+            'source = { registry = "https://pypi.org/simple" }',
+            ''
+        ].join('\n'));
+        assert.strictEqual(uv.versions.get('charset-normalizer'), '3.3.2');
+        assert.strictEqual(uv.contentHash, null);
+        assert.strictEqual(isLockfileOutdated(uv, PDM_PYPROJECT), false);
+    });
+
+    test('Should look for a workspace uv.lock only within the workspace folder and cache the location', () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'python-lockfile-'));
+        try {
+            const uvLock = 'version = 1\n\n[[package]]\nname = "rich"\nversion = "13.7.0"\n';
+            fs.writeFileSync(path.join(root, 'uv.lock'), uvLock);
+            const workspace = path.join(root, 'workspace');
+            const manifest = path.join(workspace, 'packages', 'app', 'pyproject.toml');
+            fs.mkdirSync(path.dirname(manifest), { recursive: true });
+
+            // 工作区外的 uv.lock 不属于这个项目
+            assert.strictEqual(readPythonLockfile(manifest, workspace), null);
+
+            // 新建的锁文件在清除查找结果的缓存后才会被找到
+            fs.writeFileSync(path.join(workspace, 'uv.lock'), uvLock);
+            assert.strictEqual(readPythonLockfile(manifest, workspace), null);
+            clearPythonLockfileLocations();
+            const lockfile = readPythonLockfile(manifest, workspace);
+            assert.strictEqual(lockfile?.path, path.join(workspace, 'uv.lock'));
+            assert.strictEqual(lockfile?.versions.get('rich'), '13.7.0');
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+});
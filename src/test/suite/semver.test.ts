@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import { compareSemver, formatSemver, maxSatisfying, minVersion, satisfiesRange } from '../../semver';
+import { getLockfileDrift, getNpmVersionUpgradeOptions, isValidVersionSpec, rewriteNpmRange } from '../../utils';
+
+suite('Semver Test Suite', () => {
+    test('Should order prerelease versions', () => {
+        assert.strictEqual(compareSemver('1.0.0-alpha', '1.0.0-alpha.1'), -1);
+        assert.strictEqual(compareSemver('1.0.0-alpha.1', '1.0.0-alpha.beta'), -1);
+        assert.strictEqual(compareSemver('1.0.0-rc.1', '1.0.0'), -1);
+        assert.strictEqual(compareSemver('1.0.0+build.1', '1.0.0'), 0);
+    });
+
+    test('Should apply caret and tilde rules', () => {
+        assert.ok(satisfiesRange('1.9.0', '^1.2.3'));
+        assert.ok(!satisfiesRange('2.0.0', '^1.2.3'));
+        assert.ok(satisfiesRange('0.2.9', '^0.2.3'));
+        assert.ok(!satisfiesRange('0.3.0', '^0.2.3'));
+        assert.ok(!satisfiesRange('0.0.4', '^0.0.3'));
+        assert.ok(satisfiesRange('0.9.0', '^0.x'));
+        assert.ok(satisfiesRange('1.2.9', '~1.2.3'));
+        assert.ok(!satisfiesRange('1.3.0', '~1.2.3'));
+    });
+
+    test('Should handle hyphen ranges, unions, wildcards and compound ranges', () => {
+        assert.ok(satisfiesRange('2.3.9', '1.2 - 2.3'));
+        assert.ok(!satisfiesRange('2.4.0', '1.2 - 2.3'));
+        assert.ok(satisfiesRange('3.1.0', '^1.0.0 || ^3.0.0'));
+        assert.ok(satisfiesRange('1.5.0', '1.x'));
+        assert.ok(satisfiesRange('7.0.0', '*'));
+        assert.ok(satisfiesRange('1.9.9', '>=1 <2'));
+        assert.ok(!satisfiesRange('2.0.0-beta.1', '>=1 <2'));
+        assert.ok(satisfiesRange('1.0.0', '>= 1.0.0'));
+    });
+
+    test('Should only match prereleases on the same tuple', () => {
+        assert.ok(satisfiesRange('1.2.3-beta.2', '>=1.2.3-beta.1'));
+        assert.ok(!satisfiesRange('1.2.4-beta.2', '>=1.2.3-beta.1'));
+        assert.ok(satisfiesRange('1.2.4-beta.2', '>=1.2.3-beta.1', true));
+    });
+
+    test('Should compute max satisfying and range floor', () => {
+        assert.strictEqual(maxSatisfying(['1.0.0', '1.4.0', '2.0.0'], '^1.0.0'), '1.4.0');
+        assert.strictEqual(formatSemver(minVersion('>1.2.3')!), '1.2.4');
+        assert.strictEqual(formatSemver(minVersion('1.2 - 2.3')!), '1.2.0');
+        assert.strictEqual(minVersion('latest'), null);
+    });
+
+    test('Should suggest npm upgrades from the range floor', () => {
+        const versions = ['1.2.3', '1.2.5', '1.4.0', '2.1.0', '3.0.0-beta.1'];
+        const options = getNpmVersionUpgradeOptions('^1.2.3', versions);
+
+        assert.strictEqual(options.satisfies, '1.4.0');
+        assert.strictEqual(options.patch, '1.2.5');
+        assert.strictEqual(options.minor, '1.4.0');
+        assert.strictEqual(options.major, '2.1.0');
+    });
+
+    test('Should suggest npm upgrades from the locked version', () => {
+        const versions = ['1.2.3', '1.2.5', '1.3.0', '1.3.2', '1.4.0', '2.1.0'];
+        const options = getNpmVersionUpgradeOptions('^1.2.3', versions, '1.3.0');
+
+        assert.strictEqual(options.satisfies, '1.4.0');
+        assert.strictEqual(options.patch, '1.3.2');
+        assert.strictEqual(options.minor, '1.4.0');
+        assert.strictEqual(options.major, '2.1.0');
+
+        assert.strictEqual(getLockfileDrift('^1.2.3', '1.3.0', versions), '1.4.0');
+        assert.strictEqual(getLockfileDrift('^1.2.3', '1.4.0', versions), null);
+    });
+
+    test('Should detect unparseable npm ranges', () => {
+        assert.ok(isValidVersionSpec('^1.2.3 || 2.x', true));
+        assert.ok(isValidVersionSpec('latest', true));
+        assert.ok(isValidVersionSpec('workspace:*', true));
+        assert.ok(isValidVersionSpec('github:user/repo#main', true));
+        assert.ok(!isValidVersionSpec('^1.2.3.4', true));
+        assert.ok(!isValidVersionSpec('>=1.0.x.y', true));
+    });
+
+    test('Should rewrite npm ranges in the author\'s style', () => {
+        assert.strictEqual(rewriteNpmRange('^1.2.3', '2.0.0'), '^2.0.0');
+        assert.strictEqual(rewriteNpmRange('>= 1.0.0', '1.4.0'), '>= 1.4.0');
+        assert.strictEqual(rewriteNpmRange('>=1 <2', '2.3.1'), '>=2.3.1 <3');
+        assert.strictEqual(rewriteNpmRange('>=1.0.0 <2.0.0', '2.3.1', 'upperBound'), '>=1.0.0 <3.0.0');
+        assert.strictEqual(rewriteNpmRange('1.2 - 2.3', '3.1.4'), '1.2 - 3.1');
+        assert.strictEqual(rewriteNpmRange('1.x', '3.1.4'), '3.x');
+        assert.strictEqual(rewriteNpmRange('^1 || ^2', '3.0.1'), '^1 || ^3.0.1');
+        assert.strictEqual(rewriteNpmRange('*', '3.0.0'), '^3.0.0');
+        assert.strictEqual(rewriteNpmRange('latest', '3.0.0'), null);
+    });
+});
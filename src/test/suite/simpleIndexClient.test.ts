@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { extractVersionFromFilename, SimpleIndexClient, toSimpleBase } from '../../simpleIndexClient';
+
+suite('SimpleIndexClient Test Suite', () => {
+    let root: string;
+    let server: http.Server;
+    let baseUrl: string;
+    const client = new SimpleIndexClient(axios.create({ timeout: 5000 }));
+
+    // 最简单的静态文件服务器：目录请求返回 index.html 或 index.json
+    suiteSetup(done => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'simple-index-'));
+        writeFile('simple/demo-pkg/index.html', [
+            '<!DOCTYPE html><html><body>',
+            '<a href="../../files/demo_pkg-1.0.0-py3-none-any.whl#sha256=abc">demo_pkg-1.0.0-py3-none-any.whl</a>',
+            '<a href="../../files/demo-pkg-1.1.0.tar.gz" data-requires-python="&gt;=3.8">demo-pkg-1.1.0.tar.gz</a>',
+            '<a href="../../files/demo_pkg-1.2.0-py3-none-any.whl" data-yanked="broken">demo_pkg-1.2.0-py3-none-any.whl</a>',
+            '<a href="../../files/demo_pkg-2.0.0rc1.tar.gz">demo_pkg-2.0.0rc1.tar.gz</a>',
+            '</body></html>'
+        ].join('\n'));
+        writeFile('json/simple/demo-pkg/index.json', JSON.stringify({
+            meta: { 'api-version': '1.0' },
+            name: 'demo-pkg',
+            files: [
+                { filename: 'demo_pkg-0.9.0.zip', url: 'https://files.example/demo_pkg-0.9.0.zip', hashes: {} },
+                { filename: 'demo_pkg-1.0.0-1-py3-none-any.whl', url: '/files/demo_pkg-1.0.0-1-py3-none-any.whl', hashes: {} }
+            ]
+        }));
+
+        server = http.createServer((req, res) => {
+            const dir = path.join(root, decodeURIComponent((req.url || '/').split('?')[0]));
+            const file = ['index.html', 'index.json']
+                .map(name => path.join(dir, name))
+                .find(candidate => fs.existsSync(candidate));
+            if (!file) {
+                res.writeHead(404);
+                res.end();
+                return;
+            }
+            res.writeHead(200, {
+                'Content-Type': file.endsWith('.json') ? 'application/vnd.pypi.simple.v1+json' : 'text/html'
+            });
+            res.end(fs.readFileSync(file));
+        });
+        server.listen(0, '127.0.0.1', () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            done();
+        });
+    });
+
+    suiteTeardown(done => {
+        fs.rmSync(root, { recursive: true, force: true });
+        server.close(() => done());
+    });
+
+    function writeFile(relativePath: string, content: string): void {
+        const filePath = path.join(root, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    }
+
+    test('Should extract versions from distribution filenames', () => {
+        assert.strictEqual(extractVersionFromFilename('Demo.Pkg-1.0.tar.gz', 'demo-pkg'), '1.0');
+        assert.strictEqual(extractVersionFromFilename('demo_pkg-2.0.0-1-cp311-cp311-manylinux_2_17_x86_64.whl', 'Demo_Pkg'), '2.0.0');
+        assert.strictEqual(extractVersionFromFilename('demo_pkg-1.0-py3.8.egg', 'demo-pkg'), '1.0');
+        assert.strictEqual(extractVersionFromFilename('other-1.0.tar.gz', 'demo-pkg'), null);
+        assert.strictEqual(extractVersionFromFilename('demo-pkg-latest.tar.gz', 'demo-pkg'), null);
+    });
+
+    test('Should map index URLs to the simple root', () => {
+        assert.strictEqual(toSimpleBase('https://pypi.org'), 'https://pypi.org/simple');
+        assert.strictEqual(toSimpleBase('https://host/simple/'), 'https://host/simple');
+        assert.strictEqual(toSimpleBase('https://devpi/root/pypi/+simple/'), 'https://devpi/root/pypi/+simple');
+    });
+
+    test('Should read versions from a PEP 503 HTML page', async () => {
+        const info = await client.fetchProject(`${baseUrl}/simple/`, 'Demo_Pkg');
+
+        assert.ok(info);
+        assert.deepStrictEqual(Object.keys(info!.releases).sort(), ['1.0.0', '1.1.0', '1.2.0', '2.0.0rc1']);
+        // 预发布和被撤回的版本不作为最新版本
+        assert.strictEqual(info!.version, '1.1.0');
+        assert.strictEqual(info!.indexUrl, `${baseUrl}/simple/`);
+
+        const [wheel] = info!.releases['1.0.0'];
+        assert.strictEqual(wheel.url, `${baseUrl}/files/demo_pkg-1.0.0-py3-none-any.whl`);
+        assert.strictEqual(info!.releases['1.1.0'][0].requires_python, '>=3.8');
+        assert.strictEqual(info!.releases['1.2.0'][0].yanked_reason, 'broken');
+    });
+
+    test('Should read versions from a PEP 691 JSON response', async () => {
+        const info = await client.fetchProject(`${baseUrl}/json/simple`, 'demo-pkg');
+
+        assert.ok(info);
+        assert.strictEqual(info!.version, '1.0.0');
+        assert.strictEqual(info!.releases['1.0.0'][0].url, `${baseUrl}/files/demo_pkg-1.0.0-1-py3-none-any.whl`);
+    });
+
+    test('Should reject missing projects with a 404', async () => {
+        await assert.rejects(
+            client.fetchProject(`${baseUrl}/simple`, 'missing'),
+            (error: any) => error.response?.status === 404
+        );
+    });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ConnectivityMonitor } from '../../connectivity';
+import { VersionService } from '../../versionService';
+
+suite('VersionService Test Suite', () => {
+    let server: http.Server;
+    let mirror: http.Server;
+    let baseUrl: string;
+    let mirrorUrl: string;
+    const requests: string[] = [];
+
+    // /private 上没有任何包，/public 提供 JSON API
+    const handler: http.RequestListener = (req, res) => {
+        const url = req.url || '/';
+        requests.push(url);
+        if (url === '/public/pypi/demo-pkg/json') {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+                info: { name: 'demo-pkg', version: '1.2.0' },
+                releases: { '1.0.0': [], '1.2.0': [] }
+            }));
+            return;
+        }
+        res.writeHead(404);
+        res.end();
+    };
+
+    // 两个端口不同的服务器相当于两个主机
+    suiteSetup(async () => {
+        server = http.createServer(handler);
+        mirror = http.createServer(handler);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        await new Promise<void>(resolve => mirror.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        mirrorUrl = `http://127.0.0.1:${(mirror.address() as AddressInfo).port}`;
+    });
+
+    suiteTeardown(async () => {
+        VersionService.getInstance().clearCache();
+        await new Promise(resolve => server.close(resolve));
+        await new Promise(resolve => mirror.close(resolve));
+    });
+
+    test('Should not re-request an index that returned 404 for the package', async () => {
+        const service = VersionService.getInstance();
+        service.clearCache();
+        const indexUrls = [`${baseUrl}/private/simple`, `${baseUrl}/public/simple`];
+
+        const first = await service.getPackageInfo('demo-pkg', indexUrls);
+        assert.strictEqual(first?.version, '1.2.0');
+        const privateRequests = requests.filter(url => url.startsWith('/private/')).length;
+        assert.ok(privateRequests > 0);
+
+        const second = await service.getPackageInfo('demo-pkg', indexUrls);
+        const third = await service.getLatestVersion('demo-pkg', indexUrls);
+        assert.strictEqual(second?.version, '1.2.0');
+        assert.strictEqual(third, '1.2.0');
+        assert.strictEqual(requests.filter(url => url.startsWith('/private/')).length, privateRequests);
+        assert.strictEqual(requests.filter(url => url.startsWith('/public/')).length, 1);
+
+        // 清除缓存后重新查询私有索引
+        service.clearCache();
+        await service.getPackageInfo('demo-pkg', indexUrls);
+        assert.strictEqual(requests.filter(url => url.startsWith('/private/')).length, privateRequests * 2);
+    });
+
+    test('Should only clear the cache of reachable indexes', async () => {
+        const service = VersionService.getInstance();
+        const monitor = ConnectivityMonitor.getInstance();
+        service.clearCache();
+        const reachableIndex = [`${baseUrl}/public/simple`];
+        const unreachableIndex = [`${mirrorUrl}/public/simple`];
+        await service.getPackageInfo('demo-pkg', reachableIndex);
+        await service.getPackageInfo('demo-pkg', unreachableIndex);
+
+        monitor.reportFailure(unreachableIndex[0]);
+        try {
+            service.clearCache(url => !monitor.isReachable(url));
+            const before = requests.length;
+
+            // 不可达的索引继续使用缓存，可达的索引重新获取
+            assert.strictEqual((await service.getPackageInfo('demo-pkg', unreachableIndex))?.version, '1.2.0');
+            assert.strictEqual(requests.length, before);
+            assert.strictEqual((await service.getPackageInfo('demo-pkg', reachableIndex))?.version, '1.2.0');
+            assert.strictEqual(requests.length, before + 1);
+        } finally {
+            monitor.reportSuccess(unreachableIndex[0]);
+        }
+    });
+});
@@ -10,17 +10,48 @@ export interface PackageInfo {
   endChar: number;
   isOutdated: boolean;
   versionConstraint?: string;
+  versionSpec?: string; // 完整的版本说明符（如 ">=3.2,<5"），用于复合约束的匹配和改写
+  constraintSpec?: string; // 来自 -c 约束文件的额外约束，计算 satisfies 版本时一并满足
+  indexUrls?: string[]; // requirements 文件中声明的索引（--index-url / --extra-index-url），按查找顺序排列
   filePath: string;
+  releaseWarning?: ReleaseWarning; // 固定的版本已被撤回（PyPI yanked）或弃用（npm deprecated）
+  lockedVersion?: string; // 锁文件中解析出的实际安装版本
+  lockfilePath?: string;
+  installedVersion?: string; // 本地环境（虚拟环境、node_modules）中实际安装的版本
+  installedPath?: string; // dist-info 目录或 node_modules 中的包目录
+  group?: string; // 所在的依赖分组（extra、依赖组、Poetry 组等），主依赖为空
+  isPoetry?: boolean; // 来自 Poetry 依赖表，约束按 Poetry 语法解析和改写
+}
+
+// requirements 文件中 -r 引用的被包含文件的过期依赖汇总，在获取版本时计算，CodeLens 只读取结果
+export interface RequirementsReferenceSummary {
+  line: number;
+  target: string;      // 文件中书写的路径
+  resolvedPath: string;
+  exists: boolean;
+  total: number;       // 被包含文件（含其递归引用）中去重后的依赖数
+  outdated: string[];  // "name current → latest"
+}
+
+export interface ReleaseWarning {
+  kind: 'yanked' | 'deprecated';
+  reason: string | null; // 撤回原因或弃用说明
 }
 
 export interface PyPIPackageInfo {
   name: string;
   version: string;
+  indexUrl?: string; // 提供该版本信息的索引
+
   releases: { [version: string]: any };
   info: {
     summary: string;
     description: string;
     home_page: string;
+    license?: string;
+    requires_python?: string;
+    project_urls?: { [label: string]: string }; // Homepage、Source、Changelog 等链接
+    package_url?: string; // 索引上的项目页面
   };
 }
 
@@ -31,11 +62,35 @@ export interface CacheEntry {
   ttl: number;
 }
 
+export type DiagnosticSeverityLevel = 'error' | 'warning' | 'information' | 'hint' | 'none';
+
+// 每类问题在 Problems 面板中的严重级别，none 表示不报告
+export interface DiagnosticSeverityConfig {
+  major: DiagnosticSeverityLevel;
+  minor: DiagnosticSeverityLevel;
+  patch: DiagnosticSeverityLevel;
+  notFound: DiagnosticSeverityLevel;
+  invalidSpecifier: DiagnosticSeverityLevel;
+  duplicate: DiagnosticSeverityLevel;
+  yanked: DiagnosticSeverityLevel; // 固定的版本已撤回或弃用
+  lockfileOutdated: DiagnosticSeverityLevel; // 锁文件记录的内容哈希与清单不一致
+  installedMismatch: DiagnosticSeverityLevel; // 本地安装的版本不满足声明的版本说明符
+}
+
 export interface ExtensionConfig {
   enabled: boolean;
   cacheTimeout: number;
   supportedFiles: string[];
   customPyPIIndex?: string;
+  persistentCache: boolean;
+  cacheMaxSizeMB: number;
+  maxConcurrentRequests: number;
+  requestsPerSecondPerHost: number;
+  vulnerabilityLens: boolean;
+  osvDatabasePath: string;
+  pythonInterpreterPath: string;
+  diagnostics: boolean;
+  diagnosticSeverity: DiagnosticSeverityConfig;
   excludePatterns: string[];
   decorationStyle: {
     color: string;
@@ -52,14 +107,14 @@ export interface IFileWatcher {
 }
 
 export interface IDecorationManager {
-  createVersionLens(editor: vscode.TextEditor, packages: PackageInfo[]): void;
-  clearDecorations(editor: vscode.TextEditor): void;
+  createVersionLens(document: vscode.TextDocument, packages: PackageInfo[]): void;
+  clearDecorations(document?: vscode.TextDocument): void;
   updateDecoration(editor: vscode.TextEditor, packageInfo: PackageInfo): void;
 }
 
 export interface IVersionService {
-  getLatestVersion(packageName: string): Promise<string | null>;
-  getPackageInfo(packageName: string): Promise<PyPIPackageInfo | null>;
+  getLatestVersion(packageName: string, indexUrls?: string[], token?: vscode.CancellationToken): Promise<string | null>;
+  getPackageInfo(packageName: string, indexUrls?: string[], token?: vscode.CancellationToken): Promise<PyPIPackageInfo | null>;
   clearCache(): void;
   isCacheValid(packageName: string): boolean;
 }
@@ -71,5 +126,8 @@ export interface IParserManager {
 
 export interface IPackageParser {
   canParse(document: vscode.TextDocument): boolean;
-  parse(document: vscode.TextDocument): PackageInfo[];
+  /**
+   * @param workspaceFolder 文档所在的工作区目录，向上查找锁文件时到此为止
+   */
+  parse(document: vscode.TextDocument, workspaceFolder?: string): PackageInfo[];
 }
\ No newline at end of file
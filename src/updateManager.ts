@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { PackageInfo } from './types';
-import { parseVersionSpec } from './utils';
+import { rewriteNpmRange, rewritePoetryConstraint, rewriteSpecifierSet, SpecifierUpdateMode } from './utils';
 
 export class UpdateManager {
     private static instance: UpdateManager;
@@ -12,23 +12,37 @@ export class UpdateManager {
         return UpdateManager.instance;
     }
 
-    async updatePackageVersion(packageInfo: PackageInfo, newVersion: string): Promise<boolean> {
-        const editor = vscode.window.activeTextEditor;
-        if (!editor) return false;
+    async updatePackageVersion(packageInfo: PackageInfo, newVersion: string, mode: SpecifierUpdateMode = 'auto'): Promise<boolean> {
+        return this.applyLineEdit(packageInfo, newVersion, lineText => this.replaceVersion(lineText, packageInfo, newVersion, mode));
+    }
 
-        const document = editor.document;
-        const line = document.lineAt(packageInfo.line);
-        const lineText = line.text;
+    /**
+     * 用新的说明符整体替换声明的版本约束，例如固定为 ==2.31.0 或放宽为 ~=2.28.0
+     */
+    async replaceVersionSpecifier(packageInfo: PackageInfo, newSpec: string): Promise<boolean> {
+        return this.applyLineEdit(packageInfo, newSpec, lineText => this.replaceSpecifier(lineText, packageInfo, newSpec));
+    }
 
+    /**
+     * 修改依赖所在文件（不一定是当前活动编辑器）中声明该依赖的行
+     */
+    private async applyLineEdit(packageInfo: PackageInfo, label: string, transform: (lineText: string) => string): Promise<boolean> {
         try {
-            const updatedLine = this.replaceVersion(lineText, packageInfo, newVersion);
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(packageInfo.filePath));
+            const line = document.lineAt(packageInfo.line);
+            const updatedLine = transform(line.text);
+            // 行中找不到声明的版本时不做修改，也不提示更新成功
+            if (updatedLine === line.text) {
+                vscode.window.showWarningMessage(`${packageInfo.name} was not changed: no updatable version found on line ${packageInfo.line + 1}`);
+                return false;
+            }
             
             const edit = new vscode.WorkspaceEdit();
             edit.replace(document.uri, line.range, updatedLine);
             
             const success = await vscode.workspace.applyEdit(edit);
             if (success) {
-                vscode.window.showInformationMessage(`Updated ${packageInfo.name} to ${newVersion}`);
+                vscode.window.showInformationMessage(`Updated ${packageInfo.name} to ${label}`);
             }
             return success;
         } catch (error) {
@@ -37,18 +51,118 @@ export class UpdateManager {
         }
     }
 
-    private replaceVersion(lineText: string, packageInfo: PackageInfo, newVersion: string): string {
-        const { name, currentVersion, versionConstraint = '==' } = packageInfo;
+    /**
+     * 在一个 WorkspaceEdit 中批量更新多个依赖，一次撤销即可全部还原
+     */
+    async updatePackageVersions(updates: { packageInfo: PackageInfo; newVersion: string }[]): Promise<boolean> {
+        if (!updates.length) return false;
+
+        const edit = new vscode.WorkspaceEdit();
+        // 按文件和行分组，同一行的多个更新依次应用到同一份文本上
+        const lineUpdates = new Map<string, { uri: vscode.Uri; line: number; items: typeof updates }>();
+        let changed = 0;
+
+        updates.forEach(update => {
+            const uri = vscode.Uri.file(update.packageInfo.filePath);
+            const key = `${uri.toString()}#${update.packageInfo.line}`;
+            const entry = lineUpdates.get(key) || { uri, line: update.packageInfo.line, items: [] };
+            entry.items.push(update);
+            lineUpdates.set(key, entry);
+        });
+
+        try {
+            for (const { uri, line, items } of lineUpdates.values()) {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const textLine = document.lineAt(line);
+                const updatedLine = items.reduce(
+                    (text, { packageInfo, newVersion }) => this.replaceVersion(text, packageInfo, newVersion, 'auto'),
+                    textLine.text
+                );
+                if (updatedLine !== textLine.text) {
+                    edit.replace(uri, textLine.range, updatedLine);
+                    changed += items.length;
+                }
+            }
+            if (!changed) {
+                return false;
+            }
+
+            const success = await vscode.workspace.applyEdit(edit);
+            if (success) {
+                vscode.window.showInformationMessage(`Updated ${changed} packages`);
+            }
+            return success;
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update packages: ${error}`);
+            return false;
+        }
+    }
+
+    private replaceVersion(lineText: string, packageInfo: PackageInfo, newVersion: string, mode: SpecifierUpdateMode): string {
+        const { name, currentVersion, versionConstraint = '==', versionSpec } = packageInfo;
+
+        // npm 范围保持原有写法（操作符后的空格、复合范围、x 通配），只改写 JSON 字符串中的范围
+        if (packageInfo.filePath.toLowerCase().endsWith('package.json')) {
+            const range = versionSpec ?? `${versionConstraint}${currentVersion || ''}`;
+            return this.replaceNpmRange(lineText, rewriteNpmRange(range, newVersion, mode) ?? `^${newVersion}`);
+        }
+
+        // Poetry 约束保持原有写法（^、~、通配符、下限），只改写 TOML 字符串中的约束
+        if (packageInfo.isPoetry) {
+            const rewritten = rewritePoetryConstraint(versionSpec || '*', newVersion, mode);
+            if (rewritten !== null) {
+                return this.replacePoetryConstraint(lineText, versionSpec || '', rewritten);
+            }
+        }
         
         if (!currentVersion) {
             return lineText.replace(name, `${name}==${newVersion}`);
         }
 
+        // PEP 440 说明符集合（如 ">=3.2,<5"）只改写需要变化的子句
+        if (versionSpec) {
+            const rewritten = rewriteSpecifierSet(versionSpec, newVersion, mode);
+            if (rewritten !== null && lineText.includes(versionSpec)) {
+                return lineText.replace(versionSpec, rewritten);
+            }
+        }
+
         const oldSpec = `${versionConstraint}${currentVersion}`;
         const newSpec = `${versionConstraint}${newVersion}`;
         return lineText.replace(oldSpec, newSpec);
     }
 
+    /**
+     * 替换 package.json 依赖行 "name": "range" 中的范围字符串
+     */
+    private replaceNpmRange(lineText: string, newRange: string): string {
+        return lineText.replace(/(:\s*")[^"]*(")/, (_, prefix: string, quote: string) => `${prefix}${newRange}${quote}`);
+    }
+
+    /**
+     * 替换 Poetry 依赖行中的约束字符串：package = "..."、内联表 { version = "...", extras = [...] } 或展开表中的 version = "..."
+     * 只替换引号中的约束，内联表的其他键保持不变
+     */
+    private replacePoetryConstraint(lineText: string, oldSpec: string, newSpec: string): string {
+        const escaped = oldSpec.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const pattern = new RegExp(`(\\bversion\\s*=\\s*|^[^=]*=\\s*)(["'])${escaped}\\2`);
+        if (pattern.test(lineText)) {
+            return lineText.replace(pattern, (_, prefix: string, quote: string) => `${prefix}${quote}${newSpec}${quote}`);
+        }
+        return oldSpec ? lineText.replace(oldSpec, newSpec) : lineText;
+    }
+
+    private replaceSpecifier(lineText: string, packageInfo: PackageInfo, newSpec: string): string {
+        const { name, currentVersion, versionConstraint = '', versionSpec } = packageInfo;
+
+        if (!currentVersion) {
+            return lineText.replace(name, `${name}${newSpec}`);
+        }
+
+        const oldSpec = versionSpec && lineText.includes(versionSpec) ? versionSpec : `${versionConstraint}${currentVersion}`;
+        return lineText.replace(oldSpec, newSpec);
+    }
+
     async showUpdateOptions(packageInfo: PackageInfo): Promise<void> {
         const options = [
             `Update to latest (${packageInfo.latestVersion})`,
@@ -56,6 +170,13 @@ export class UpdateManager {
             'Cancel'
         ];
 
+        // 带上限的复合说明符可以只放宽上限，保留原有下限
+        const hasUpperBound = !!packageInfo.versionSpec && /(^|[,\s])\s*<=?/.test(packageInfo.versionSpec);
+        const upperBoundOption = `Only raise upper bound to allow ${packageInfo.latestVersion}`;
+        if (hasUpperBound) {
+            options.splice(1, 0, upperBoundOption);
+        }
+
         const choice = await vscode.window.showQuickPick(options, {
             placeHolder: `Update ${packageInfo.name}?`
         });
@@ -64,7 +185,10 @@ export class UpdateManager {
             case options[0]:
                 await this.updatePackageVersion(packageInfo, packageInfo.latestVersion);
                 break;
-            case options[1]:
+            case upperBoundOption:
+                await this.updatePackageVersion(packageInfo, packageInfo.latestVersion, 'upperBound');
+                break;
+            case 'Choose specific version':
                 await this.showVersionPicker(packageInfo);
                 break;
         }
@@ -1,4 +1,17 @@
+import * as path from 'path';
 import { PackageInfo } from './types';
+import {
+  comparePep440,
+  matchesPep440Specifier,
+  matchesPep440SpecifierSet,
+  isValidPep440,
+  parsePep440,
+  parsePep440SpecifierSet,
+  parsePoetryConstraint,
+  Pep440Specifier,
+  splitPoetryClauses
+} from './pep440';
+import { compareSemver, isSemverPrerelease, isValidRange, maxSatisfying, minVersion, parseSemver, satisfiesRange, SemVer } from './semver';
 
 /**
  * 比较两个版本号
@@ -9,32 +22,22 @@ import { PackageInfo } from './types';
 export function isVersionOutdated(current: string, latest: string): boolean {
   if (!current || !latest) return false;
 
-  // 清理版本号，移除前缀符号
-  const cleanCurrent = current.replace(/^[~^>=<!=]+/, '');
-  const cleanLatest = latest.replace(/^[~^>=<!=]+/, '');
-
-  const currentParts = cleanCurrent.split('.').map(Number);
-  const latestParts = cleanLatest.split('.').map(Number);
-
-  const maxLength = Math.max(currentParts.length, latestParts.length);
-
-  for (let i = 0; i < maxLength; i++) {
-    const currentPart = currentParts[i] || 0;
-    const latestPart = latestParts[i] || 0;
-
-    if (latestPart > currentPart) return true;
-    if (latestPart < currentPart) return false;
-  }
-
-  return false;
+  return compareVersions(latest, current) > 0;
 }
 
 /**
  * 提取版本约束操作符
+ * 复合说明符（如 ">=3.2,<5"）返回其中的固定版本或下限子句
  * @param versionSpec 版本规范字符串
  * @returns 操作符和版本号
  */
 export function parseVersionSpec(versionSpec: string): { operator: string; version: string } {
+  const specifiers = parsePep440SpecifierSet(versionSpec);
+  if (specifiers && specifiers.length > 1) {
+    const primary = selectPrimarySpecifier(specifiers);
+    return { operator: primary.operator, version: primary.version };
+  }
+
   const match = versionSpec.match(/^([~^>=<!=]+)?(.+)$/);
   return {
     operator: match?.[1] || '',
@@ -42,6 +45,229 @@ export function parseVersionSpec(versionSpec: string): { operator: string; versi
   };
 }
 
+/**
+ * 复合说明符的更新方式
+ * - auto: 改写固定版本/下限子句，必要时同时放宽上限
+ * - pinned: 只改写固定版本/下限子句
+ * - upperBound: 只放宽排除了新版本的上限子句
+ */
+export type SpecifierUpdateMode = 'auto' | 'pinned' | 'upperBound';
+
+/**
+ * 按更新方式改写 PEP 440 说明符集合，保留未改动子句的原始写法
+ * @returns 改写后的说明符，无法按 PEP 440 解析时返回 null
+ */
+export function rewriteSpecifierSet(spec: string, newVersion: string, mode: SpecifierUpdateMode = 'auto'): string | null {
+  const specifiers = parsePep440SpecifierSet(spec);
+  if (!specifiers || !specifiers.length) {
+    return null;
+  }
+
+  const primary = selectPrimarySpecifier(specifiers);
+  const rewritePrimary = mode !== 'upperBound' && !isUpperBoundOperator(primary.operator);
+  const rewriteUpper = mode !== 'pinned';
+  const clauses = spec.trim().replace(/^\((.*)\)$/, '$1').split(',');
+  const result: string[] = [];
+
+  specifiers.forEach((specifier, index) => {
+    const original = clauses[index].trim();
+
+    if (specifier === primary && rewritePrimary) {
+      result.push(`${specifier.operator}${newVersion}`);
+    } else if (rewriteUpper && isUpperBoundOperator(specifier.operator) &&
+               !matchesPep440Specifier(newVersion, specifier.operator, specifier.version)) {
+      result.push(`${specifier.operator}${raiseUpperBound(specifier, newVersion)}`);
+    } else if (mode === 'auto' && specifier.operator === '!=' &&
+               !matchesPep440Specifier(newVersion, specifier.operator, specifier.version)) {
+      // 新版本正好被 != 排除时，去掉该子句
+      return;
+    } else {
+      result.push(original);
+    }
+  });
+
+  return result.join(/,\s/.test(spec) ? ', ' : ',');
+}
+
+/**
+ * 按更新方式改写 Poetry 约束，保留作者的写法：^、~ 只替换版本，1.2.* 保持通配的精度，
+ * >= 下限原地改写，排除了新版本的上限被放宽；|| 连接的多个备选只改写最后一个
+ * @returns 改写后的约束，无法按 Poetry 语法解析时返回 null
+ */
+export function rewritePoetryConstraint(spec: string, newVersion: string, mode: SpecifierUpdateMode = 'auto'): string | null {
+  if (!parsePoetryConstraint(spec)) {
+    return null;
+  }
+  // 任意版本改为 Poetry 默认的 ^ 约束
+  if (spec.trim() === '*') {
+    return mode === 'upperBound' ? spec : `^${newVersion}`;
+  }
+
+  const alternatives = spec.split('||');
+  const last = alternatives[alternatives.length - 1];
+  const leading = last.match(/^\s*/)![0];
+  const trailing = last.match(/\s*$/)![0];
+  // 保留子句之间原有的分隔符（逗号或空格）
+  const tokens = last.trim().split(/(\s*,\s*|\s+(?![\d*]))/);
+  const clauses = splitPoetryClauses(last).map(clause => clause.match(/^(\^|~=|~|===|==|!=|>=|<=|>|<)?(\s*)(\S+)$/)!);
+
+  const primaryOrder = ['===', '==', '', '^', '~', '~=', '>=', '>'];
+  const primary = primaryOrder
+    .map(operator => clauses.find(match => (match[1] || '') === operator && match[3] !== '*'))
+    .find(Boolean);
+
+  const result: string[] = [];
+  clauses.forEach((match, index) => {
+    const [original, operator = '', space, version] = match;
+    const separator = index > 0 ? tokens[index * 2 - 1] : '';
+    let rewritten: string | null = original;
+
+    if (match === primary && mode !== 'upperBound') {
+      if (version.endsWith('.*')) {
+        // 通配符保持原来的段数，例如 2.1.* -> 2.3.*
+        const precision = version.split('.').length - 1;
+        rewritten = `${operator}${space}${newVersion.split('.').slice(0, precision).join('.')}.*`;
+      } else {
+        // > 下限会排除新版本本身，改为 >=
+        rewritten = `${operator === '>' ? '>=' : operator}${space}${newVersion}`;
+      }
+    } else if (mode !== 'pinned' && isUpperBoundOperator(operator) &&
+               !matchesPep440Specifier(newVersion, operator, version)) {
+      rewritten = `${operator}${space}${raiseUpperBound({ operator, version }, newVersion)}`;
+    } else if (mode === 'auto' && operator === '!=' && !matchesPep440Specifier(newVersion, operator, version)) {
+      // 新版本正好被 != 排除时，去掉该子句
+      rewritten = null;
+    }
+
+    if (rewritten !== null) {
+      result.push(result.length ? separator : '', rewritten);
+    }
+  });
+
+  alternatives[alternatives.length - 1] = `${leading}${result.join('')}${trailing}`;
+  return alternatives.join('||');
+}
+
+/**
+ * 按更新方式改写 npm 范围，保留作者的写法：操作符和空格不变，1.x、1.2.* 和不带操作符的 1.2 保持原有精度，
+ * 空格分隔的比较器改写下限、放宽排除了新版本的上限，连字符范围放宽上限；|| 连接的多个备选只改写最后一个
+ * @returns 改写后的范围，无法按 npm 范围解析时返回 null
+ */
+export function rewriteNpmRange(range: string, newVersion: string, mode: SpecifierUpdateMode = 'auto'): string | null {
+  const target = parseSemver(newVersion);
+  if (!target || !isValidRange(range)) {
+    return null;
+  }
+
+  const alternatives = range.split('||');
+  const last = alternatives[alternatives.length - 1];
+  const leading = last.match(/^\s*/)![0];
+  const trailing = last.match(/\s*$/)![0];
+  const body = last.trim();
+  let rewritten: string;
+
+  const hyphen = body.match(/^(\S+)(\s+-\s+)(\S+)$/);
+  if (!body || /^[xX*]$/.test(body)) {
+    // 任意版本改为兼容新版本的 ^ 范围
+    rewritten = mode === 'upperBound' ? body : `^${newVersion}`;
+  } else if (hyphen) {
+    const [, lower, separator, upper] = hyphen;
+    // 连字符范围只在 pinned 方式下改写下限，其余方式保留作者写的下限并放宽上限
+    const newLower = mode === 'pinned' ? rewriteNpmVersion(lower, newVersion, target, true) : lower;
+    // 上限包含该版本本身，部分版本号保持精度，例如 1.2 - 2.3 -> 1.2 - 3.1（新版本 3.1.4）
+    const newUpper = mode !== 'pinned' && !satisfiesRange(target, `0.0.0 - ${upper}`)
+      ? rewriteNpmVersion(upper, newVersion, target, true)
+      : upper;
+    rewritten = `${newLower}${separator}${newUpper}`;
+  } else {
+    const pattern = /(\^|~>?|[<>]=?|=)?(\s*)([vV]?[0-9xX*][^\s]*)/g;
+    const comparators = Array.from(body.matchAll(pattern)).map(match => ({ operator: match[1] || '', version: match[3] }));
+    const primary = ['=', '', '^', '~', '~>', '>=', '>']
+      .map(operator => comparators.findIndex(comparator => comparator.operator === operator))
+      .find(index => index >= 0);
+
+    let index = 0;
+    rewritten = body.replace(pattern, (original: string, operator: string = '', space: string, version: string) => {
+      const current = index++;
+      if (current === primary && mode !== 'upperBound') {
+        // > 下限会排除新版本本身，改为 >=
+        return `${operator === '>' ? '>=' : operator}${space}${rewriteNpmVersion(version, newVersion, target, !operator)}`;
+      }
+      if (mode !== 'pinned' && (operator === '<' || operator === '<=') && !satisfiesRange(target, `${operator}${version}`)) {
+        const bound = operator === '<'
+          ? raiseUpperBound({ operator, version: version.replace(/^[vV]/, '') }, `${target.major}.${target.minor}.${target.patch}`)
+          : rewriteNpmVersion(version, newVersion, target, true);
+        return `${operator}${space}${bound}`;
+      }
+      return original;
+    });
+  }
+
+  alternatives[alternatives.length - 1] = `${leading}${rewritten}${trailing}`;
+  return alternatives.join('||');
+}
+
+/**
+ * 改写 npm 范围中的单个版本：通配版本（1.x、1.2.*）和允许部分匹配的版本（1.2）保持原有的段数，其余替换为完整的新版本
+ */
+function rewriteNpmVersion(version: string, newVersion: string, target: SemVer, keepPrecision: boolean): string {
+  const parts = version.replace(/^[vV]/, '').split('.');
+  const release = [target.major, target.minor, target.patch].map(String);
+  const wildcard = parts.findIndex(part => /^[xX*]$/.test(part));
+  if (wildcard >= 0) {
+    return parts.map((part, i) => i < wildcard ? release[i] : part).join('.');
+  }
+  if (keepPrecision && parts.length < 3) {
+    return release.slice(0, parts.length).join('.');
+  }
+  return newVersion;
+}
+
+/**
+ * 选择复合说明符中代表当前版本的子句：固定版本 > 兼容版本 > 下限 > 第一个子句
+ */
+function selectPrimarySpecifier(specifiers: Pep440Specifier[]): Pep440Specifier {
+  for (const operator of ['===', '==', '~=', '>=', '>']) {
+    const found = specifiers.find(s => s.operator === operator && !s.version.endsWith('.*'));
+    if (found) {
+      return found;
+    }
+  }
+  return specifiers[0];
+}
+
+function isUpperBoundOperator(operator: string): boolean {
+  return operator === '<' || operator === '<=';
+}
+
+/**
+ * 放宽上限以包含新版本，保持原上限的精度
+ * 例如 <5 -> <6、<5.0.0 -> <6.0.0、<5.2 -> <5.4（新版本 5.3.1）
+ */
+function raiseUpperBound(specifier: Pep440Specifier, newVersion: string): string {
+  if (specifier.operator === '<=') {
+    return newVersion;
+  }
+
+  const bound = parseVersion(specifier.version);
+  const target = parseVersion(newVersion);
+  let significant = bound.length - 1;
+  while (significant > 0 && !bound[significant]) {
+    significant--;
+  }
+
+  const raised = bound.map((_, i) => {
+    if (i < significant) {
+      return target[i] || 0;
+    }
+    if (i === significant) {
+      return (target[i] || 0) + 1;
+    }
+    return 0;
+  });
+  return raised.join('.');
+}
+
 /**
  * 检查包名是否应该被排除
  * @param packageName 包名
@@ -88,19 +314,31 @@ export function findPackageLineIndex(content: string, searchText: string): numbe
 }
 
 /**
- * 解析版本号为数字数组
+ * 解析版本号为数字数组（PEP 440 版本取 release 段）
  */
 export function parseVersion(version: string): number[] {
-  return version.replace(/^[~^>=<!=]+/, '').split('.').map(Number);
+  const clean = version.replace(/^[~^>=<!=]+/, '');
+  const parsed = parsePep440(clean);
+  if (parsed) {
+    return parsed.release;
+  }
+  return clean.split('.').map(Number);
 }
 
 /**
- * 比较两个版本号
+ * 比较两个版本号，能按 PEP 440 解析时使用 PEP 440 规则
  * @returns -1 if v1 < v2, 0 if equal, 1 if v1 > v2
  */
 export function compareVersions(v1: string, v2: string): number {
-  const parts1 = parseVersion(v1);
-  const parts2 = parseVersion(v2);
+  const clean1 = v1.replace(/^[~^>=<!=]+/, '');
+  const clean2 = v2.replace(/^[~^>=<!=]+/, '');
+  const pep440Result = comparePep440(clean1, clean2);
+  if (pep440Result !== null) {
+    return pep440Result;
+  }
+
+  const parts1 = parseVersion(clean1);
+  const parts2 = parseVersion(clean2);
   const maxLength = Math.max(parts1.length, parts2.length);
 
   for (let i = 0; i < maxLength; i++) {
@@ -116,7 +354,12 @@ export function compareVersions(v1: string, v2: string): number {
 /**
  * 获取版本的升级选项
  */
-export function getVersionUpgradeOptions(currentVersionSpec: string, allVersions: string[]): {
+export function getVersionUpgradeOptions(
+  currentVersionSpec: string,
+  allVersions: string[],
+  constraintSpec?: string,
+  lockedVersion?: string
+): {
   satisfies: string | null;
   major: string | null;
   minor: string | null;
@@ -126,14 +369,15 @@ export function getVersionUpgradeOptions(currentVersionSpec: string, allVersions
     return { satisfies: null, major: null, minor: null, patch: null };
   }
 
-  // 解析版本规范
-  const { operator, version: currentVersion } = parseVersionSpec(currentVersionSpec);
+  // 解析版本规范，有锁文件时以锁定的版本作为当前版本
+  const { operator, version: declaredVersion } = parseVersionSpec(currentVersionSpec);
+  const currentVersion = lockedVersion && parsePep440(lockedVersion) ? lockedVersion : declaredVersion;
   const current = parseVersion(currentVersion);
-  const [currentMajor, currentMinor, currentPatch] = current;
+  const [currentMajor, currentMinor] = current;
 
   // 过滤并排序版本
   const validVersions = allVersions
-    .filter(v => /^\d+\.\d+(\.\d+)?/.test(v))
+    .filter(v => parsePep440(v) !== null)
     .sort((a, b) => compareVersions(b, a)); // 降序排列
 
   let satisfies: string | null = null;
@@ -141,9 +385,18 @@ export function getVersionUpgradeOptions(currentVersionSpec: string, allVersions
   let minor: string | null = null;
   let patch: string | null = null;
 
+  // 复合说明符需要同时满足所有子句
+  const specifiers = parsePep440SpecifierSet(currentVersionSpec);
+  const isCompound = !!specifiers && specifiers.length > 1;
+  // 约束文件（-c）中的约束同样需要满足
+  const constraints = constraintSpec ? parsePep440SpecifierSet(constraintSpec) : null;
+
   // 首先找到满足当前约束的最新版本 (satisfies)
   for (const version of validVersions) {
-    const satisfiesResult = satisfiesConstraint(version, operator, currentVersion);
+    const satisfiesResult = (isCompound
+      ? matchesPep440SpecifierSet(version, specifiers!)
+      : satisfiesConstraint(version, currentVersionSpec)) &&
+      (!constraints || matchesPep440SpecifierSet(version, constraints));
     const isNewer = compareVersions(version, currentVersion) > 0;
     
     if (satisfiesResult && isNewer) {
@@ -155,10 +408,14 @@ export function getVersionUpgradeOptions(currentVersionSpec: string, allVersions
   // 如果没有找到satisfies版本，且是精确版本约束，则使用patch版本
   if (!satisfies && (operator === '' || operator === '==')) {
     for (const version of validVersions) {
-      const parsed = parseVersion(version);
-      const [vMajor, vMinor, vPatch] = parsed;
-      
-      if (vMajor === currentMajor && vMinor === currentMinor && vPatch > (currentPatch || 0)) {
+      if (constraints && !matchesPep440SpecifierSet(version, constraints)) {
+        continue;
+      }
+
+      const [vMajor, vMinor = 0] = parseVersion(version);
+
+      // 同一主次版本下更新的版本（包括 post 版本）都视为补丁升级
+      if (vMajor === currentMajor && vMinor === (currentMinor || 0) && compareVersions(version, currentVersion) > 0) {
         satisfies = version;
         break;
       }
@@ -167,8 +424,7 @@ export function getVersionUpgradeOptions(currentVersionSpec: string, allVersions
 
   // 然后找其他升级选项
   for (const version of validVersions) {
-    const parsed = parseVersion(version);
-    const [vMajor, vMinor, vPatch] = parsed;
+    const [vMajor, vMinor = 0] = parseVersion(version);
 
     // 跳过当前版本或更低版本
     if (compareVersions(version, currentVersion) <= 0) continue;
@@ -179,12 +435,12 @@ export function getVersionUpgradeOptions(currentVersionSpec: string, allVersions
     }
 
     // 最新次版本 (minor) - 同一主版本下的最新次版本
-    if (!minor && vMajor === currentMajor && vMinor > currentMinor) {
+    if (!minor && vMajor === currentMajor && vMinor > (currentMinor || 0)) {
       minor = version;
     }
 
-    // 最新修订版本 (patch) - 同一主次版本下的最新修订版本
-    if (!patch && vMajor === currentMajor && vMinor === currentMinor && vPatch > (currentPatch || 0)) {
+    // 最新修订版本 (patch) - 同一主次版本下的最新修订版本（含 post 版本）
+    if (!patch && vMajor === currentMajor && vMinor === (currentMinor || 0)) {
       patch = version;
     }
   }
@@ -196,15 +452,15 @@ export function getVersionUpgradeOptions(currentVersionSpec: string, allVersions
  * 根据版本约束计算satisfies版本
  */
 export function calculateSatisfiesVersion(currentSpec: string, allVersions: string[]): string | null {
-  const { operator, version } = parseVersionSpec(currentSpec);
-  const current = parseVersion(version);
+  const specifiers = parsePep440SpecifierSet(currentSpec);
+  const isCompound = !!specifiers && specifiers.length > 1;
   
   const validVersions = allVersions
-    .filter(v => /^\d+\.\d+(\.\d+)?/.test(v))
+    .filter(v => parsePep440(v) !== null)
     .sort((a, b) => compareVersions(b, a));
 
   for (const v of validVersions) {
-    if (satisfiesConstraint(v, operator, version)) {
+    if (isCompound ? matchesPep440SpecifierSet(v, specifiers!) : satisfiesConstraint(v, currentSpec)) {
       return v;
     }
   }
@@ -212,6 +468,69 @@ export function calculateSatisfiesVersion(currentSpec: string, allVersions: stri
   return null;
 }
 
+/**
+ * 按文件类型获取升级选项：npm 范围按 node-semver 规则计算，Python 依赖按 PEP 440 规则计算
+ * @param lockedVersion 锁文件中的版本，以它而不是声明的版本（范围下限）作为当前版本
+ */
+export function getUpgradeOptions(
+  currentVersionSpec: string,
+  allVersions: string[],
+  isPackageJson: boolean = false,
+  constraintSpec?: string,
+  lockedVersion?: string
+): {
+  satisfies: string | null;
+  major: string | null;
+  minor: string | null;
+  patch: string | null;
+} {
+  return isPackageJson
+    ? getNpmVersionUpgradeOptions(currentVersionSpec, allVersions, lockedVersion)
+    : getVersionUpgradeOptions(currentVersionSpec, allVersions, constraintSpec, lockedVersion);
+}
+
+/**
+ * 获取 npm 依赖的升级选项，按 node-semver 规则解析范围
+ * @param range package.json 中声明的版本范围，如 "^1.2.0"、"1.2 - 2.3"、">=1 <2 || ^3"
+ * @param allVersions 已发布的版本列表
+ * @param lockedVersion 锁文件中的版本，有效时代替范围下限作为当前版本
+ */
+export function getNpmVersionUpgradeOptions(range: string, allVersions: string[], lockedVersion?: string): {
+  satisfies: string | null;
+  major: string | null;
+  minor: string | null;
+  patch: string | null;
+} {
+  const empty = { satisfies: null, major: null, minor: null, patch: null };
+  if (!range || !allVersions.length) {
+    return empty;
+  }
+
+  // 以锁定的版本或范围的下限作为当前版本（例如 ^1.2.3 -> 1.2.3，1.x -> 1.0.0）
+  const current = (lockedVersion && parseSemver(lockedVersion)) || minVersion(range);
+  if (!current) {
+    return empty;
+  }
+
+  // 过滤并排序版本，当前版本不是预发布版本时排除预发布版本
+  const validVersions = allVersions
+    .map(v => ({ raw: v, parsed: parseSemver(v) }))
+    .filter((v): v is { raw: string; parsed: SemVer } => v.parsed !== null)
+    .filter(v => isSemverPrerelease(current) || !isSemverPrerelease(v.parsed))
+    .sort((a, b) => compareSemver(b.parsed, a.parsed) || 0); // 降序排列
+
+  const newer = validVersions.filter(v => (compareSemver(v.parsed, current) || 0) > 0);
+
+  // 满足当前范围的最新版本 (satisfies)
+  const satisfies = maxSatisfying(newer.map(v => v.raw), range);
+
+  const major = newer.find(v => v.parsed.major > current.major)?.raw || null;
+  const minor = newer.find(v => v.parsed.major === current.major && v.parsed.minor > current.minor)?.raw || null;
+  const patch = newer.find(v => v.parsed.major === current.major && v.parsed.minor === current.minor)?.raw || null;
+
+  return { satisfies, major, minor, patch };
+}
+
 /**
  * 解析 PEP 508 包名，支持 extras 语法
  * @param packageSpec 包规范字符串，如 "package[extra1,extra2]>=1.0.0"
@@ -233,6 +552,67 @@ export function parsePEP508PackageSpec(packageSpec: string): {
   return { fullName, baseName, versionPart };
 }
 
+/**
+ * 按 PEP 503 规范化 Python 包名（小写，连续的 -_. 替换为 -）
+ */
+export function normalizePackageName(packageName: string): string {
+  return packageName.split('[')[0].trim().toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/**
+ * 去掉 URL 中的用户名和密码，用于持久化或显示
+ */
+export function stripUrlCredentials(url: string): string {
+  return url.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^@/]*@/i, '$1');
+}
+
+/**
+ * 检查声明的版本说明符能否解析
+ * @param isPackageJson 按 npm 范围检查；git/file/workspace 等协议和 dist-tag（latest）不是版本范围，视为合法
+ * @param allowPoetry 允许 Poetry 约束语法（^1.2、~1.2、1.2.*、空格分隔的子句、|| 连接的多个约束）
+ */
+export function isValidVersionSpec(spec: string, isPackageJson: boolean = false, allowPoetry: boolean = false): boolean {
+  const trimmed = spec.trim();
+  if (!trimmed || trimmed === '*') {
+    return true;
+  }
+
+  if (isPackageJson) {
+    if (/^[a-z][a-z0-9+.-]*:|\//i.test(trimmed) || /^[a-z][\w.-]*$/i.test(trimmed)) {
+      return true;
+    }
+    return isValidRange(trimmed);
+  }
+
+  // PEP 508 直接引用（name @ https://...）没有版本说明符
+  if (trimmed.startsWith('@')) {
+    return true;
+  }
+
+  if (!allowPoetry) {
+    const specifiers = parsePep440SpecifierSet(trimmed);
+    return !!specifiers && specifiers.every(isValidSpecifierVersion);
+  }
+
+  return !!parsePoetryConstraint(trimmed);
+}
+
+function isValidSpecifierVersion(specifier: Pep440Specifier): boolean {
+  if (specifier.operator === '===') {
+    return true;
+  }
+  // 通配符只能用于 == 和 !=（Poetry 的 1.2.* 按 == 处理）
+  const wildcard = specifier.version.endsWith('.*') && ['==', '!='].includes(specifier.operator);
+  return isValidPep440(wildcard ? specifier.version.slice(0, -2) : specifier.version);
+}
+
+/**
+ * 同一文件中依赖声明的去重键：不同分组中的同名依赖是独立的声明
+ */
+export function getDeclarationKey(pkg: PackageInfo, packageName: string = pkg.name): string {
+  return pkg.group ? `${pkg.group}\u0000${packageName}` : packageName;
+}
+
 /**
  * 验证 Python 包名是否有效
  * @param packageName 包名（基础包名，不包含extras）
@@ -245,30 +625,147 @@ export function isValidPythonPackageName(packageName: string): boolean {
 }
 
 /**
- * 检查版本是否满足约束
+ * 检查版本是否满足 Python 依赖的版本约束：PEP 440 说明符，不是时按 Poetry 约束语法解析
+ * （^、~ 按 Poetry 的规则而不是 npm 的规则计算上限），无法解析时视为不满足
  */
-function satisfiesConstraint(version: string, operator: string, constraintVersion: string): boolean {
-  const cmp = compareVersions(version, constraintVersion);
-  const vParts = parseVersion(version);
-  const cParts = parseVersion(constraintVersion);
-  
-  switch (operator) {
-    case '==': 
-    case '': // 精确版本
-      return cmp === 0;
-    case '>=': return cmp >= 0;
-    case '>': return cmp > 0;
-    case '<=': return cmp <= 0;
-    case '<': return cmp < 0;
-    case '!=': return cmp !== 0;
-    case '~=': // Python兼容版本
-      return vParts[0] === cParts[0] && vParts[1] === cParts[1] && cmp >= 0;
-    case '^': // npm caret范围 - 兼容主版本
-      return vParts[0] === cParts[0] && cmp >= 0;
-    case '~': // npm tilde范围 - 兼容次版本
-      return vParts[0] === cParts[0] && vParts[1] === cParts[1] && cmp >= 0;
-    default: 
-      // 如果没有操作符，默认为>=
-      return cmp >= 0;
-  }
-}
\ No newline at end of file
+function satisfiesConstraint(version: string, constraint: string): boolean {
+  const specifiers = parsePep440SpecifierSet(constraint);
+  const alternatives = specifiers ? [specifiers] : parsePoetryConstraint(constraint);
+  return !!alternatives && alternatives.some(clauses =>
+    clauses.every(specifier => matchesPep440Specifier(version, specifier.operator, specifier.version))
+  );
+}
+
+/**
+ * 依赖的过期程度
+ */
+export type UpdateSeverity = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * 根据声明的版本和最新版本计算过期程度
+ * @param currentVersionSpec 声明的版本规范（含约束符）
+ * @param latestVersion 仓库中的最新版本
+ * @param isPackageJson npm 范围按 node-semver 下限计算当前版本
+ */
+export function getUpdateSeverity(currentVersionSpec: string, latestVersion: string, isPackageJson: boolean = false): UpdateSeverity {
+  if (!currentVersionSpec || !latestVersion) {
+    return 'none';
+  }
+
+  let current: string;
+  if (isPackageJson) {
+    const floor = minVersion(currentVersionSpec);
+    if (!floor) {
+      return 'none';
+    }
+    current = `${floor.major}.${floor.minor}.${floor.patch}`;
+  } else {
+    current = parseVersionSpec(currentVersionSpec).version;
+  }
+
+  if (!isVersionOutdated(current, latestVersion)) {
+    return 'none';
+  }
+
+  const [currentMajor = 0, currentMinor = 0] = parseVersion(current);
+  const [latestMajor = 0, latestMinor = 0] = parseVersion(latestVersion);
+
+  if (latestMajor !== currentMajor) {
+    return 'major';
+  }
+  if (latestMinor !== currentMinor) {
+    return 'minor';
+  }
+  return 'patch';
+}
+
+/**
+ * 固定到单个版本的依赖返回该版本（Python 的 == / ===，npm 的精确版本），范围约束返回 null
+ */
+export function getPinnedVersion(pkg: PackageInfo, isPackageJson: boolean): string | null {
+  const version = pkg.currentVersion;
+  if (!version) {
+    return null;
+  }
+
+  if (isPackageJson) {
+    return ['', '='].includes(pkg.versionConstraint || '') && parseSemver(version) ? version : null;
+  }
+
+  if (pkg.versionSpec) {
+    const specifiers = parsePep440SpecifierSet(pkg.versionSpec);
+    const pinned = specifiers?.length === 1 && ['==', '==='].includes(specifiers[0].operator) ? specifiers[0].version : null;
+    return pinned && !pinned.includes('*') && isValidPep440(pinned) ? pinned : null;
+  }
+
+  return ['==', '==='].includes(pkg.versionConstraint || '') && isValidPep440(version) ? version : null;
+}
+
+/**
+ * 锁文件落后于声明的范围：返回范围内可用的最新版本（比锁定的版本新），否则返回 null
+ */
+export function getLockfileDrift(range: string, lockedVersion: string, allVersions: string[], isPackageJson: boolean = true): string | null {
+  if (isPackageJson) {
+    const locked = parseSemver(lockedVersion);
+    const best = locked ? maxSatisfying(allVersions, range) : null;
+    return best && (compareSemver(best, locked!) || 0) > 0 ? best : null;
+  }
+
+  if (!parsePep440(lockedVersion)) {
+    return null;
+  }
+  const specifiers = parsePep440SpecifierSet(range);
+  const matches = (candidate: string) => !range || range === '*' || (specifiers
+    ? matchesPep440SpecifierSet(candidate, specifiers)
+    : satisfiesConstraint(candidate, range));
+
+  return allVersions
+    .filter(candidate => parsePep440(candidate) !== null && compareVersions(candidate, lockedVersion) > 0 && matches(candidate))
+    .sort((a, b) => compareVersions(b, a))[0] || null;
+}
+
+/**
+ * 检查版本是否满足声明的版本说明符（预发布版本与普通版本同等对待）
+ * @param allowPoetry 允许 Poetry 约束语法（^、~、空格分隔的子句、|| 连接的多个约束）
+ * @returns 无法判断时（git/file 等协议、dist-tag、直接引用、无法解析的说明符）返回 null
+ */
+export function satisfiesVersionSpec(version: string, spec: string, isPackageJson: boolean = false, allowPoetry: boolean = false): boolean | null {
+  const trimmed = spec.trim();
+  if (!trimmed || trimmed === '*') {
+    return true;
+  }
+
+  if (isPackageJson) {
+    if (!parseSemver(version) || !isValidRange(trimmed)) {
+      return null;
+    }
+    return satisfiesRange(version, trimmed, true);
+  }
+
+  if (!parsePep440(version) || trimmed.startsWith('@')) {
+    return null;
+  }
+  if (!parsePep440SpecifierSet(trimmed) && (!allowPoetry || !parsePoetryConstraint(trimmed))) {
+    return null;
+  }
+  return satisfiesConstraint(version, trimmed);
+}
+
+/**
+ * 从 directory 向上到 stopDirectory（包含）的各级目录，用于查找虚拟环境、node_modules 和锁文件
+ * directory 不在 stopDirectory 中或未指定 stopDirectory 时一直到文件系统根目录
+ */
+export function getAncestorDirs(directory: string, stopDirectory?: string): string[] {
+  const dirs: string[] = [];
+  const stop = stopDirectory ? path.resolve(stopDirectory) : null;
+  let current = path.resolve(directory);
+  const bounded = !!stop && (current === stop || current.startsWith(stop.endsWith(path.sep) ? stop : stop + path.sep));
+  while (true) {
+    dirs.push(current);
+    const parent = path.dirname(current);
+    if (parent === current || (bounded && current === stop)) {
+      return dirs;
+    }
+    current = parent;
+  }
+}
@@ -1,11 +1,57 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { IVersionService, PyPIPackageInfo } from './types';
+import * as vscode from 'vscode';
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { IVersionService, PyPIPackageInfo, ReleaseWarning } from './types';
 import { ConfigManager } from './config';
+import { CredentialStore } from './credentialStore';
+import { ConnectivityMonitor, isNetworkError, OfflineError } from './connectivity';
+import { CancelledError, FetchScheduler } from './fetchScheduler';
+import { DiskCache, isRecordFresh } from './diskCache';
+import { IndexCredentials, loadNetrc, loadPipConfig, PipIndexConfig } from './pipConfig';
+import { isPep440Prerelease, isValidPep440 } from './pep440';
+import { compareVersions, stripUrlCredentials } from './utils';
+import { SimpleIndexClient } from './simpleIndexClient';
+import { getPyPIReleaseWarning, isYankedRelease } from './packageMetadata';
+
+const DEFAULT_INDEX = 'https://pypi.org';
+const DISK_CACHE_NAMESPACE = 'pypi';
+
+/**
+ * 将索引地址转换为 JSON API 的基础地址，例如 https://host/simple/ -> https://host
+ */
+export function toJsonApiBase(indexUrl: string): string {
+    return indexUrl.replace(/\/+$/, '').replace(/\/simple$/, '');
+}
+
+/**
+ * 用于显示的索引名称（只保留主机名，不包含凭据）
+ */
+export function getIndexLabel(indexUrl: string): string {
+    try {
+        return new URL(indexUrl).host;
+    } catch {
+        return indexUrl.replace(/\/\/[^@/]*@/, '//');
+    }
+}
+
+/**
+ * 是否为默认的公共 PyPI 索引
+ */
+export function isDefaultIndex(indexUrl: string | undefined): boolean {
+    return !indexUrl || toJsonApiBase(indexUrl) === DEFAULT_INDEX;
+}
 
 export class VersionService implements IVersionService {
     private static instance: VersionService;
     private client: AxiosInstance;
-    private cache = new Map<string, { data: PyPIPackageInfo; timestamp: number }>();
+    private simpleIndexClient: SimpleIndexClient;
+    private pipConfig: PipIndexConfig | null = null;
+    private netrc: Map<string, IndexCredentials> | null = null;
+    private cache = new Map<string, { data: PyPIPackageInfo; timestamp: number; ttl: number }>();
+    private revalidating = new Set<string>();
+    private notFound = new Set<string>(); // 所有候选索引都返回 404 的包
+    private missingOnIndex = new Map<string, { timestamp: number; ttl: number }>(); // 单个索引上不存在的包，有效期与版本缓存相同
+    private _onDidRevalidate = new vscode.EventEmitter<string>();
+    public readonly onDidRevalidate = this._onDidRevalidate.event; // 后台刷新得到新数据时触发，参数为包名
     private readonly retryDelays = [1000, 2000, 4000]; // 指数退避延迟
     private readonly maxRetries = 3;
 
@@ -16,6 +62,8 @@ export class VersionService implements IVersionService {
                 'User-Agent': 'Python-Version-Lens-VSCode-Extension/1.0.0'
             }
         });
+        this.client.interceptors.request.use(config => this.applyCredentials(config));
+        this.simpleIndexClient = new SimpleIndexClient(this.client);
     }
 
     static getInstance(): VersionService {
@@ -25,61 +73,335 @@ export class VersionService implements IVersionService {
         return VersionService.instance;
     }
 
-    async getLatestVersion(packageName: string): Promise<string | null> {
-        const packageInfo = await this.getPackageInfo(packageName);
-        return packageInfo?.version || null;
-    }
+    async getLatestVersion(packageName: string, indexUrls?: string[], token?: vscode.CancellationToken): Promise<string | null> {
+        const packageInfo = await this.getPackageInfo(packageName, indexUrls, token);
+        if (!packageInfo) return null;
 
-    async getPackageInfo(packageName: string): Promise<PyPIPackageInfo | null> {
-        // 检查缓存
-        if (this.isCacheValid(packageName)) {
-            return this.cache.get(packageName)!.data;
+        // 最新版本被撤回时使用未撤回的最新稳定版本
+        if (isYankedRelease(packageInfo.releases[packageInfo.version])) {
+            return this.filterStableVersions(packageInfo)[0] || packageInfo.version;
         }
+        return packageInfo.version || null;
+    }
 
-        try {
-            const data = await this.fetchWithRetry(packageName);
-            if (data) {
-                this.updateCache(packageName, data);
+    /**
+     * 获取包信息
+     * @param indexUrls requirements 文件中声明的索引（--index-url / --extra-index-url），按顺序查找，找不到时回退到默认索引
+     * @param token 取消后尚未开始的请求不再发起，返回 null
+     */
+    async getPackageInfo(
+        packageName: string,
+        indexUrls: string[] = [],
+        token?: vscode.CancellationToken
+    ): Promise<PyPIPackageInfo | null> {
+        const candidates = this.getIndexCandidates(indexUrls);
+        const notFoundKey = this.getCacheKey(packageName, candidates.join(' '));
+        let notFound = true;
+
+        for (const indexUrl of candidates) {
+            // 检查缓存（内存或磁盘），过期的缓存先返回，同时在后台刷新
+            const cached = await this.getCached(packageName, indexUrl);
+            if (cached) {
+                this.notFound.delete(notFoundKey);
+                return cached;
+            }
+
+            // 最近确认不存在该包的索引（例如私有索引上的公共包）不再重复请求
+            if (this.isMissingOnIndex(packageName, indexUrl)) {
+                continue;
+            }
+
+            try {
+                const data = await this.scheduleFetch(packageName, indexUrl, token);
+                if (data) {
+                    this.notFound.delete(notFoundKey);
+                    return data;
+                }
+                this.markMissingOnIndex(packageName, indexUrl);
+            } catch (error) {
+                // 404 表示该索引上没有这个包，继续查找下一个索引
+                // 只输出索引主机名和错误信息，避免把 URL 或请求头中的认证信息写入日志
+                const status = (error as AxiosError).response?.status;
+                notFound = notFound && status === 404;
+                if (status === 404) {
+                    this.markMissingOnIndex(packageName, indexUrl);
+                }
+                if (error instanceof CancelledError) {
+                    return null;
+                } else if (error instanceof OfflineError) {
+                    // 离线时不重复输出错误，继续尝试下一个索引或缓存
+                } else if (status === 401 || status === 403) {
+                    console.error(`Authentication failed for ${getIndexLabel(indexUrl)} (HTTP ${status}) while fetching ${packageName}`);
+                } else if (status !== 404) {
+                    console.error(`Failed to fetch package info for ${packageName} from ${getIndexLabel(indexUrl)}:`, (error as Error).message);
+                }
             }
-            return data;
-        } catch (error) {
-            console.error(`Failed to fetch package info for ${packageName}:`, error);
-            return null;
         }
+
+        // 网络错误时无法确定包是否存在，保留之前的结论
+        if (notFound) {
+            this.notFound.add(notFoundKey);
+        }
+        return null;
     }
 
-    clearCache(): void {
-        this.cache.clear();
+    /**
+     * 所有候选索引上都不存在该包（上一次查询的结果）
+     */
+    isNotFound(packageName: string, indexUrls: string[] = []): boolean {
+        return this.notFound.has(this.getCacheKey(packageName, this.getIndexCandidates(indexUrls).join(' ')));
     }
 
-    isCacheValid(packageName: string): boolean {
-        const cached = this.cache.get(packageName);
-        if (!cached) return false;
+    /**
+     * 获取所有稳定版本（保留 post 版本，排除预发布、dev 版本和已撤回的版本），按降序排列
+     */
+    async getStableVersions(packageName: string, indexUrls?: string[], token?: vscode.CancellationToken): Promise<string[]> {
+        const packageInfo = await this.getPackageInfo(packageName, indexUrls, token);
+        return packageInfo ? this.filterStableVersions(packageInfo) : [];
+    }
 
-        const config = ConfigManager.getInstance().getConfig();
-        const now = Date.now();
-        return (now - cached.timestamp) < config.cacheTimeout;
+    /**
+     * 固定的版本已被撤回时返回撤回原因
+     */
+    async getReleaseWarning(
+        packageName: string,
+        version: string,
+        indexUrls?: string[],
+        token?: vscode.CancellationToken
+    ): Promise<ReleaseWarning | null> {
+        const packageInfo = await this.getPackageInfo(packageName, indexUrls, token);
+        return packageInfo ? getPyPIReleaseWarning(packageInfo, version) : null;
     }
 
-    private async fetchWithRetry(packageName: string, retryCount = 0): Promise<PyPIPackageInfo | null> {
-        const config = ConfigManager.getInstance().getConfig();
-        const baseUrl = config.customPyPIIndex || 'https://pypi.org';
-        const url = `${baseUrl}/pypi/${packageName}/json`;
+    /**
+     * 本次会话中已获取过的包名，用于包名补全
+     */
+    getCachedPackageNames(): string[] {
+        return Array.from(new Set(Array.from(this.cache.values()).map(entry => entry.data.name)));
+    }
+
+    /**
+     * @param shouldKeep 返回 true 的索引保留缓存（例如暂时不可达的索引），不指定时全部清除
+     */
+    clearCache(shouldKeep?: (indexUrl: string) => boolean): void {
+        if (shouldKeep) {
+            // 键的格式为 "索引地址|包名"，notFound 的键包含以空格分隔的所有候选索引
+            const isKept = (key: string) => key.slice(0, key.lastIndexOf('|')).split(' ').some(shouldKeep);
+            this.cache.forEach((_, key) => {
+                if (!isKept(key)) {
+                    this.cache.delete(key);
+                    DiskCache.getInstance().delete(DISK_CACHE_NAMESPACE, key);
+                }
+            });
+            this.notFound.forEach(key => {
+                if (!isKept(key)) {
+                    this.notFound.delete(key);
+                }
+            });
+            this.missingOnIndex.forEach((_, key) => {
+                if (!isKept(key)) {
+                    this.missingOnIndex.delete(key);
+                }
+            });
+        } else {
+            this.cache.clear();
+            this.notFound.clear();
+            this.missingOnIndex.clear();
+            DiskCache.getInstance().clear(DISK_CACHE_NAMESPACE);
+        }
+        this.pipConfig = null;
+        this.netrc = null;
+    }
+
+    isCacheValid(packageName: string, indexUrl: string = this.getDefaultIndex()): boolean {
+        const cached = this.cache.get(this.getCacheKey(packageName, indexUrl));
+        return !!cached && isRecordFresh(cached);
+    }
+
+    /**
+     * 索引不可达且缓存已过期时，返回缓存数据的获取时间，用于显示 "stale since" 标记
+     */
+    getStaleSince(packageName: string, indexUrls: string[] = []): number | null {
+        const connectivity = ConnectivityMonitor.getInstance();
+        for (const indexUrl of this.getIndexCandidates(indexUrls)) {
+            const cached = this.cache.get(this.getCacheKey(packageName, indexUrl));
+            if (!cached) continue;
+            return !isRecordFresh(cached) && !connectivity.isReachable(indexUrl) ? cached.timestamp : null;
+        }
+        return null;
+    }
+
+    /**
+     * stale-while-revalidate：先查内存，再查磁盘；条目过期时仍返回旧数据，并在后台重新获取
+     */
+    private async getCached(packageName: string, indexUrl: string): Promise<PyPIPackageInfo | null> {
+        const key = this.getCacheKey(packageName, indexUrl);
+        let cached = this.cache.get(key);
+
+        if (!cached) {
+            const record = await DiskCache.getInstance().get<PyPIPackageInfo>(DISK_CACHE_NAMESPACE, key);
+            if (!record) return null;
+            cached = { data: record.data, timestamp: record.timestamp, ttl: record.ttl };
+            this.cache.set(key, cached);
+        }
+
+        if (!isRecordFresh(cached)) {
+            this.revalidate(packageName, indexUrl);
+        }
+        return cached.data;
+    }
+
+    private isMissingOnIndex(packageName: string, indexUrl: string): boolean {
+        const key = this.getCacheKey(packageName, indexUrl);
+        const entry = this.missingOnIndex.get(key);
+        if (entry && !isRecordFresh(entry)) {
+            this.missingOnIndex.delete(key);
+            return false;
+        }
+        return !!entry;
+    }
+
+    private markMissingOnIndex(packageName: string, indexUrl: string): void {
+        const ttl = ConfigManager.getInstance().getConfig().cacheTimeout;
+        this.missingOnIndex.set(this.getCacheKey(packageName, indexUrl), { timestamp: Date.now(), ttl });
+    }
+
+    private revalidate(packageName: string, indexUrl: string): void {
+        const key = this.getCacheKey(packageName, indexUrl);
+        if (this.revalidating.has(key)) return;
+        this.revalidating.add(key);
+
+        const previous = this.cache.get(key)?.data;
+        this.scheduleFetch(packageName, indexUrl)
+            .then(data => {
+                if (!data) return;
+                if (!previous || previous.version !== data.version ||
+                    Object.keys(previous.releases).length !== Object.keys(data.releases).length) {
+                    this._onDidRevalidate.fire(packageName);
+                }
+            })
+            .catch(error => {
+                if (error instanceof OfflineError) return;
+                console.warn(`Background refresh failed for ${packageName} from ${getIndexLabel(indexUrl)}:`, (error as Error).message);
+            })
+            .finally(() => this.revalidating.delete(key));
+    }
+
+    /**
+     * 通过共享调度器发起请求，同一个包的并发请求只执行一次，结果写入缓存
+     */
+    private scheduleFetch(packageName: string, indexUrl: string, token?: vscode.CancellationToken): Promise<PyPIPackageInfo | null> {
+        const key = this.getCacheKey(packageName, indexUrl);
+        return FetchScheduler.getInstance().schedule(`pypi|${key}`, toJsonApiBase(indexUrl), async () => {
+            const data = await this.fetchWithRetry(packageName, indexUrl);
+            if (data) {
+                this.updateCache(packageName, indexUrl, data);
+            }
+            return data;
+        }, token);
+    }
+
+    private async fetchWithRetry(packageName: string, indexUrl: string, retryCount = 0): Promise<PyPIPackageInfo | null> {
+        // 索引不可达时直接失败，由调用方使用缓存数据
+        const connectivity = ConnectivityMonitor.getInstance();
+        connectivity.assertReachable(indexUrl);
 
         try {
-            const response = await this.client.get(url);
-            return this.transformResponse(response.data);
+            const data = await this.fetchPackage(packageName, indexUrl);
+            connectivity.reportSuccess(indexUrl);
+            return data;
         } catch (error) {
+            if (isNetworkError(error)) {
+                // 网络层错误不再重试，标记为离线并等待连通性恢复
+                connectivity.reportFailure(indexUrl);
+                throw error;
+            }
             if (retryCount < this.maxRetries && this.shouldRetry(error as AxiosError)) {
                 await this.delay(this.retryDelays[retryCount] || 4000);
-                return this.fetchWithRetry(packageName, retryCount + 1);
+                return this.fetchWithRetry(packageName, indexUrl, retryCount + 1);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * 优先使用 JSON API；私有索引的 JSON 接口返回 404 时改用 Simple API（PEP 503/691）
+     */
+    private async fetchPackage(packageName: string, indexUrl: string): Promise<PyPIPackageInfo | null> {
+        const url = `${toJsonApiBase(indexUrl)}/pypi/${packageName}/json`;
+
+        try {
+            const response = await this.client.get(url);
+            return this.transformResponse(response.data, indexUrl);
+        } catch (error) {
+            if ((error as AxiosError).response?.status === 404 && !isDefaultIndex(indexUrl)) {
+                return this.simpleIndexClient.fetchProject(indexUrl, packageName);
             }
             throw error;
         }
     }
 
+    /**
+     * 默认索引：customPyPIIndex 配置优先，其次是 pip.conf / PIP_INDEX_URL 中的 index-url
+     */
+    private getDefaultIndex(): string {
+        const config = ConfigManager.getInstance().getConfig();
+        return config.customPyPIIndex || this.getPipConfig().indexUrl || DEFAULT_INDEX;
+    }
+
+    private getIndexCandidates(indexUrls: string[]): string[] {
+        const candidates = [...indexUrls, this.getDefaultIndex(), ...this.getPipConfig().extraIndexUrls];
+        return candidates.filter((url, i) => candidates.indexOf(url) === i);
+    }
+
+    private getPipConfig(): PipIndexConfig {
+        if (!this.pipConfig) {
+            this.pipConfig = loadPipConfig();
+        }
+        return this.pipConfig;
+    }
+
+    /**
+     * 为索引请求添加认证信息：URL 中自带的用户信息优先，其次是 SecretStorage 中保存的认证，最后是 netrc
+     */
+    private async applyCredentials(config: InternalAxiosRequestConfig): Promise<InternalAxiosRequestConfig> {
+        let url: URL;
+        try {
+            url = new URL(config.url || '');
+        } catch {
+            return config;
+        }
+        if (url.username || config.auth || config.headers.Authorization) return config;
+
+        const credentials = await CredentialStore.getInstance().get(url.host) || this.getNetrcCredentials(url.hostname);
+        if (credentials?.token) {
+            config.headers.Authorization = `Bearer ${credentials.token}`;
+        } else if (credentials?.username) {
+            config.auth = { username: credentials.username, password: credentials.password || '' };
+        }
+        return config;
+    }
+
+    private getNetrcCredentials(hostname: string): IndexCredentials | null {
+        if (!this.netrc) {
+            this.netrc = loadNetrc();
+        }
+        // 只使用与主机名匹配的条目，不使用 default 条目，避免把凭据发送到无关的索引
+        return this.netrc.get(hostname) || null;
+    }
+
+    private filterStableVersions(packageInfo: PyPIPackageInfo): string[] {
+        return Object.keys(packageInfo.releases)
+            .filter(v => isValidPep440(v) && !isPep440Prerelease(v) && !isYankedRelease(packageInfo.releases[v]))
+            .sort((a, b) => compareVersions(b, a));
+    }
+
+    private getCacheKey(packageName: string, indexUrl: string): string {
+        return `${indexUrl}|${packageName}`;
+    }
+
     private shouldRetry(error: AxiosError): boolean {
-        if (!error.response) return true; // 网络错误，重试
+        if (!error.response) return false; // 网络错误由连通性检测处理
         const status = error.response.status;
         // 只对服务器错误和限流重试，404表示包不存在，不需要重试
         return status >= 500 || status === 429;
@@ -89,23 +411,50 @@ export class VersionService implements IVersionService {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 
-    private transformResponse(data: any): PyPIPackageInfo {
+    private transformResponse(data: any, indexUrl: string): PyPIPackageInfo {
         return {
             name: data.info.name,
+            indexUrl,
             version: data.info.version,
-            releases: data.releases,
+            releases: this.compactReleases(data.releases || {}),
             info: {
                 summary: data.info.summary || '',
                 description: data.info.description || '',
-                home_page: data.info.home_page || ''
+                home_page: data.info.home_page || '',
+                license: data.info.license || '',
+                requires_python: data.info.requires_python || '',
+                project_urls: data.info.project_urls || {},
+                package_url: data.info.package_url || ''
             }
         };
     }
 
-    private updateCache(packageName: string, data: PyPIPackageInfo): void {
-        this.cache.set(packageName, {
+    /**
+     * 每个分发文件只保留需要的字段（发布时间、requires-python、撤回标记），字段与 Simple API 的结果一致
+     */
+    private compactReleases(releases: { [version: string]: any[] }): { [version: string]: any[] } {
+        const result: { [version: string]: any[] } = {};
+        Object.entries(releases).forEach(([version, files]) => {
+            result[version] = (Array.isArray(files) ? files : []).map(file => ({
+                upload_time_iso_8601: file?.upload_time_iso_8601 || file?.upload_time || null,
+                requires_python: file?.requires_python || null,
+                yanked: !!file?.yanked,
+                yanked_reason: file?.yanked_reason || null
+            }));
+        });
+        return result;
+    }
+
+    private updateCache(packageName: string, indexUrl: string, data: PyPIPackageInfo): void {
+        const key = this.getCacheKey(packageName, indexUrl);
+        const ttl = ConfigManager.getInstance().getConfig().cacheTimeout;
+        this.cache.set(key, {
             data,
-            timestamp: Date.now()
+            timestamp: Date.now(),
+            ttl
         });
+        // 磁盘上不保存索引地址中的认证信息
+        const persisted = data.indexUrl ? { ...data, indexUrl: stripUrlCredentials(data.indexUrl) } : data;
+        DiskCache.getInstance().set(DISK_CACHE_NAMESPACE, key, persisted, ttl);
     }
 }
\ No newline at end of file
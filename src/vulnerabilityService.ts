@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { PackageInfo } from './types';
+import { ConfigManager } from './config';
+import { ConnectivityMonitor, isNetworkError, OfflineError } from './connectivity';
+import { CancelledError, FetchScheduler } from './fetchScheduler';
+import { getQueryKey, OSV_API, OsvClient, OsvDatabase, OsvEcosystem, OsvQuery, OsvVulnerability } from './osv';
+import { getPinnedVersion } from './utils';
+
+/**
+ * 依赖已知漏洞查询：默认使用 api.osv.dev 的批量接口，配置 osvDatabasePath 后改为读取本地 OSV 数据库导出
+ */
+export class VulnerabilityService {
+    private static instance: VulnerabilityService;
+    private client: OsvClient;
+    private cache = new Map<string, { data: OsvVulnerability[]; timestamp: number }>();
+    private records = new Map<string, OsvVulnerability>(); // 漏洞 ID -> 完整记录，多个包共用
+    private pending = new Set<string>();
+    private database: { path: string; promise: Promise<OsvDatabase> } | null = null;
+    private _onDidUpdate = new vscode.EventEmitter<void>();
+    public readonly onDidUpdate = this._onDidUpdate.event; // 新的漏洞数据可用时触发
+
+    private constructor() {
+        this.client = new OsvClient(axios.create({
+            timeout: 10000,
+            headers: {
+                'User-Agent': 'Python-Version-Lens-VSCode-Extension/1.0.0'
+            }
+        }));
+    }
+
+    static getInstance(): VulnerabilityService {
+        if (!VulnerabilityService.instance) {
+            VulnerabilityService.instance = new VulnerabilityService();
+        }
+        return VulnerabilityService.instance;
+    }
+
+    /**
+     * 构造漏洞查询，只查询具体版本：声明中锁定的版本（== / === 或 npm 的精确版本），没有时使用锁文件中的版本
+     */
+    static toQuery(pkg: PackageInfo, isPackageJson: boolean): OsvQuery | null {
+        const version = getPinnedVersion(pkg, isPackageJson) || pkg.lockedVersion;
+        if (!version) {
+            return null;
+        }
+
+        const ecosystem: OsvEcosystem = isPackageJson ? 'npm' : 'PyPI';
+        return { ecosystem, name: pkg.basePackageName || pkg.name.split('[')[0], version };
+    }
+
+    /**
+     * 返回缓存中的漏洞列表，未查询过时返回 undefined（过期数据仍然返回，由 prefetch 在后台更新）
+     */
+    getCached(query: OsvQuery): OsvVulnerability[] | undefined {
+        return this.cache.get(getQueryKey(query))?.data;
+    }
+
+    /**
+     * 在后台批量查询未缓存或已过期的依赖，完成后触发 onDidUpdate
+     */
+    prefetch(queries: OsvQuery[]): void {
+        const ttl = ConfigManager.getInstance().getConfig().cacheTimeout;
+        const now = Date.now();
+        const unique = new Map<string, OsvQuery>();
+        queries.forEach(query => {
+            const key = getQueryKey(query);
+            const cached = this.cache.get(key);
+            if (!this.pending.has(key) && (!cached || now - cached.timestamp >= ttl)) {
+                unique.set(key, query);
+            }
+        });
+        if (!unique.size) {
+            return;
+        }
+
+        const keys = Array.from(unique.keys());
+        keys.forEach(key => this.pending.add(key));
+
+        this.fetchVulnerabilities(Array.from(unique.values()))
+            .then(() => this._onDidUpdate.fire())
+            .catch(error => {
+                if (error instanceof OfflineError || error instanceof CancelledError) {
+                    return;
+                }
+                console.error('Failed to query OSV vulnerabilities:', (error as Error).message);
+            })
+            .finally(() => keys.forEach(key => this.pending.delete(key)));
+    }
+
+    /**
+     * @param shouldKeep 对 OSV API 地址返回 true 时保留缓存（例如 OSV 暂时不可达）
+     */
+    clearCache(shouldKeep?: (url: string) => boolean): void {
+        if (shouldKeep?.(OSV_API) && !ConfigManager.getInstance().getConfig().osvDatabasePath) {
+            return;
+        }
+        this.cache.clear();
+        this.records.clear();
+        this.database = null;
+    }
+
+    private async fetchVulnerabilities(queries: OsvQuery[]): Promise<void> {
+        const databasePath = ConfigManager.getInstance().getConfig().osvDatabasePath;
+        const results = databasePath
+            ? await this.queryDatabase(databasePath, queries)
+            : await this.queryApi(queries);
+
+        const timestamp = Date.now();
+        queries.forEach((query, i) => this.cache.set(getQueryKey(query), { data: results[i], timestamp }));
+    }
+
+    private async queryDatabase(databasePath: string, queries: OsvQuery[]): Promise<OsvVulnerability[][]> {
+        if (!this.database || this.database.path !== databasePath) {
+            const promise = OsvDatabase.load(databasePath);
+            this.database = { path: databasePath, promise };
+            // 加载失败时允许下次重试
+            promise.catch(() => {
+                if (this.database?.promise === promise) {
+                    this.database = null;
+                }
+            });
+        }
+
+        const database = await this.database.promise;
+        return queries.map(query => database.query(query));
+    }
+
+    private async queryApi(queries: OsvQuery[]): Promise<OsvVulnerability[][]> {
+        const scheduler = FetchScheduler.getInstance();
+        const batchKey = `osv|batch|${queries.map(getQueryKey).sort().join(',')}`;
+        const ids = await scheduler.schedule(batchKey, OSV_API, () => this.request(() => this.client.queryBatch(queries)));
+
+        // querybatch 只返回漏洞 ID，逐个获取尚未缓存的完整记录
+        const missing = Array.from(new Set(ids.flat())).filter(id => !this.records.has(id));
+        await Promise.all(missing.map(async id => {
+            const record = await scheduler.schedule(`osv|vuln|${id}`, OSV_API, () => this.request(() => this.client.getVulnerability(id)));
+            this.records.set(id, record);
+        }));
+
+        return ids.map(list => list
+            .map(id => this.records.get(id))
+            .filter((record): record is OsvVulnerability => !!record));
+    }
+
+    private async request<T>(fn: () => Promise<T>): Promise<T> {
+        const connectivity = ConnectivityMonitor.getInstance();
+        connectivity.assertReachable(OSV_API);
+
+        try {
+            const result = await fn();
+            connectivity.reportSuccess(OSV_API);
+            return result;
+        } catch (error) {
+            if (isNetworkError(error)) {
+                connectivity.reportFailure(OSV_API);
+            }
+            throw error;
+        }
+    }
+}